@@ -0,0 +1,89 @@
+// src/app/api/backup/[wallet]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { PublicKey } from "@solana/web3.js";
+
+import {
+  BackupAuthError,
+  MAX_BACKUP_BYTES,
+  readBackup,
+  verifyBackupUpload,
+  writeBackup,
+} from "@/app/lib/backupFileStore";
+
+function validWallet(wallet: string): boolean {
+  try {
+    new PublicKey(wallet);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GET /api/backup/<wallet>
+ * → { envelope: string, updatedAt: number } (the envelope is encrypted client-side)
+ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ wallet: string }> }) {
+  const { wallet } = await ctx.params;
+  if (!validWallet(wallet)) {
+    return NextResponse.json({ error: "Invalid wallet" }, { status: 400 });
+  }
+
+  const backup = await readBackup(wallet);
+  if (!backup) return NextResponse.json({ error: "No backup" }, { status: 404 });
+
+  return NextResponse.json(backup, { headers: { "Cache-Control": "no-store" } });
+}
+
+/**
+ * PUT /api/backup/<wallet>
+ * { envelope: string, at: number, signature: base58 } — signature over the upload message
+ * → { updatedAt: number }
+ */
+export async function PUT(req: NextRequest, ctx: { params: Promise<{ wallet: string }> }) {
+  const { wallet } = await ctx.params;
+  if (!validWallet(wallet)) {
+    return NextResponse.json({ error: "Invalid wallet" }, { status: 400 });
+  }
+
+  const text = await req.text();
+  if (text.length > MAX_BACKUP_BYTES) {
+    return NextResponse.json({ error: "Backup too large" }, { status: 413 });
+  }
+
+  let body: { envelope?: unknown; at?: unknown; signature?: unknown };
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  if (
+    typeof body?.envelope !== "string" ||
+    typeof body.at !== "number" ||
+    typeof body.signature !== "string"
+  ) {
+    return NextResponse.json({ error: "Missing envelope or signature" }, { status: 400 });
+  }
+
+  try {
+    verifyBackupUpload({
+      wallet,
+      envelope: body.envelope,
+      at: body.at,
+      signature: body.signature,
+    });
+  } catch (e) {
+    if (e instanceof BackupAuthError) {
+      return NextResponse.json({ error: e.message }, { status: 401 });
+    }
+    throw e;
+  }
+
+  try {
+    const updatedAt = await writeBackup(wallet, body.envelope);
+    return NextResponse.json({ updatedAt });
+  } catch (e) {
+    console.error("Backup write failed:", e);
+    return NextResponse.json({ error: "Storage error" }, { status: 500 });
+  }
+}
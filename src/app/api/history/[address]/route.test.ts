@@ -0,0 +1,109 @@
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { HeliusMock, startHeliusMock } from "@/test/heliusMock";
+import { FIXTURE_WALLET, loadHeliusFixture } from "@/test/heliusFixtures";
+import { GET } from "./route";
+
+let mock: HeliusMock;
+
+beforeAll(async () => {
+  mock = await startHeliusMock();
+  mock.setTransactions(FIXTURE_WALLET, [
+    ...loadHeliusFixture("self-transfer"),
+    ...loadHeliusFixture("multi-transfer"),
+    ...loadHeliusFixture("swap"),
+  ]);
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+beforeEach(() => {
+  vi.stubEnv("HELIUS_API_KEY", "test-key");
+  vi.stubEnv("HELIUS_API_BASE_URL", mock.url);
+  mock.failWith(null);
+  mock.requests.length = 0;
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  return () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  };
+});
+
+// Each test uses its own client IP and query, so the shared limiter and cache don't leak between them
+function get(query: string, ip: string, address = FIXTURE_WALLET) {
+  const req = new NextRequest(`http://localhost/api/history/${address}?${query}`, {
+    headers: { "x-forwarded-for": ip },
+  });
+  return GET(req, { params: Promise.resolve({ address }) });
+}
+
+describe("GET /api/history/[address]", () => {
+  it("returns normalized transactions from Helius and caches them", async () => {
+    const res = await get("limit=3", "10.0.0.1");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Cache")).toBe("MISS");
+
+    const body = await res.json();
+    expect(body.transactions).toHaveLength(3);
+    expect(body.transactions[2]).toMatchObject({
+      memo: "INV-1042",
+      failed: false,
+      timestamp: 1733415138,
+    });
+    expect(mock.requests).toEqual([
+      `/v0/addresses/${FIXTURE_WALLET}/transactions?api-key=test-key&limit=3`,
+    ]);
+
+    const again = await get("limit=3", "10.0.0.1");
+    expect(again.headers.get("X-Cache")).toBe("HIT");
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it("passes the before cursor through", async () => {
+    const first = await (await get("limit=2", "10.0.0.2")).json();
+    const cursor = first.transactions[1].signature;
+
+    const res = await get(`limit=2&before=${cursor}`, "10.0.0.2");
+    const body = await res.json();
+    expect(body.transactions.map((t: { signature: string }) => t.signature)).toEqual([
+      "2czYgq11EQhqRrWrH6MERML3YeQa5ykQs9KL7TMMz5VcEax5f1PBEarFMqtHiVzGFVTgknfVKfVjM5NkrpBnJaho",
+      "4YdVby9qnSdFZtVPR5twHj9Q5TEFUk1QUELGUQPzrYWtmbAEQaDN3oBdETp3HnThBhvJHLcWqJJYcwHWTRXB76dT",
+    ]);
+  });
+
+  it("answers 503 without a key so the client can fall back", async () => {
+    vi.stubEnv("HELIUS_API_KEY", "");
+    const res = await get("limit=4", "10.0.0.3");
+    expect(res.status).toBe(503);
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("rejects invalid addresses and clusters", async () => {
+    expect((await get("limit=5", "10.0.0.4", "not-an-address")).status).toBe(400);
+    expect((await get("cluster=moon", "10.0.0.4")).status).toBe(400);
+  });
+
+  it("maps upstream rate limits to 429 and other failures to 502", async () => {
+    mock.failWith(429);
+    expect((await get("limit=6", "10.0.0.5")).status).toBe(429);
+
+    mock.failWith(500);
+    expect((await get("limit=7", "10.0.0.5")).status).toBe(502);
+  });
+
+  it("rate limits on the proxy-added address, not the client-supplied ones", async () => {
+    for (let i = 0; i < 30; i++) {
+      const res = await get("limit=8", `1.2.3.${i}, 10.0.0.6`);
+      expect(res.status).toBe(200);
+    }
+
+    const blocked = await get("limit=8", "9.9.9.9, 10.0.0.6");
+    expect(blocked.status).toBe(429);
+    expect(Number(blocked.headers.get("Retry-After"))).toBeGreaterThan(0);
+
+    expect((await get("limit=8", "10.0.0.7")).status).toBe(200);
+  });
+});
@@ -0,0 +1,96 @@
+// src/app/api/history/[address]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { PublicKey } from "@solana/web3.js";
+
+import { isClusterId } from "@/app/lib/cluster";
+import {
+  HeliusUpstreamError,
+  cacheGet,
+  cacheSet,
+  fetchHeliusHistory,
+  isHeliusConfigured,
+  rateLimit,
+} from "@/app/lib/heliusProxy";
+
+const MAX_LIMIT = 100;
+
+/**
+ * The proxy in front of us appends the address it saw, so only the last
+ * x-forwarded-for entry is trustworthy; earlier ones come from the client.
+ */
+function clientIp(req: NextRequest): string {
+  const fwd = req.headers.get("x-forwarded-for");
+  const last = fwd?.split(",").pop()?.trim();
+  if (last) return last;
+  return req.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+/**
+ * GET /api/history/<address>?cluster=mainnet-beta&limit=80&before=<sig>
+ * → { transactions: HistoryTx[] }
+ */
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ address: string }> }
+) {
+  const { address } = await ctx.params;
+
+  try {
+    new PublicKey(address);
+  } catch {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  const sp = req.nextUrl.searchParams;
+  const clusterParam = sp.get("cluster") ?? "mainnet-beta";
+  if (!isClusterId(clusterParam)) {
+    return NextResponse.json({ error: "Invalid cluster" }, { status: 400 });
+  }
+
+  const limitRaw = Number(sp.get("limit") ?? 80);
+  const limit = Number.isFinite(limitRaw)
+    ? Math.min(Math.max(Math.floor(limitRaw), 1), MAX_LIMIT)
+    : 80;
+  const before = sp.get("before")?.trim() || undefined;
+
+  if (!isHeliusConfigured(clusterParam)) {
+    // Lets the client fall back to another history source
+    return NextResponse.json({ error: "History provider not configured" }, { status: 503 });
+  }
+
+  const retryAfter = rateLimit(clientIp(req));
+  if (retryAfter > 0) {
+    return NextResponse.json(
+      { error: "Too many requests" },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } }
+    );
+  }
+
+  const cacheKey = `${clusterParam}:${address}:${limit}:${before ?? ""}`;
+  const cached = cacheGet(cacheKey);
+  if (cached) {
+    return NextResponse.json(
+      { transactions: cached },
+      { headers: { "X-Cache": "HIT", "Cache-Control": "private, max-age=15" } }
+    );
+  }
+
+  try {
+    const transactions = await fetchHeliusHistory({
+      address,
+      cluster: clusterParam,
+      limit,
+      before,
+    });
+    cacheSet(cacheKey, transactions);
+
+    return NextResponse.json(
+      { transactions },
+      { headers: { "X-Cache": "MISS", "Cache-Control": "private, max-age=15" } }
+    );
+  } catch (e) {
+    console.error("History proxy failed:", e);
+    const status = e instanceof HeliusUpstreamError && e.status === 429 ? 429 : 502;
+    return NextResponse.json({ error: "Upstream history error" }, { status });
+  }
+}
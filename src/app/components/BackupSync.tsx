@@ -0,0 +1,234 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+
+import {
+  BackupEnvelope,
+  BackupMergeResult,
+  MessageSigner,
+  collectBackup,
+  createApiBackupStore,
+  decryptBackup,
+  encryptBackup,
+  mergeBackup,
+  parseBackupEnvelope,
+  signBackupKey,
+} from "../lib/backup";
+
+type Props = {
+  wallet: string;
+  /** Missing when the connected wallet can't sign messages */
+  signMessage?: MessageSigner;
+  /** Local contacts/receipts changed; reload them */
+  onRestored: () => void;
+  onClose: () => void;
+};
+
+type Status = { ok: boolean; text: string } | null;
+
+function mergeSummary(r: BackupMergeResult) {
+  const parts = [
+    r.contactsAdded ? `${r.contactsAdded} contacts` : "",
+    r.receiptsAdded ? `${r.receiptsAdded} receipts` : "",
+    r.notesUpdated ? `${r.notesUpdated} newer notes` : "",
+  ].filter(Boolean);
+  return parts.length ? `Restored ${parts.join(", ")}.` : "Already up to date — nothing new in the backup.";
+}
+
+/**
+ * Encrypted backup of contacts and receipt notes, keyed to the connected wallet:
+ * download/restore a file, or push/pull the latest copy to the server.
+ */
+export default function BackupSync({ wallet, signMessage, onRestored, onClose }: Props) {
+  const store = useMemo(() => createApiBackupStore(), []);
+  // One signature per session: the key is the same every time for this wallet
+  const keyRef = useRef<{ wallet: string; sig: Uint8Array } | null>(null);
+
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<Status>(null);
+
+  async function backupKey(sign: MessageSigner) {
+    if (keyRef.current?.wallet === wallet) return keyRef.current.sig;
+    const sig = await signBackupKey(wallet, sign);
+    keyRef.current = { wallet, sig };
+    return sig;
+  }
+
+  async function run(label: string, fn: (sign: MessageSigner) => Promise<string>) {
+    if (!signMessage) return;
+    setBusy(label);
+    setStatus(null);
+    try {
+      setStatus({ ok: true, text: await fn(signMessage) });
+    } catch (e) {
+      setStatus({ ok: false, text: e instanceof Error ? e.message : "Backup failed" });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function restore(envelope: BackupEnvelope, sign: MessageSigner) {
+    const payload = await decryptBackup(envelope, wallet, await backupKey(sign));
+    const result = mergeBackup(payload, wallet);
+    onRestored();
+    return mergeSummary(result);
+  }
+
+  const downloadFile = () =>
+    run("download", async (sign) => {
+      const envelope = await encryptBackup(collectBackup(wallet), wallet, await backupKey(sign));
+      const url = URL.createObjectURL(
+        new Blob([JSON.stringify(envelope)], { type: "application/json" })
+      );
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `utilizap-backup-${wallet.slice(0, 4)}-${new Date()
+        .toISOString()
+        .slice(0, 10)}.json`;
+      a.click();
+      window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+      return "Encrypted backup downloaded.";
+    });
+
+  const restoreFile = (file: File | undefined) => {
+    if (!file) return;
+    run("file", async (sign) => restore(parseBackupEnvelope(await file.text()), sign));
+  };
+
+  const push = () =>
+    run("push", async (sign) => {
+      const envelope = await encryptBackup(collectBackup(wallet), wallet, await backupKey(sign));
+      await store.push(wallet, envelope, sign);
+      return `Backed up to ${store.label}.`;
+    });
+
+  const pull = () =>
+    run("pull", async (sign) => {
+      const envelope = await store.pull(wallet);
+      if (!envelope) return `No backup on ${store.label} for this wallet yet.`;
+      return restore(envelope, sign);
+    });
+
+  const disabled = !signMessage || busy !== null;
+
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-modal="true">
+      <button
+        type="button"
+        className="absolute inset-0 uz-preview__backdrop"
+        onClick={onClose}
+        aria-label="Close backup"
+      />
+
+      <div className="absolute inset-0 flex items-end sm:items-center justify-center p-0 sm:p-6">
+        <div className="w-full sm:max-w-lg">
+          <div className="uz-preview__ring">
+            <div className="uz-preview__surface rounded-t-3xl sm:rounded-2xl overflow-hidden max-h-[90vh] flex flex-col">
+              <div className="uz-preview__header px-5 py-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-white">Encrypted Backup</div>
+                  <div className="mt-0.5 text-xs text-white/70 truncate">
+                    Contacts and receipt notes, locked to {wallet.slice(0, 4)}…{wallet.slice(-4)}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="uz-preview__secondary rounded-lg px-3 py-2 text-xs"
+                >
+                  Close
+                </button>
+              </div>
+
+              <div className="px-5 py-5 overflow-y-auto space-y-4">
+                {!signMessage ? (
+                  <div className="rounded-xl border border-amber-300/30 bg-amber-300/10 px-4 py-3 text-xs text-amber-100">
+                    This wallet can&apos;t sign messages, so it can&apos;t unlock a backup key.
+                  </div>
+                ) : (
+                  <div className="text-[11px] text-white/60">
+                    Your wallet signs a fixed message to derive the key (no transaction, no fee).
+                    Only this wallet can decrypt the backup.
+                  </div>
+                )}
+
+                <div className="rounded-2xl px-4 py-3 uz-preview__panel space-y-2">
+                  <div className="text-xs text-white/70">Backup file</div>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={downloadFile}
+                      disabled={disabled}
+                      className="uz-btn-secondary disabled:opacity-40"
+                    >
+                      {busy === "download" ? "Encrypting…" : "Download Backup"}
+                    </button>
+                    <label
+                      className={[
+                        "uz-btn-secondary inline-block",
+                        disabled ? "opacity-40 pointer-events-none" : "cursor-pointer",
+                      ].join(" ")}
+                    >
+                      {busy === "file" ? "Restoring…" : "Restore from File"}
+                      <input
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                          restoreFile(e.target.files?.[0]);
+                          e.target.value = "";
+                        }}
+                      />
+                    </label>
+                  </div>
+                </div>
+
+                <div className="rounded-2xl px-4 py-3 uz-preview__panel space-y-2">
+                  <div className="text-xs text-white/70">Sync via {store.label}</div>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={push}
+                      disabled={disabled}
+                      className="uz-btn-secondary disabled:opacity-40"
+                    >
+                      {busy === "push" ? "Uploading…" : "Push Backup"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={pull}
+                      disabled={disabled}
+                      className="uz-btn-secondary disabled:opacity-40"
+                    >
+                      {busy === "pull" ? "Downloading…" : "Pull & Merge"}
+                    </button>
+                  </div>
+                  <div className="text-[11px] text-white/60">
+                    The server only stores the encrypted file. Uploads ask for a second signature
+                    proving they come from this wallet.
+                  </div>
+                </div>
+
+                {status ? (
+                  <div
+                    className={[
+                      "text-xs",
+                      status.ok ? "text-emerald-200" : "text-red-200",
+                    ].join(" ")}
+                  >
+                    {status.text}
+                  </div>
+                ) : null}
+
+                <div className="text-[11px] text-white/60">
+                  Restoring merges by id: contacts you already have are kept, missing receipts are
+                  added, and the most recently edited note wins.
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,490 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { SendTransactionError } from "@solana/web3.js";
+
+import { useCluster } from "../providers";
+import {
+  PayoutCsvError,
+  PayoutRow,
+  buildPayoutTransactions,
+  parsePayoutCsv,
+  validatePayoutRow,
+} from "../lib/batchPayout";
+import { PriorityLevel } from "../lib/priorityFee";
+import { TokenInfo, formatTokenAmount } from "../lib/tokens";
+import {
+  AnyTransaction,
+  TxExpiredError,
+  TxOutcomeUnknownError,
+  confirmWithRebroadcast,
+  fetchLookupTables,
+  pickTransactionVersion,
+  transactionSignature,
+} from "../lib/transfer";
+import { withRpc } from "../lib/rpc";
+
+type Props = {
+  token: TokenInfo;
+  contacts: { id: string; name: string; address: string }[];
+  priority: PriorityLevel;
+  /** Called whenever a row reaches confirmed/failed/unknown, so the page can write its receipt */
+  onRowSettled: (row: PayoutRow) => void;
+  onClose: () => void;
+};
+
+function newRowId() {
+  return `${Date.now()}_${Math.random().toString(16).slice(2)}`;
+}
+
+function statusClasses(status: PayoutRow["status"]) {
+  if (status === "confirmed") return "border-emerald-400/30 bg-emerald-400/10 text-emerald-200";
+  if (status === "failed") return "border-red-400/30 bg-red-400/10 text-red-200";
+  if (status === "sending") return "border-white/15 bg-white/5 text-zinc-200";
+  if (status === "unknown") return "border-amber-400/30 bg-amber-400/10 text-amber-200";
+  return "border-white/10 bg-white/5 text-zinc-300";
+}
+
+/**
+ * Pay many recipients at once: import a CSV (address,amount,note) or pick
+ * contacts, pack several transfers per transaction and sign them all together.
+ */
+export default function BatchPayout({
+  token,
+  contacts,
+  priority,
+  onRowSettled,
+  onClose,
+}: Props) {
+  const { publicKey, signTransaction, signAllTransactions, wallet } = useWallet();
+  const { cluster, rpc } = useCluster();
+
+  const [csvText, setCsvText] = useState("");
+  const [rows, setRows] = useState<PayoutRow[]>([]);
+  const [csvErrors, setCsvErrors] = useState<PayoutCsvError[]>([]);
+  const [running, setRunning] = useState(false);
+  const [batchError, setBatchError] = useState<string | null>(null);
+
+  const [contactId, setContactId] = useState("");
+  const [contactAmount, setContactAmount] = useState("");
+
+  const total = useMemo(
+    () => rows.reduce((sum, r) => sum + (Number(r.amountUi) || 0), 0),
+    [rows]
+  );
+  const confirmedCount = rows.filter((r) => r.status === "confirmed").length;
+  const failedCount = rows.filter((r) => r.status === "failed").length;
+  const retryableCount = rows.filter((r) => r.status === "failed" && r.retryable).length;
+  const unknownCount = rows.filter((r) => r.status === "unknown").length;
+  const pendingCount = rows.filter((r) => r.status === "pending").length;
+
+  function importCsv(text: string) {
+    const parsed = parsePayoutCsv(text, token, newRowId);
+    setRows((prev) => [...prev, ...parsed.rows]);
+    setCsvErrors(parsed.errors);
+    if (parsed.rows.length > 0) setCsvText("");
+  }
+
+  async function onCsvFile(file: File | undefined) {
+    if (!file) return;
+    importCsv(await file.text());
+  }
+
+  function addContactRow() {
+    const c = contacts.find((x) => x.id === contactId);
+    if (!c) return;
+    const row = { address: c.address, amountUi: contactAmount.trim() };
+    const problem = validatePayoutRow(row, token);
+    if (problem) {
+      setCsvErrors([{ line: 0, message: `${c.name}: ${problem}` }]);
+      return;
+    }
+    setRows((prev) => [...prev, { id: newRowId(), ...row, note: c.name, status: "pending" }]);
+    setContactAmount("");
+    setCsvErrors([]);
+  }
+
+  function patchRows(target: PayoutRow[], patch: Partial<PayoutRow>) {
+    const next = target.map((r) => ({ ...r, ...patch }));
+    const byId = new Map(next.map((r) => [r.id, r]));
+    setRows((prev) => prev.map((r) => byId.get(r.id) ?? r));
+    if (patch.status === "confirmed" || patch.status === "failed" || patch.status === "unknown") {
+      next.forEach(onRowSettled);
+    }
+  }
+
+  async function pay(target: PayoutRow[]) {
+    if (!publicKey || target.length === 0) return;
+    // Wallets without signAllTransactions get one prompt per transaction
+    const signAll: ((txs: AnyTransaction[]) => Promise<AnyTransaction[]>) | null =
+      signAllTransactions ??
+      (signTransaction ? (txs) => Promise.all(txs.map((t) => signTransaction(t))) : null);
+    if (!signAll) {
+      setBatchError("This wallet can't sign transactions.");
+      return;
+    }
+
+    const rowsOf = (ids: string[]) => target.filter((r) => ids.includes(r.id));
+
+    setRunning(true);
+    setBatchError(null);
+    patchRows(target, {
+      status: "sending",
+      error: undefined,
+      sig: undefined,
+      lastValidBlockHeight: undefined,
+      retryable: undefined,
+    });
+
+    try {
+      const version = pickTransactionVersion(wallet?.adapter.supportedTransactionVersions);
+      const built = await buildPayoutTransactions({
+        connection: rpc,
+        sender: publicKey,
+        token,
+        rows: target,
+        priority,
+        version,
+        lookupTables: version === 0 ? await fetchLookupTables(rpc, cluster) : [],
+      });
+
+      // One wallet prompt for the whole batch
+      const signed = await signAll(built.map((b) => b.tx));
+
+      await Promise.all(
+        built.map(async (b, i) => {
+          // Known before sending, so every outcome below can be checked on-chain
+          const sent = rowsOf(b.rowIds).map((r) => ({
+            ...r,
+            sig: transactionSignature(signed[i]),
+            lastValidBlockHeight: b.lastValidBlockHeight,
+          }));
+          const raw = signed[i].serialize();
+          patchRows(sent, {});
+
+          try {
+            await withRpc(rpc, (c) => c.sendRawTransaction(raw, { skipPreflight: false }));
+          } catch (e) {
+            // The RPC answered with a rejection (e.g. preflight): it never reached the network.
+            // Anything else (a timeout, a dropped connection) may have been submitted.
+            const rejected = e instanceof SendTransactionError;
+            patchRows(sent, {
+              status: rejected ? "failed" : "unknown",
+              retryable: rejected,
+              error: e instanceof Error ? e.message : "Send failed",
+            });
+            return;
+          }
+
+          try {
+            await confirmWithRebroadcast({
+              connection: rpc,
+              signature: sent[0].sig,
+              raw,
+              lastValidBlockHeight: b.lastValidBlockHeight,
+            });
+            patchRows(sent, { status: "confirmed" });
+          } catch (e) {
+            patchRows(sent, {
+              status: e instanceof TxOutcomeUnknownError ? "unknown" : "failed",
+              // Landed with an error, or unknown: re-signing could pay twice
+              retryable: e instanceof TxExpiredError,
+              error: e instanceof Error ? e.message : "Send failed",
+            });
+          }
+        })
+      );
+    } catch (e) {
+      // Building or signing failed: nothing was sent
+      patchRows(target, { status: "pending" });
+      setBatchError(e instanceof Error ? e.message : "Batch failed");
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  /**
+   * Look the rows' signatures up before anything is re-signed: settles the ones that
+   * landed after all and returns the retryable ones that provably didn't.
+   */
+  async function recheck(target: PayoutRow[]): Promise<PayoutRow[]> {
+    const withSig = target.filter((r) => r.sig);
+    if (withSig.length === 0) return [];
+
+    const [{ value }, height] = await Promise.all([
+      withRpc(rpc, (c) =>
+        c.getSignatureStatuses(
+          withSig.map((r) => r.sig!),
+          { searchTransactionHistory: true }
+        )
+      ),
+      withRpc(rpc, (c) => c.getBlockHeight("confirmed")),
+    ]);
+
+    const resend: PayoutRow[] = [];
+    withSig.forEach((r, i) => {
+      const st = value[i];
+      if (st?.err) {
+        patchRows([r], { status: "failed", retryable: false, error: "Failed on-chain" });
+      } else if (st?.confirmationStatus === "confirmed" || st?.confirmationStatus === "finalized") {
+        patchRows([r], { status: "confirmed", error: undefined });
+      } else if (st) {
+        // Seen but not confirmed yet
+        patchRows([r], { status: "unknown" });
+      } else if (r.status === "failed" && r.retryable) {
+        resend.push(r);
+      } else if (
+        r.status === "unknown" &&
+        r.lastValidBlockHeight !== undefined &&
+        height > r.lastValidBlockHeight
+      ) {
+        patchRows([r], {
+          status: "failed",
+          retryable: true,
+          error: "Expired before it landed. Safe to retry.",
+        });
+      }
+    });
+    return resend;
+  }
+
+  async function checkThen(target: PayoutRow[], resend: boolean) {
+    setRunning(true);
+    setBatchError(null);
+    let fresh: PayoutRow[] = [];
+    try {
+      fresh = await recheck(target);
+    } catch {
+      setBatchError("Couldn't reach the network to check these payments. Try again in a moment.");
+    } finally {
+      setRunning(false);
+    }
+    if (resend) await pay(fresh);
+  }
+
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-modal="true">
+      <button
+        type="button"
+        className="absolute inset-0 uz-preview__backdrop"
+        onClick={running ? undefined : onClose}
+        aria-label="Close batch payout"
+      />
+
+      <div className="absolute inset-0 flex items-end sm:items-center justify-center p-0 sm:p-6">
+        <div className="w-full sm:max-w-2xl">
+          <div className="uz-preview__ring">
+            <div className="uz-preview__surface rounded-t-3xl sm:rounded-2xl overflow-hidden max-h-[90vh] flex flex-col">
+              <div className="uz-preview__header px-5 py-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-white">Batch Payout</div>
+                  <div className="mt-0.5 text-xs text-white/70">
+                    Pay many recipients in {token.symbol} with one approval
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={running}
+                  className="uz-preview__secondary rounded-lg px-3 py-2 text-xs disabled:opacity-40"
+                >
+                  Close
+                </button>
+              </div>
+
+              <div className="px-5 py-5 overflow-y-auto space-y-4">
+                <div className="rounded-2xl px-4 py-3 uz-preview__panel">
+                  <label className="text-xs text-white/70">
+                    CSV (address,amount,note — one per line)
+                  </label>
+                  <textarea
+                    value={csvText}
+                    onChange={(e) => setCsvText(e.target.value)}
+                    placeholder={"address,amount,note\n7xKX…,125.50,Week 32"}
+                    className="uz-input w-full mt-2 h-24 font-mono text-xs"
+                    spellCheck={false}
+                    disabled={running}
+                  />
+                  <div className="mt-2 flex flex-wrap items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => importCsv(csvText)}
+                      disabled={running || !csvText.trim()}
+                      className="uz-btn-secondary disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      Add Rows
+                    </button>
+                    <label className="uz-btn-secondary cursor-pointer">
+                      Upload CSV
+                      <input
+                        type="file"
+                        accept=".csv,text/csv,text/plain"
+                        className="hidden"
+                        disabled={running}
+                        onChange={(e) => {
+                          onCsvFile(e.target.files?.[0]);
+                          e.target.value = "";
+                        }}
+                      />
+                    </label>
+                  </div>
+
+                  {contacts.length > 0 ? (
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      <select
+                        value={contactId}
+                        onChange={(e) => setContactId(e.target.value)}
+                        className="uz-input flex-1 min-w-[10rem]"
+                        disabled={running}
+                      >
+                        <option value="">Pick a contact…</option>
+                        {contacts.map((c) => (
+                          <option key={c.id} value={c.id}>
+                            {c.name}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        value={contactAmount}
+                        onChange={(e) => setContactAmount(e.target.value)}
+                        placeholder="Amount"
+                        inputMode="decimal"
+                        className="uz-input w-28"
+                        disabled={running}
+                      />
+                      <button
+                        type="button"
+                        onClick={addContactRow}
+                        disabled={running || !contactId || !contactAmount.trim()}
+                        className="uz-btn-secondary disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        Add
+                      </button>
+                    </div>
+                  ) : null}
+
+                  {csvErrors.length > 0 ? (
+                    <div className="mt-3 rounded-xl border border-amber-300/30 bg-amber-300/10 px-3 py-2 text-[11px] text-amber-100 space-y-0.5">
+                      {csvErrors.map((e, i) => (
+                        <div key={i}>
+                          {e.line > 0 ? `Line ${e.line}: ` : ""}
+                          {e.message}
+                        </div>
+                      ))}
+                    </div>
+                  ) : null}
+                </div>
+
+                {rows.length > 0 ? (
+                  <div className="rounded-2xl overflow-hidden uz-preview__panel">
+                    {rows.map((r) => (
+                      <div
+                        key={r.id}
+                        className="px-4 py-2 border-b border-white/10 last:border-b-0 text-xs flex items-center gap-3"
+                      >
+                        <span
+                          className={[
+                            "text-[11px] px-2 py-0.5 rounded-full border shrink-0",
+                            statusClasses(r.status),
+                          ].join(" ")}
+                        >
+                          {r.status === "sending"
+                            ? "Sending…"
+                            : r.status === "unknown"
+                            ? "Unconfirmed"
+                            : r.status[0].toUpperCase() + r.status.slice(1)}
+                        </span>
+                        <div className="min-w-0 flex-1">
+                          <div className="font-mono text-white truncate">{r.address}</div>
+                          <div className="text-white/60 truncate">
+                            {r.note || "—"}
+                            {r.error ? <span className="text-red-200"> • {r.error}</span> : null}
+                            {r.sig ? (
+                              <span className="font-mono text-white/40"> • {r.sig.slice(0, 8)}…</span>
+                            ) : null}
+                          </div>
+                        </div>
+                        <div className="font-semibold text-white shrink-0">
+                          {formatTokenAmount(Number(r.amountUi), token)}
+                        </div>
+                        {r.status === "pending" && !running ? (
+                          <button
+                            type="button"
+                            onClick={() => setRows((prev) => prev.filter((x) => x.id !== r.id))}
+                            className="text-white/50 hover:text-white shrink-0"
+                            aria-label="Remove row"
+                          >
+                            ✕
+                          </button>
+                        ) : null}
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+
+                {batchError ? (
+                  <div className="rounded-xl border border-red-400/25 bg-red-400/10 px-4 py-3 text-xs text-red-100">
+                    {batchError}
+                  </div>
+                ) : null}
+              </div>
+
+              <div className="px-5 py-4 border-t border-white/10">
+                <div className="flex items-center justify-between text-xs text-white/70">
+                  <span>
+                    {rows.length} rows • {confirmedCount} paid • {failedCount} failed
+                    {unknownCount > 0 ? ` • ${unknownCount} unconfirmed` : ""}
+                  </span>
+                  <span className="font-semibold text-white">
+                    {formatTokenAmount(total, token)} {token.symbol}
+                  </span>
+                </div>
+
+                {unknownCount > 0 ? (
+                  <div className="mt-3 rounded-xl border border-amber-300/30 bg-amber-300/10 px-3 py-2 text-[11px] text-amber-100 flex items-center justify-between gap-3">
+                    <span>
+                      Lost contact with the network before {unknownCount} payment
+                      {unknownCount === 1 ? "" : "s"} confirmed. They may still land, so they
+                      can&apos;t be retried until checked.
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => checkThen(rows.filter((r) => r.status === "unknown"), false)}
+                      disabled={running}
+                      className="shrink-0 underline disabled:opacity-40"
+                    >
+                      Check again
+                    </button>
+                  </div>
+                ) : null}
+
+                <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      checkThen(rows.filter((r) => r.status === "failed" && r.retryable), true)
+                    }
+                    disabled={running || retryableCount === 0}
+                    className="uz-preview__secondary rounded-xl px-4 py-3 text-sm font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Retry Failed ({retryableCount})
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => pay(rows.filter((r) => r.status === "pending"))}
+                    disabled={running || pendingCount === 0 || !publicKey}
+                    className="uz-preview__primary rounded-xl px-4 py-3 text-sm font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    {running ? "Paying…" : `Pay ${pendingCount} Recipients →`}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
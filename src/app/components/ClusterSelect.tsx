@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+
+import { useCluster } from "../providers";
+import {
+  CLUSTERS,
+  CLUSTER_IDS,
+  ClusterId,
+  DEFAULT_LOCALNET_RPC,
+  isHttpUrl,
+} from "../lib/cluster";
+
+type Props = {
+  disabled?: boolean;
+};
+
+function dotClass(cluster: ClusterId) {
+  if (cluster === "mainnet-beta") return "bg-emerald-400/90";
+  if (cluster === "devnet") return "bg-amber-400/90";
+  return "bg-sky-400/90";
+}
+
+/**
+ * Header chip to switch between mainnet, devnet and a localnet / custom RPC.
+ */
+export default function ClusterSelect({ disabled }: Props) {
+  const { cluster, customRpc, setCluster, setCustomRpc } = useCluster();
+  const [rpcDraft, setRpcDraft] = useState<string | null>(null);
+
+  const rpcValue = rpcDraft ?? customRpc;
+  // Empty means the default localnet RPC; anything else must be an http(s) URL
+  const rpcInvalid = rpcDraft !== null && !!rpcDraft.trim() && !isHttpUrl(rpcDraft);
+
+  return (
+    <div className="flex items-center gap-2">
+      <label className="inline-flex items-center gap-2 rounded-full uz-chip">
+        <span className={`inline-block h-2 w-2 rounded-full ${dotClass(cluster)}`} />
+        <select
+          value={cluster}
+          onChange={(e) => setCluster(e.target.value as ClusterId)}
+          disabled={disabled}
+          className="bg-transparent text-xs text-white outline-none"
+          aria-label="Cluster"
+        >
+          {CLUSTER_IDS.map((id) => (
+            <option key={id} value={id} className="bg-black">
+              {CLUSTERS[id].label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {cluster === "localnet" ? (
+        <input
+          value={rpcValue}
+          onChange={(e) => setRpcDraft(e.target.value)}
+          onBlur={() => {
+            if (rpcDraft === null || rpcInvalid) return;
+            setCustomRpc(rpcDraft);
+            setRpcDraft(null);
+          }}
+          placeholder={DEFAULT_LOCALNET_RPC}
+          className={["uz-input w-44 text-xs", rpcInvalid ? "border-red-400/60" : ""].join(" ")}
+          title={rpcInvalid ? "Use a full URL, e.g. http://127.0.0.1:8899" : undefined}
+          aria-invalid={rpcInvalid}
+          disabled={disabled}
+          aria-label="Custom RPC URL"
+          spellCheck={false}
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,523 @@
+"use client";
+
+import { useState } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+
+import { useCluster } from "../providers";
+import {
+  Invoice,
+  InvoiceLineItem,
+  InvoiceReceipt,
+  deleteInvoice,
+  findInvoicePayment,
+  invoiceShareUrl,
+  invoiceTotals,
+  loadInvoices,
+  newInvoiceReference,
+  nextInvoiceNumber,
+  upsertInvoice,
+  validateLineItem,
+} from "../lib/invoices";
+import { DetectedPayment, findPaymentByReference } from "../lib/paymentWatch";
+import { withRpc } from "../lib/rpc";
+import { toDateKey } from "../lib/schedules";
+import { TokenInfo, TokenSymbol, formatTokenAmount } from "../lib/tokens";
+import { isValidSolanaAddress } from "../lib/transfer";
+
+type Props = {
+  /** Tokens on the active cluster; the first is the default */
+  tokens: readonly TokenInfo[];
+  contacts: { id: string; name: string; address: string }[];
+  /** Receipts for the active cluster; invoices are matched against these */
+  receipts: InvoiceReceipt[];
+  origin: string;
+  /** An invoice payment was found on-chain by reference; the page writes the receipt */
+  onPaymentFound: (payment: DetectedPayment, reference: string) => void;
+  onClose: () => void;
+};
+
+const TAX_RE = /^\d+(\.\d{1,3})?$/;
+const EMPTY_LINE: InvoiceLineItem = { description: "", quantity: "1", unitPriceUi: "" };
+const DEFAULT_DUE_DAYS = 14;
+
+function newInvoiceId() {
+  return `inv_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+}
+
+function defaultDueDate() {
+  const d = new Date();
+  d.setDate(d.getDate() + DEFAULT_DUE_DAYS);
+  return toDateKey(d);
+}
+
+function statusClasses(status: string) {
+  if (status === "Paid") return "border-emerald-400/30 bg-emerald-400/10 text-emerald-200";
+  if (status === "Overdue") return "border-red-400/30 bg-red-400/10 text-red-200";
+  if (status === "Sent") return "border-amber-300/30 bg-amber-300/10 text-amber-100";
+  return "border-white/10 bg-white/5 text-zinc-300";
+}
+
+/**
+ * Create invoices (line items, tax, due date), share them as /invoice/[id] links
+ * and follow them from draft to sent to paid.
+ */
+export default function Invoices({
+  tokens,
+  contacts,
+  receipts,
+  origin,
+  onPaymentFound,
+  onClose,
+}: Props) {
+  const { publicKey } = useWallet();
+  const { cluster, rpc } = useCluster();
+  const payee = publicKey?.toBase58() ?? "";
+
+  const [invoices, setInvoices] = useState<Invoice[]>(() => loadInvoices(cluster, payee));
+
+  const [editing, setEditing] = useState(invoices.length === 0);
+  const [payeeName, setPayeeName] = useState(() => invoices[0]?.payeeName ?? "");
+  const [payerName, setPayerName] = useState("");
+  const [payerAddress, setPayerAddress] = useState("");
+  const [symbol, setSymbol] = useState<TokenSymbol>(tokens[0].symbol);
+  const [lines, setLines] = useState<InvoiceLineItem[]>([EMPTY_LINE]);
+  const [taxRate, setTaxRate] = useState("0");
+  const [dueDate, setDueDate] = useState(defaultDueDate);
+  const [notes, setNotes] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [checking, setChecking] = useState<string | null>(null);
+  const [checkError, setCheckError] = useState<string | null>(null);
+
+  const token = tokens.find((t) => t.symbol === symbol) ?? tokens[0];
+  const draftTotals = invoiceTotals(
+    { lineItems: lines, taxRatePct: TAX_RE.test(taxRate) ? taxRate : "0" },
+    token
+  );
+  const today = toDateKey(new Date());
+
+  const tokenFor = (inv: Invoice) => tokens.find((t) => t.symbol === inv.tokenSymbol) ?? null;
+
+  function displayStatus(inv: Invoice, t: TokenInfo | null) {
+    if (inv.status === "paid" || (t && findInvoicePayment(inv, receipts, t))) return "Paid";
+    if (inv.status === "sent" && inv.dueDate && inv.dueDate < today) return "Overdue";
+    return inv.status === "sent" ? "Sent" : "Draft";
+  }
+
+  function refresh() {
+    setInvoices(loadInvoices(cluster, payee));
+  }
+
+  function patchLine(i: number, patch: Partial<InvoiceLineItem>) {
+    setLines((prev) => prev.map((l, j) => (j === i ? { ...l, ...patch } : l)));
+  }
+
+  function resetForm() {
+    setPayerName("");
+    setPayerAddress("");
+    setLines([EMPTY_LINE]);
+    setTaxRate("0");
+    setDueDate(defaultDueDate());
+    setNotes("");
+    setFormError(null);
+  }
+
+  async function copyLink(inv: Invoice) {
+    try {
+      await navigator.clipboard.writeText(invoiceShareUrl(inv, origin));
+      setCopiedId(inv.id);
+      window.setTimeout(() => setCopiedId(null), 1200);
+    } catch {
+      return;
+    }
+    // Sharing the link is what "sends" it
+    if (inv.status === "draft") {
+      upsertInvoice({ ...inv, status: "sent" });
+      refresh();
+    }
+  }
+
+  async function onSave(share: boolean) {
+    setFormError(null);
+    if (!payee) return setFormError("Connect a wallet first.");
+
+    const items = lines
+      .map((l) => ({
+        description: l.description.trim(),
+        quantity: l.quantity.trim(),
+        unitPriceUi: l.unitPriceUi.trim(),
+      }))
+      .filter((l) => l.description || l.unitPriceUi);
+    if (items.length === 0) return setFormError("Add at least one line item.");
+    for (const [i, l] of items.entries()) {
+      const problem = validateLineItem(l, token);
+      if (problem) return setFormError(`Line ${i + 1}: ${problem}`);
+    }
+    if (!TAX_RE.test(taxRate.trim())) {
+      return setFormError("Tax must be a percentage (max 3 decimals).");
+    }
+    if (payerAddress.trim() && !isValidSolanaAddress(payerAddress.trim())) {
+      return setFormError("Payer address is not a valid Solana address.");
+    }
+    if (!dueDate) return setFormError("Pick a due date.");
+
+    const invoice: Invoice = {
+      id: newInvoiceId(),
+      number: nextInvoiceNumber(cluster, payee),
+      createdAt: Date.now(),
+      cluster,
+      payee,
+      payeeName: payeeName.trim(),
+      payerName: payerName.trim(),
+      payerAddress: payerAddress.trim(),
+      tokenSymbol: token.symbol,
+      lineItems: items,
+      taxRatePct: taxRate.trim(),
+      dueDate,
+      notes: notes.trim(),
+      reference: newInvoiceReference(),
+      status: "draft",
+      paidSig: null,
+      paidAt: null,
+    };
+
+    if (Number(invoiceTotals(invoice, token).totalUi) <= 0) {
+      return setFormError("Invoice total must be greater than 0.");
+    }
+
+    upsertInvoice(invoice);
+    refresh();
+    resetForm();
+    setEditing(false);
+    if (share) await copyLink(invoice);
+  }
+
+  // Receipts only know payments the app has seen; look the reference up on-chain
+  async function checkOnChain(inv: Invoice) {
+    const t = tokenFor(inv);
+    if (!publicKey || !t) return;
+
+    setChecking(inv.id);
+    setCheckError(null);
+    try {
+      const found = await withRpc(rpc, (c) =>
+        findPaymentByReference(c, {
+          reference: new PublicKey(inv.reference),
+          recipient: publicKey,
+          amountUi: invoiceTotals(inv, t).totalUi,
+          token: t,
+        })
+      );
+      if (found) onPaymentFound(found, inv.reference);
+      else setCheckError(`No payment found for ${inv.number} yet.`);
+    } catch (e) {
+      setCheckError(e instanceof Error ? e.message : "Lookup failed");
+    } finally {
+      setChecking(null);
+    }
+  }
+
+  function onDelete(id: string) {
+    deleteInvoice(id);
+    refresh();
+  }
+
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-modal="true">
+      <button
+        type="button"
+        className="absolute inset-0 uz-preview__backdrop"
+        onClick={onClose}
+        aria-label="Close invoices"
+      />
+
+      <div className="absolute inset-0 flex items-end sm:items-center justify-center p-0 sm:p-6">
+        <div className="w-full sm:max-w-2xl">
+          <div className="uz-preview__ring">
+            <div className="uz-preview__surface rounded-t-3xl sm:rounded-2xl overflow-hidden max-h-[90vh] flex flex-col">
+              <div className="uz-preview__header px-5 py-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-white">Invoices</div>
+                  <div className="mt-0.5 text-xs text-white/70">
+                    Itemized invoices with a pay link, tracked until paid
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setEditing((v) => !v)}
+                    className="uz-preview__secondary rounded-lg px-3 py-2 text-xs"
+                  >
+                    {editing ? "Cancel" : "+ New"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="uz-preview__secondary rounded-lg px-3 py-2 text-xs"
+                  >
+                    Close
+                  </button>
+                </div>
+              </div>
+
+              <div className="px-5 py-5 overflow-y-auto space-y-4">
+                {editing ? (
+                  <div className="rounded-2xl px-4 py-3 uz-preview__panel space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div>
+                        <label className="text-xs text-white/70">Your name / business</label>
+                        <input
+                          value={payeeName}
+                          onChange={(e) => setPayeeName(e.target.value)}
+                          placeholder="Acme Studio"
+                          className="uz-input w-full mt-1"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-white/70">Bill to</label>
+                        <input
+                          value={payerName}
+                          onChange={(e) => setPayerName(e.target.value)}
+                          placeholder="Client name"
+                          className="uz-input w-full mt-1"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="text-xs text-white/70">Payer wallet (optional)</label>
+                      <div className="mt-1 flex gap-2">
+                        <input
+                          value={payerAddress}
+                          onChange={(e) => setPayerAddress(e.target.value)}
+                          placeholder="Matches payments without the reference"
+                          className="uz-input flex-1 font-mono text-xs"
+                          spellCheck={false}
+                        />
+                        {contacts.length > 0 ? (
+                          <select
+                            value=""
+                            onChange={(e) => {
+                              const c = contacts.find((x) => x.id === e.target.value);
+                              if (!c) return;
+                              setPayerAddress(c.address);
+                              if (!payerName.trim()) setPayerName(c.name);
+                            }}
+                            className="uz-input w-36"
+                          >
+                            <option value="">Contact…</option>
+                            {contacts.map((c) => (
+                              <option key={c.id} value={c.id}>
+                                {c.name}
+                              </option>
+                            ))}
+                          </select>
+                        ) : null}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="text-xs text-white/70">Line items</div>
+                      {lines.map((l, i) => (
+                        <div key={i} className="grid grid-cols-12 gap-2">
+                          <input
+                            value={l.description}
+                            onChange={(e) => patchLine(i, { description: e.target.value })}
+                            placeholder="Description"
+                            className="uz-input col-span-6"
+                          />
+                          <input
+                            value={l.quantity}
+                            onChange={(e) => patchLine(i, { quantity: e.target.value })}
+                            placeholder="Qty"
+                            inputMode="decimal"
+                            className="uz-input col-span-2"
+                          />
+                          <input
+                            value={l.unitPriceUi}
+                            onChange={(e) => patchLine(i, { unitPriceUi: e.target.value })}
+                            placeholder="Price"
+                            inputMode="decimal"
+                            className="uz-input col-span-3"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setLines((prev) => prev.filter((_, j) => j !== i))}
+                            disabled={lines.length === 1}
+                            className="col-span-1 text-white/50 hover:text-white disabled:opacity-30"
+                            aria-label="Remove line"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => setLines((prev) => [...prev, EMPTY_LINE])}
+                        className="uz-btn-secondary"
+                      >
+                        + Line
+                      </button>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <label className="text-xs text-white/70">Token</label>
+                        <select
+                          value={symbol}
+                          onChange={(e) => setSymbol(e.target.value as TokenSymbol)}
+                          className="uz-input w-full mt-1"
+                        >
+                          {tokens.map((t) => (
+                            <option key={t.symbol} value={t.symbol}>
+                              {t.symbol}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="text-xs text-white/70">Tax %</label>
+                        <input
+                          value={taxRate}
+                          onChange={(e) => setTaxRate(e.target.value)}
+                          inputMode="decimal"
+                          className="uz-input w-full mt-1"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-white/70">Due</label>
+                        <input
+                          type="date"
+                          value={dueDate}
+                          onChange={(e) => setDueDate(e.target.value)}
+                          className="uz-input w-full mt-1"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="text-xs text-white/70">Notes (optional)</label>
+                      <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        placeholder="Payment terms, thank-you note…"
+                        className="uz-input w-full mt-1 h-16"
+                      />
+                    </div>
+
+                    <div className="text-xs text-white/70 flex justify-between">
+                      <span>
+                        Subtotal {formatTokenAmount(Number(draftTotals.subtotalUi), token)} • Tax{" "}
+                        {formatTokenAmount(Number(draftTotals.taxUi), token)}
+                      </span>
+                      <span className="font-semibold text-white">
+                        {formatTokenAmount(Number(draftTotals.totalUi), token)} {token.symbol}
+                      </span>
+                    </div>
+
+                    {formError ? (
+                      <div className="rounded-xl border border-amber-300/30 bg-amber-300/10 px-3 py-2 text-[11px] text-amber-100">
+                        {formError}
+                      </div>
+                    ) : null}
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <button
+                        type="button"
+                        onClick={() => onSave(false)}
+                        className="uz-preview__secondary rounded-xl px-4 py-3 text-sm font-semibold"
+                      >
+                        Save Draft
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onSave(true)}
+                        className="uz-preview__primary rounded-xl px-4 py-3 text-sm font-semibold"
+                      >
+                        Save & Copy Link
+                      </button>
+                    </div>
+                  </div>
+                ) : null}
+
+                {invoices.length === 0 && !editing ? (
+                  <div className="text-xs text-white/60">No invoices yet.</div>
+                ) : null}
+
+                {invoices.map((inv) => {
+                  const t = tokenFor(inv);
+                  const status = displayStatus(inv, t);
+                  const total = t ? invoiceTotals(inv, t).totalUi : null;
+
+                  return (
+                    <div key={inv.id} className="rounded-2xl px-4 py-3 uz-preview__panel">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="text-sm font-semibold text-white truncate">
+                            {inv.number}
+                            {inv.payerName ? (
+                              <span className="text-white/60 font-normal"> • {inv.payerName}</span>
+                            ) : null}
+                          </div>
+                          <div className="text-[11px] text-white/60">
+                            Due {inv.dueDate || "—"}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0">
+                          <span className="text-sm font-semibold text-white">
+                            {t && total ? formatTokenAmount(Number(total), t) : "—"}{" "}
+                            {inv.tokenSymbol}
+                          </span>
+                          <span
+                            className={[
+                              "text-[11px] px-2 py-0.5 rounded-full border",
+                              statusClasses(status),
+                            ].join(" ")}
+                          >
+                            {status}
+                          </span>
+                        </div>
+                      </div>
+
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        <button type="button" onClick={() => copyLink(inv)} className="uz-btn-secondary">
+                          {copiedId === inv.id ? "Copied ✓" : "Copy Link"}
+                        </button>
+                        <a
+                          href={invoiceShareUrl(inv, origin)}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="uz-btn-secondary"
+                        >
+                          Open
+                        </a>
+                        {status !== "Paid" ? (
+                          <button
+                            type="button"
+                            onClick={() => checkOnChain(inv)}
+                            disabled={checking !== null || !t}
+                            className="uz-btn-secondary disabled:opacity-40 disabled:cursor-not-allowed"
+                          >
+                            {checking === inv.id ? "Checking…" : "Check On-chain"}
+                          </button>
+                        ) : null}
+                        <button type="button" onClick={() => onDelete(inv.id)} className="uz-btn-secondary">
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {checkError ? <div className="text-[11px] text-red-200">{checkError}</div> : null}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
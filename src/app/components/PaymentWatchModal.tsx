@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+
+import { DetectedPayment, watchForPayment } from "../lib/paymentWatch";
+import { DEFAULT_TOKEN, TokenInfo, formatTokenAmount } from "../lib/tokens";
+
+type Props = {
+  recipient: PublicKey;
+  reference: PublicKey;
+  amountUi?: string;
+  token?: TokenInfo;
+  note?: string;
+  qrDataUrl?: string;
+  onPaid: (payment: DetectedPayment) => void;
+  onClose: () => void;
+};
+
+function prettyAmount(token: TokenInfo, amountUi?: string) {
+  const n = Number(amountUi);
+  if (amountUi && Number.isFinite(n) && n > 0) return formatTokenAmount(n, token);
+  return "Any amount";
+}
+
+/**
+ * Point-of-sale checkout: shows the request QR and waits for a token
+ * transfer carrying the request's Solana Pay reference key.
+ */
+export default function PaymentWatchModal({
+  recipient,
+  reference,
+  amountUi,
+  token = DEFAULT_TOKEN,
+  note,
+  qrDataUrl,
+  onPaid,
+  onClose,
+}: Props) {
+  const { connection } = useConnection();
+  const [paid, setPaid] = useState<DetectedPayment | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const stop = watchForPayment({
+      connection,
+      reference,
+      recipient,
+      amountUi,
+      token,
+      onPaid: (p) => {
+        setPaid(p);
+        onPaid(p);
+      },
+      onError: (e) => {
+        console.error("Payment watch failed:", e);
+        setLastError("Network hiccup — still watching…");
+      },
+    });
+
+    return stop;
+    // onPaid is intentionally not a dependency: restarting the watch would lose state
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [connection, reference, recipient, amountUi, token]);
+
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-modal="true">
+      <button
+        type="button"
+        className="absolute inset-0 uz-preview__backdrop"
+        onClick={onClose}
+        aria-label="Close checkout"
+      />
+
+      <div className="absolute inset-0 flex items-end sm:items-center justify-center p-0 sm:p-6">
+        <div className="w-full sm:max-w-md">
+          <div className="uz-preview__ring">
+            <div className="uz-preview__surface rounded-t-3xl sm:rounded-2xl overflow-hidden">
+              <div className="uz-preview__header px-5 py-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <div className="text-sm font-semibold text-white">
+                      {paid ? "Paid" : "Waiting for payment"}
+                    </div>
+                    <span
+                      className={[
+                        "text-[11px] px-2 py-0.5 rounded-full border",
+                        paid
+                          ? "border-emerald-400/30 bg-emerald-400/10 text-emerald-200"
+                          : "border-white/15 bg-white/5 text-zinc-200",
+                      ].join(" ")}
+                    >
+                      {paid ? "Confirmed" : "Live"}
+                    </span>
+                  </div>
+                  <div className="mt-0.5 text-xs text-white/70">
+                    {paid
+                      ? `${token.symbol} received on-chain`
+                      : "Ask the payer to scan with UTILIZAP or any Solana Pay wallet"}
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="uz-preview__secondary rounded-lg px-3 py-2 text-xs"
+                >
+                  {paid ? "Done" : "Cancel"}
+                </button>
+              </div>
+
+              <div className="px-5 py-5">
+                <div className="text-center">
+                  <div className="text-[11px] uppercase tracking-wider text-white/70">
+                    {paid ? "Received" : "Amount"}
+                  </div>
+                  <div className="mt-2 text-4xl font-extrabold tracking-tight text-white uz-preview__amount">
+                    {prettyAmount(token, paid ? paid.amountUi : amountUi)}
+                    <span className="text-white/70 text-base font-semibold ml-2">
+                      {token.symbol}
+                    </span>
+                  </div>
+                  {note ? (
+                    <div className="mt-2 text-xs text-white/70">{note}</div>
+                  ) : null}
+                  {paid?.overpaidUi ? (
+                    <div className="mt-3 rounded-xl border border-amber-300/30 bg-amber-300/10 px-3 py-2 text-xs text-amber-100">
+                      Overpaid by {prettyAmount(token, paid.overpaidUi)} (requested{" "}
+                      {prettyAmount(token, amountUi)})
+                    </div>
+                  ) : null}
+                </div>
+
+                {paid ? (
+                  <div className="mt-5 rounded-2xl overflow-hidden uz-preview__panel">
+                    <div className="px-4 py-3 border-b border-white/10">
+                      <div className="text-[11px] uppercase tracking-wider text-white/70">
+                        From
+                      </div>
+                      <div className="mt-1 text-sm text-white font-mono break-all">
+                        {paid.from || "—"}
+                      </div>
+                    </div>
+                    <div className="px-4 py-3">
+                      <div className="text-[11px] uppercase tracking-wider text-white/70">
+                        Tx Signature
+                      </div>
+                      <div className="mt-1 text-sm text-white font-mono break-all">
+                        {paid.signature}
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    {qrDataUrl ? (
+                      <div className="mt-5 flex justify-center">
+                        <div className="rounded-xl bg-black/40 p-3 border border-white/10">
+                          <img
+                            src={qrDataUrl}
+                            alt="Payment request QR"
+                            className="h-[220px] w-[220px]"
+                          />
+                        </div>
+                      </div>
+                    ) : null}
+
+                    <div className="mt-4 flex items-center justify-center gap-2 text-xs text-white/70">
+                      <span className="inline-block h-2 w-2 rounded-full bg-emerald-400/90 animate-pulse" />
+                      Watching reference {reference.toBase58().slice(0, 6)}…
+                    </div>
+
+                    {lastError ? (
+                      <div className="mt-2 text-center text-[11px] text-amber-100">
+                        {lastError}
+                      </div>
+                    ) : null}
+                  </>
+                )}
+
+                <div className="mt-4 text-center text-[11px] text-white/60">
+                  UTILIZAP • Checkout
+                </div>
+              </div>
+
+              <div className="sm:hidden pb-3">
+                <div className="mx-auto h-1.5 w-12 rounded-full bg-white/15" />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
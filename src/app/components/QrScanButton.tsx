@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import { isSolanaPayUrl, parseSolanaPayUrl } from "../lib/solanaPay";
 
 type Props = {
   onScan: (value: string) => void;
@@ -26,6 +27,7 @@ function isLikelySolanaAddress(v: string) {
 /**
  * Accept:
  *  - plain Solana address
+ *  - Solana Pay transfer request (solana:<address>?amount=...&reference=...)
  *  - UTILIZAP request URL / deep link containing ?to=...
  */
 function parseQrValue(raw: string): { kind: "solana" | "utilizap" | "unknown"; recipient?: string } {
@@ -35,7 +37,16 @@ function parseQrValue(raw: string): { kind: "solana" | "utilizap" | "unknown"; r
   // 1) Plain Solana address
   if (isLikelySolanaAddress(value)) return { kind: "solana", recipient: value };
 
-  // 2) URL / deep link with ?to=
+  // 2) Solana Pay transfer request
+  if (isSolanaPayUrl(value)) {
+    try {
+      return { kind: "solana", recipient: parseSolanaPayUrl(value).recipient.toBase58() };
+    } catch {
+      return { kind: "unknown" };
+    }
+  }
+
+  // 3) URL / deep link with ?to=
   try {
     const normalized =
       /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\//.test(value) || value.startsWith("utilizap://")
@@ -49,10 +60,6 @@ function parseQrValue(raw: string): { kind: "solana" | "utilizap" | "unknown"; r
     // ignore
   }
 
-  // 3) solana:<address>
-  const maybe = value.replace(/^solana:/i, "").trim();
-  if (isLikelySolanaAddress(maybe)) return { kind: "solana", recipient: maybe };
-
   return { kind: "unknown" };
 }
 
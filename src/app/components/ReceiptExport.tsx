@@ -0,0 +1,266 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import {
+  ExportReceipt,
+  RECEIPT_EXPORT_FORMATS,
+  ReceiptExportFormat,
+  exportReceipts,
+  parseReceiptsExport,
+  receiptTotals,
+  receiptsInRange,
+} from "../lib/receiptExport";
+import { toDateKey } from "../lib/schedules";
+
+type Props = {
+  /** Receipts after the panel's tab, status filter and search */
+  receipts: ExportReceipt[];
+  cluster: string;
+  /** Human summary of the active filters, shown so the export isn't a surprise */
+  filterSummary: string;
+  /** Validate and merge raw receipts from a JSON export; returns how many were added */
+  onImport: (raw: unknown[]) => number;
+  onClose: () => void;
+};
+
+type RangePreset = "all" | "month" | "lastMonth" | "year" | "custom";
+
+function presetRange(preset: RangePreset): { from: string; to: string } {
+  const now = new Date();
+  if (preset === "month") {
+    return { from: toDateKey(new Date(now.getFullYear(), now.getMonth(), 1)), to: "" };
+  }
+  if (preset === "lastMonth") {
+    return {
+      from: toDateKey(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+      to: toDateKey(new Date(now.getFullYear(), now.getMonth(), 0)),
+    };
+  }
+  if (preset === "year") return { from: toDateKey(new Date(now.getFullYear(), 0, 1)), to: "" };
+  return { from: "", to: "" };
+}
+
+function fmtFiat(n: number, currency: string) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(n);
+}
+
+/**
+ * Download the filtered receipts (CSV, JSON, QuickBooks/Xero bank CSV) for a
+ * date range, and restore receipts from a JSON export.
+ */
+export default function ReceiptExport({
+  receipts,
+  cluster,
+  filterSummary,
+  onImport,
+  onClose,
+}: Props) {
+  const [preset, setPreset] = useState<RangePreset>("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [format, setFormat] = useState<ReceiptExportFormat>("csv");
+  const [importMsg, setImportMsg] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const rows = useMemo(() => receiptsInRange(receipts, from, to), [receipts, from, to]);
+  const totals = useMemo(() => receiptTotals(rows), [rows]);
+  const formatInfo = RECEIPT_EXPORT_FORMATS.find((f) => f.id === format)!;
+  const exportCount = formatInfo.confirmedOnly
+    ? rows.filter((r) => r.status === "confirmed").length
+    : rows.length;
+
+  function choosePreset(p: RangePreset) {
+    setPreset(p);
+    if (p === "custom") return;
+    const r = presetRange(p);
+    setFrom(r.from);
+    setTo(r.to);
+  }
+
+  function download() {
+    const file = exportReceipts(rows, format, { cluster });
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mime }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = file.filename;
+    a.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  async function onImportFile(file: File | undefined) {
+    if (!file) return;
+    setImportMsg(null);
+    try {
+      const added = onImport(parseReceiptsExport(await file.text()));
+      setImportMsg({
+        ok: true,
+        text: added > 0 ? `Restored ${added} receipts.` : "Nothing new — all receipts already here.",
+      });
+    } catch (e) {
+      setImportMsg({ ok: false, text: e instanceof Error ? e.message : "Import failed" });
+    }
+  }
+
+  const totalLines = (["received", "sent"] as const).map((dir) => {
+    const entries = Object.entries(totals[dir]);
+    return {
+      dir,
+      text: entries.length
+        ? entries.map(([cur, n]) => fmtFiat(n, cur)).join(" + ")
+        : fmtFiat(0, "USD"),
+    };
+  });
+
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-modal="true">
+      <button
+        type="button"
+        className="absolute inset-0 uz-preview__backdrop"
+        onClick={onClose}
+        aria-label="Close export"
+      />
+
+      <div className="absolute inset-0 flex items-end sm:items-center justify-center p-0 sm:p-6">
+        <div className="w-full sm:max-w-lg">
+          <div className="uz-preview__ring">
+            <div className="uz-preview__surface rounded-t-3xl sm:rounded-2xl overflow-hidden max-h-[90vh] flex flex-col">
+              <div className="uz-preview__header px-5 py-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-white">Export Receipts</div>
+                  <div className="mt-0.5 text-xs text-white/70 truncate">{filterSummary}</div>
+                </div>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="uz-preview__secondary rounded-lg px-3 py-2 text-xs"
+                >
+                  Close
+                </button>
+              </div>
+
+              <div className="px-5 py-5 overflow-y-auto space-y-4">
+                <div className="rounded-2xl px-4 py-3 uz-preview__panel space-y-3">
+                  <div className="text-xs text-white/70">Date range</div>
+                  <div className="flex flex-wrap gap-2">
+                    {(
+                      [
+                        ["all", "All time"],
+                        ["month", "This month"],
+                        ["lastMonth", "Last month"],
+                        ["year", "This year"],
+                        ["custom", "Custom"],
+                      ] as const
+                    ).map(([id, label]) => (
+                      <button
+                        key={id}
+                        type="button"
+                        onClick={() => choosePreset(id)}
+                        className={[
+                          "rounded-lg px-3 py-1.5 text-xs border transition",
+                          preset === id
+                            ? "bg-white/10 text-white border-white/15"
+                            : "bg-white/5 border-white/10 hover:bg-white/10 text-white",
+                        ].join(" ")}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <input
+                      type="date"
+                      value={from}
+                      onChange={(e) => {
+                        setFrom(e.target.value);
+                        setPreset("custom");
+                      }}
+                      className="uz-input w-full"
+                      aria-label="From date"
+                    />
+                    <input
+                      type="date"
+                      value={to}
+                      onChange={(e) => {
+                        setTo(e.target.value);
+                        setPreset("custom");
+                      }}
+                      className="uz-input w-full"
+                      aria-label="To date"
+                    />
+                  </div>
+                </div>
+
+                <div className="rounded-2xl px-4 py-3 uz-preview__panel space-y-1 text-xs">
+                  <div className="flex justify-between text-white/70">
+                    <span>Receipts in range</span>
+                    <span className="text-white">{rows.length}</span>
+                  </div>
+                  {totalLines.map((t) => (
+                    <div key={t.dir} className="flex justify-between text-white/70">
+                      <span>{t.dir === "received" ? "Received (confirmed)" : "Sent (confirmed)"}</span>
+                      <span className="font-semibold text-white">{t.text}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="rounded-2xl px-4 py-3 uz-preview__panel space-y-2">
+                  <label className="text-xs text-white/70">Format</label>
+                  <select
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as ReceiptExportFormat)}
+                    className="uz-input w-full"
+                  >
+                    {RECEIPT_EXPORT_FORMATS.map((f) => (
+                      <option key={f.id} value={f.id}>
+                        {f.label}
+                      </option>
+                    ))}
+                  </select>
+                  {formatInfo.confirmedOnly ? (
+                    <div className="text-[11px] text-white/60">
+                      Bank-feed layouts include confirmed payments only (sent amounts negative).
+                    </div>
+                  ) : null}
+                  <button
+                    type="button"
+                    onClick={download}
+                    disabled={exportCount === 0}
+                    className="w-full uz-preview__primary rounded-xl px-4 py-3 text-sm font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Download {exportCount} {exportCount === 1 ? "receipt" : "receipts"}
+                  </button>
+                </div>
+
+                <div className="rounded-2xl px-4 py-3 uz-preview__panel space-y-2">
+                  <div className="text-xs text-white/70">Restore from a JSON export</div>
+                  <label className="uz-btn-secondary cursor-pointer inline-block">
+                    Import JSON
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        onImportFile(e.target.files?.[0]);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                  {importMsg ? (
+                    <div
+                      className={[
+                        "text-[11px]",
+                        importMsg.ok ? "text-emerald-200" : "text-red-200",
+                      ].join(" ")}
+                    >
+                      {importMsg.text}
+                    </div>
+                  ) : null}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
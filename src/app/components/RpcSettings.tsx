@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+
+import { useCluster } from "../providers";
+import { parseRpcUrlList } from "../lib/rpc";
+
+function hostOf(url: string) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function fmtTime(ts: number | null) {
+  if (!ts) return "never";
+  try {
+    return new Date(ts).toLocaleTimeString();
+  } catch {
+    return "—";
+  }
+}
+
+/**
+ * In-app RPC endpoint list for the active cluster, with live health.
+ */
+export default function RpcSettings() {
+  const { cluster, config, rpc, rpcState, rpcUrls, setRpcUrls } = useCluster();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const draftValue = draft ?? rpcUrls.join("\n");
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/40 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold">RPC Endpoints</div>
+          <div className="mt-0.5 text-xs text-white/70">
+            Failover order for {config.label}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => setOpen((v) => !v)}
+          className="uz-btn-secondary"
+        >
+          {open ? "Hide" : "Manage"}
+        </button>
+      </div>
+
+      {open ? (
+        <div className="mt-3 space-y-3">
+          <div className="rounded-xl uz-subpanel overflow-hidden">
+            {rpcState.endpoints.map((h) => {
+              const active = h.url === rpcState.activeUrl;
+              const failing =
+                h.lastFailureAt !== null && (h.lastOkAt ?? 0) < h.lastFailureAt;
+              return (
+                <div
+                  key={h.url}
+                  className="px-3 py-2 border-b border-white/10 last:border-b-0 text-[11px]"
+                >
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={[
+                        "inline-block h-2 w-2 rounded-full",
+                        failing ? "bg-red-400/90" : "bg-emerald-400/90",
+                      ].join(" ")}
+                    />
+                    <span className="font-mono text-white truncate">{hostOf(h.url)}</span>
+                    {active ? (
+                      <span className="ml-auto px-2 py-0.5 rounded-full border border-white/10 bg-white/10 text-white/90">
+                        Active
+                      </span>
+                    ) : null}
+                  </div>
+                  <div className="mt-1 text-white/60">
+                    Last OK {fmtTime(h.lastOkAt)} • Last failure {fmtTime(h.lastFailureAt)}
+                  </div>
+                  {failing && h.lastError ? (
+                    <div className="mt-1 text-red-200 truncate" title={h.lastError}>
+                      {h.lastError}
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+
+          {cluster === "localnet" ? (
+            <div className="text-[11px] text-white/60">
+              Localnet uses the custom RPC URL from the cluster selector.
+            </div>
+          ) : (
+            <>
+              <label className="text-xs text-white/70">
+                Your endpoints (one per line, highest priority first)
+              </label>
+              <textarea
+                value={draftValue}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="https://mainnet.helius-rpc.com/?api-key=…"
+                className="uz-input w-full mt-2 h-24 font-mono text-xs"
+                spellCheck={false}
+              />
+              <div className="text-[11px] text-white/60">
+                Env endpoints (NEXT_PUBLIC_RPC_URLS_*) and the public RPC are tried after these.
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center gap-2">
+            {cluster !== "localnet" ? (
+              <button
+                type="button"
+                onClick={() => {
+                  setRpcUrls(parseRpcUrlList(draftValue));
+                  setDraft(null);
+                }}
+                disabled={draft === null}
+                className="uz-btn-secondary disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            ) : null}
+            <button
+              type="button"
+              onClick={async () => {
+                setChecking(true);
+                try {
+                  await rpc.checkHealth();
+                } finally {
+                  setChecking(false);
+                }
+              }}
+              className="uz-btn-secondary"
+            >
+              {checking ? "Checking…" : "Check Health"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
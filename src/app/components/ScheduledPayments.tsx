@@ -0,0 +1,371 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  OccurrenceStatus,
+  SCHEDULE_CADENCES,
+  ScheduleCadence,
+  ScheduleReceipt,
+  ScheduledPayment,
+  deleteSchedule,
+  formatDueDate,
+  scheduleOccurrences,
+  skipOccurrence,
+  toDateKey,
+  upsertSchedule,
+} from "../lib/schedules";
+import { TokenInfo, TokenSymbol, formatTokenAmount } from "../lib/tokens";
+import { isValidSolanaAddress } from "../lib/transfer";
+
+type Props = {
+  /** Tokens on the active cluster; the first is the default */
+  tokens: readonly TokenInfo[];
+  contacts: { id: string; name: string; address: string }[];
+  receipts: ScheduleReceipt[];
+  schedules: ScheduledPayment[];
+  now: number;
+  /** Schedules were added, edited or removed in storage */
+  onChanged: () => void;
+  /** Prefill the send form for one occurrence */
+  onPayNow: (schedule: ScheduledPayment, due: string) => void;
+  onClose: () => void;
+};
+
+const AMOUNT_RE = /^\d+(\.\d+)?$/;
+
+function newScheduleId() {
+  return `sched_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+}
+
+function statusClasses(status: OccurrenceStatus) {
+  if (status === "paid") return "border-emerald-400/30 bg-emerald-400/10 text-emerald-200";
+  if (status === "missed") return "border-red-400/30 bg-red-400/10 text-red-200";
+  if (status === "due") return "border-amber-300/30 bg-amber-300/10 text-amber-100";
+  return "border-white/10 bg-white/5 text-zinc-300";
+}
+
+/**
+ * Recurring payments (rent, subscriptions, payroll). The app can't sign on its
+ * own, so each occurrence is paid by hand via "Pay now" and tracked from receipts.
+ */
+export default function ScheduledPayments({
+  tokens,
+  contacts,
+  receipts,
+  schedules,
+  now,
+  onChanged,
+  onPayNow,
+  onClose,
+}: Props) {
+  const [adding, setAdding] = useState(schedules.length === 0);
+  const [label, setLabel] = useState("");
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const [symbol, setSymbol] = useState<TokenSymbol>(tokens[0].symbol);
+  const [note, setNote] = useState("");
+  const [cadence, setCadence] = useState<ScheduleCadence>("monthly");
+  const [startDate, setStartDate] = useState(() => toDateKey(new Date()));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const nameFor = (address: string) =>
+    contacts.find((c) => c.address === address)?.name ?? null;
+
+  function onSave() {
+    setFormError(null);
+    const to = recipient.trim();
+    const a = amount.trim();
+    const t = tokens.find((x) => x.symbol === symbol) ?? tokens[0];
+
+    if (!isValidSolanaAddress(to)) return setFormError("Enter a valid recipient address.");
+    if (!AMOUNT_RE.test(a) || Number(a) <= 0) return setFormError("Enter a valid amount.");
+    if ((a.split(".")[1] ?? "").length > t.decimals) {
+      return setFormError(`Max ${t.decimals} decimals for ${t.symbol}.`);
+    }
+    if (!startDate) return setFormError("Pick a first due date.");
+
+    upsertSchedule({
+      id: newScheduleId(),
+      label: label.trim() || nameFor(to) || "Payment",
+      recipient: to,
+      amountUi: a,
+      tokenSymbol: t.symbol,
+      note: note.trim().slice(0, 140),
+      cadence,
+      startDate,
+      createdAt: Date.now(),
+      skipped: [],
+    });
+
+    setLabel("");
+    setRecipient("");
+    setAmount("");
+    setNote("");
+    setAdding(false);
+    onChanged();
+  }
+
+  function onSkip(s: ScheduledPayment, due: string) {
+    skipOccurrence(s, due);
+    onChanged();
+  }
+
+  function onDelete(id: string) {
+    deleteSchedule(id);
+    onChanged();
+  }
+
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-modal="true">
+      <button
+        type="button"
+        className="absolute inset-0 uz-preview__backdrop"
+        onClick={onClose}
+        aria-label="Close scheduled payments"
+      />
+
+      <div className="absolute inset-0 flex items-end sm:items-center justify-center p-0 sm:p-6">
+        <div className="w-full sm:max-w-2xl">
+          <div className="uz-preview__ring">
+            <div className="uz-preview__surface rounded-t-3xl sm:rounded-2xl overflow-hidden max-h-[90vh] flex flex-col">
+              <div className="uz-preview__header px-5 py-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-white">Scheduled Payments</div>
+                  <div className="mt-0.5 text-xs text-white/70">
+                    Reminders for repeat payments — you still approve each one
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setAdding((v) => !v)}
+                    className="uz-preview__secondary rounded-lg px-3 py-2 text-xs"
+                  >
+                    {adding ? "Cancel" : "+ New"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="uz-preview__secondary rounded-lg px-3 py-2 text-xs"
+                  >
+                    Close
+                  </button>
+                </div>
+              </div>
+
+              <div className="px-5 py-5 overflow-y-auto space-y-4">
+                {adding ? (
+                  <div className="rounded-2xl px-4 py-3 uz-preview__panel space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div>
+                        <label className="text-xs text-white/70">Name</label>
+                        <input
+                          value={label}
+                          onChange={(e) => setLabel(e.target.value)}
+                          placeholder="Rent"
+                          className="uz-input w-full mt-1"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-white/70">Cadence</label>
+                        <select
+                          value={cadence}
+                          onChange={(e) => setCadence(e.target.value as ScheduleCadence)}
+                          className="uz-input w-full mt-1"
+                        >
+                          {SCHEDULE_CADENCES.map((c) => (
+                            <option key={c.id} value={c.id}>
+                              {c.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="text-xs text-white/70">Recipient</label>
+                      <div className="mt-1 flex gap-2">
+                        <input
+                          value={recipient}
+                          onChange={(e) => setRecipient(e.target.value)}
+                          placeholder="Solana address"
+                          className="uz-input flex-1 font-mono text-xs"
+                          spellCheck={false}
+                        />
+                        {contacts.length > 0 ? (
+                          <select
+                            value=""
+                            onChange={(e) => {
+                              const c = contacts.find((x) => x.id === e.target.value);
+                              if (!c) return;
+                              setRecipient(c.address);
+                              if (!label.trim()) setLabel(c.name);
+                            }}
+                            className="uz-input w-36"
+                          >
+                            <option value="">Contact…</option>
+                            {contacts.map((c) => (
+                              <option key={c.id} value={c.id}>
+                                {c.name}
+                              </option>
+                            ))}
+                          </select>
+                        ) : null}
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                      <div>
+                        <label className="text-xs text-white/70">Amount</label>
+                        <input
+                          value={amount}
+                          onChange={(e) => setAmount(e.target.value)}
+                          placeholder="1200"
+                          inputMode="decimal"
+                          className="uz-input w-full mt-1"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-white/70">Token</label>
+                        <select
+                          value={symbol}
+                          onChange={(e) => setSymbol(e.target.value as TokenSymbol)}
+                          className="uz-input w-full mt-1"
+                        >
+                          {tokens.map((t) => (
+                            <option key={t.symbol} value={t.symbol}>
+                              {t.symbol}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="col-span-2 sm:col-span-1">
+                        <label className="text-xs text-white/70">First due</label>
+                        <input
+                          type="date"
+                          value={startDate}
+                          onChange={(e) => setStartDate(e.target.value)}
+                          className="uz-input w-full mt-1"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="text-xs text-white/70">Note (optional)</label>
+                      <input
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Apartment 4B"
+                        maxLength={140}
+                        className="uz-input w-full mt-1"
+                      />
+                    </div>
+
+                    {formError ? (
+                      <div className="rounded-xl border border-amber-300/30 bg-amber-300/10 px-3 py-2 text-[11px] text-amber-100">
+                        {formError}
+                      </div>
+                    ) : null}
+
+                    <button
+                      type="button"
+                      onClick={onSave}
+                      className="w-full uz-preview__primary rounded-xl px-4 py-3 text-sm font-semibold"
+                    >
+                      Save Schedule
+                    </button>
+                  </div>
+                ) : null}
+
+                {schedules.length === 0 && !adding ? (
+                  <div className="text-xs text-white/60">No scheduled payments yet.</div>
+                ) : null}
+
+                {schedules.map((s) => {
+                  const t = tokens.find((x) => x.symbol === s.tokenSymbol);
+                  const occurrences = scheduleOccurrences(s, receipts, now);
+                  const cadenceLabel =
+                    SCHEDULE_CADENCES.find((c) => c.id === s.cadence)?.label ?? s.cadence;
+
+                  return (
+                    <div key={s.id} className="rounded-2xl overflow-hidden uz-preview__panel">
+                      <div className="px-4 py-3 flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="text-sm font-semibold text-white truncate">{s.label}</div>
+                          <div className="text-[11px] text-white/60 truncate">
+                            {cadenceLabel} • {nameFor(s.recipient) ?? s.recipient}
+                            {s.note ? ` • ${s.note}` : ""}
+                          </div>
+                        </div>
+                        <div className="text-right shrink-0">
+                          <div className="text-sm font-semibold text-white">
+                            {t ? formatTokenAmount(Number(s.amountUi), t) : s.amountUi}{" "}
+                            {s.tokenSymbol}
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => onDelete(s.id)}
+                            className="text-[11px] text-white/50 hover:text-white"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+
+                      {!t ? (
+                        <div className="px-4 pb-3 text-[11px] text-amber-100">
+                          {s.tokenSymbol} isn&apos;t available on this network.
+                        </div>
+                      ) : null}
+
+                      <div className="border-t border-white/10">
+                        {occurrences.map((o) => (
+                          <div
+                            key={o.due}
+                            className="px-4 py-2 border-b border-white/10 last:border-b-0 text-xs flex items-center gap-3"
+                          >
+                            <span
+                              className={[
+                                "text-[11px] px-2 py-0.5 rounded-full border shrink-0",
+                                statusClasses(o.status),
+                              ].join(" ")}
+                            >
+                              {o.status[0].toUpperCase() + o.status.slice(1)}
+                            </span>
+                            <span className="flex-1 text-white/80">{formatDueDate(o.due)}</span>
+
+                            {o.status === "due" || o.status === "missed" || o.status === "upcoming" ? (
+                              <>
+                                <button
+                                  type="button"
+                                  onClick={() => onSkip(s, o.due)}
+                                  className="text-[11px] text-white/50 hover:text-white"
+                                >
+                                  Skip
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => onPayNow(s, o.due)}
+                                  disabled={!t}
+                                  className="uz-btn-secondary disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                  Pay now
+                                </button>
+                              </>
+                            ) : null}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
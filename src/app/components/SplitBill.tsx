@@ -0,0 +1,495 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import QRCode from "qrcode";
+
+import { useCluster } from "../providers";
+import { DetectedPayment, findPaymentByReference } from "../lib/paymentWatch";
+import { withRpc } from "../lib/rpc";
+import {
+  Split,
+  SplitReceipt,
+  SplitShare,
+  createSplit,
+  deleteSplit,
+  loadSplits,
+  matchSplitShares,
+  splitAmounts,
+  splitShareLinks,
+  upsertSplit,
+} from "../lib/splits";
+import { TokenInfo, formatTokenAmount, getTokenBySymbol } from "../lib/tokens";
+
+type Props = {
+  token: TokenInfo;
+  contacts: { id: string; name: string; address: string }[];
+  /** Receipts for the active cluster; shares are matched against these */
+  receipts: SplitReceipt[];
+  origin: string;
+  /** A share's payment was found on-chain by reference; the page writes the receipt */
+  onPaymentFound: (payment: DetectedPayment, reference: string) => void;
+  onClose: () => void;
+};
+
+const AMOUNT_RE = /^\d+(\.\d+)?$/;
+
+function newSplitId() {
+  return `split_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+}
+
+/**
+ * Split a bill: pick contacts, send each a request link/QR for their share,
+ * then track which shares have been paid.
+ */
+export default function SplitBill({
+  token,
+  contacts,
+  receipts,
+  origin,
+  onPaymentFound,
+  onClose,
+}: Props) {
+  const { publicKey } = useWallet();
+  const { cluster, rpc } = useCluster();
+  const payee = publicKey?.toBase58() ?? "";
+
+  const [tab, setTab] = useState<"new" | "list">("new");
+  const [splits, setSplits] = useState<Split[]>(() => loadSplits(cluster, payee));
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const [total, setTotal] = useState("");
+  const [note, setNote] = useState("");
+  const [includeSelf, setIncludeSelf] = useState(true);
+  const [picked, setPicked] = useState<string[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [qr, setQr] = useState<{ shareId: string; dataUrl: string } | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [checking, setChecking] = useState<string | null>(null);
+  const [checkError, setCheckError] = useState<string | null>(null);
+
+  const totalOk = AMOUNT_RE.test(total.trim()) && Number(total) > 0;
+  const people = picked.length + (includeSelf ? 1 : 0);
+
+  const previewShare = useMemo(() => {
+    if (!totalOk || people === 0) return null;
+    return splitAmounts(total.trim(), people, token.decimals)[0];
+  }, [total, totalOk, people, token.decimals]);
+
+  const statusById = useMemo(
+    () => new Map(splits.map((s) => [s.id, matchSplitShares(s, receipts)])),
+    [splits, receipts]
+  );
+
+  function refresh() {
+    setSplits(loadSplits(cluster, payee));
+  }
+
+  function togglePick(id: string) {
+    setPicked((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  }
+
+  function onCreate() {
+    setFormError(null);
+    if (!payee) return setFormError("Connect a wallet first.");
+    if (!totalOk) return setFormError("Enter a valid total.");
+    const frac = total.trim().split(".")[1] ?? "";
+    if (frac.length > token.decimals) {
+      return setFormError(`Max ${token.decimals} decimals for ${token.symbol}.`);
+    }
+    if (picked.length === 0) return setFormError("Pick at least one contact.");
+
+    const participants = contacts.filter((c) => picked.includes(c.id));
+    // Contacts owing less than one base unit would get an unpayable request
+    if (splitAmounts(total.trim(), people, token.decimals).some((a) => Number(a) <= 0)) {
+      return setFormError("Total is too small to split that many ways.");
+    }
+
+    const split = createSplit({
+      id: newSplitId(),
+      cluster,
+      payee,
+      token,
+      totalUi: total.trim(),
+      note: note.trim(),
+      includeSelf,
+      participants,
+    });
+
+    upsertSplit(split);
+    refresh();
+    setTotal("");
+    setNote("");
+    setPicked([]);
+    setOpenId(split.id);
+    setTab("list");
+  }
+
+  function tokenFor(split: Split) {
+    return getTokenBySymbol(split.tokenSymbol, cluster) ?? token;
+  }
+
+  async function copy(key: string, text: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedId(key);
+      window.setTimeout(() => setCopiedId(null), 1200);
+    } catch {}
+  }
+
+  async function toggleQr(split: Split, share: SplitShare) {
+    if (qr?.shareId === share.id) return setQr(null);
+    const { solanaPayUrl } = splitShareLinks(split, share, origin, tokenFor(split));
+    const dataUrl = await QRCode.toDataURL(solanaPayUrl, {
+      margin: 1,
+      width: 220,
+      color: { dark: "#000000", light: "#ffffff" },
+    });
+    setQr({ shareId: share.id, dataUrl });
+  }
+
+  async function remind(split: Split, share: SplitShare) {
+    const t = tokenFor(split);
+    const { webLink } = splitShareLinks(split, share, origin, t);
+    const what = split.note ? ` for "${split.note}"` : "";
+    const text = `Hi ${share.name}, a reminder: your share${what} is ${share.amountUi} ${t.symbol}. Pay here: ${webLink}`;
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ text });
+      } else {
+        await copy(`remind_${share.id}`, text);
+      }
+    } catch {
+      return; // share sheet dismissed
+    }
+
+    upsertSplit({
+      ...split,
+      shares: split.shares.map((s) => (s.id === share.id ? { ...s, remindedAt: Date.now() } : s)),
+    });
+    refresh();
+  }
+
+  // Receipts only know about payments the app has seen; look outstanding
+  // references up on-chain for ones that arrived while it was closed
+  async function checkOnChain(split: Split) {
+    const outstanding = (statusById.get(split.id) ?? []).filter((s) => !s.paid);
+    if (!publicKey || outstanding.length === 0) return;
+
+    setChecking(split.id);
+    setCheckError(null);
+    try {
+      for (const { share } of outstanding) {
+        const found = await withRpc(rpc, (c) =>
+          findPaymentByReference(c, {
+            reference: new PublicKey(share.reference),
+            recipient: publicKey,
+            amountUi: share.amountUi,
+            token: tokenFor(split),
+          })
+        );
+        if (found) onPaymentFound(found, share.reference);
+      }
+    } catch (e) {
+      setCheckError(e instanceof Error ? e.message : "Lookup failed");
+    } finally {
+      setChecking(null);
+    }
+  }
+
+  function onDelete(id: string) {
+    deleteSplit(id);
+    refresh();
+  }
+
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-modal="true">
+      <button
+        type="button"
+        className="absolute inset-0 uz-preview__backdrop"
+        onClick={onClose}
+        aria-label="Close split"
+      />
+
+      <div className="absolute inset-0 flex items-end sm:items-center justify-center p-0 sm:p-6">
+        <div className="w-full sm:max-w-2xl">
+          <div className="uz-preview__ring">
+            <div className="uz-preview__surface rounded-t-3xl sm:rounded-2xl overflow-hidden max-h-[90vh] flex flex-col">
+              <div className="uz-preview__header px-5 py-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-white">Split a Bill</div>
+                  <div className="mt-0.5 text-xs text-white/70">
+                    Request each person&apos;s share and see who has paid
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="uz-preview__secondary rounded-lg px-3 py-2 text-xs"
+                >
+                  Close
+                </button>
+              </div>
+
+              <div className="px-5 pt-4 flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setTab("new")}
+                  className={tab === "new" ? "uz-preview__primary rounded-lg px-3 py-1.5 text-xs font-semibold" : "uz-preview__secondary rounded-lg px-3 py-1.5 text-xs"}
+                >
+                  New Split
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setTab("list")}
+                  className={tab === "list" ? "uz-preview__primary rounded-lg px-3 py-1.5 text-xs font-semibold" : "uz-preview__secondary rounded-lg px-3 py-1.5 text-xs"}
+                >
+                  Splits ({splits.length})
+                </button>
+              </div>
+
+              <div className="px-5 py-5 overflow-y-auto space-y-4">
+                {tab === "new" ? (
+                  <>
+                    <div className="rounded-2xl px-4 py-3 uz-preview__panel space-y-3">
+                      <div>
+                        <label className="text-xs text-white/70">Total ({token.symbol})</label>
+                        <input
+                          value={total}
+                          onChange={(e) => setTotal(e.target.value)}
+                          placeholder="120.00"
+                          inputMode="decimal"
+                          className="uz-input w-full mt-1"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-white/70">Shared note</label>
+                        <input
+                          value={note}
+                          onChange={(e) => setNote(e.target.value)}
+                          placeholder="Dinner at Luca's"
+                          maxLength={140}
+                          className="uz-input w-full mt-1"
+                        />
+                      </div>
+                      <label className="flex items-center gap-2 text-xs text-white/80">
+                        <input
+                          type="checkbox"
+                          checked={includeSelf}
+                          onChange={(e) => setIncludeSelf(e.target.checked)}
+                        />
+                        Include my own share
+                      </label>
+                    </div>
+
+                    <div className="rounded-2xl overflow-hidden uz-preview__panel">
+                      {contacts.length === 0 ? (
+                        <div className="px-4 py-3 text-xs text-white/60">
+                          Save some contacts first to split with them.
+                        </div>
+                      ) : (
+                        contacts.map((c) => (
+                          <label
+                            key={c.id}
+                            className="px-4 py-2 border-b border-white/10 last:border-b-0 text-xs flex items-center gap-3 cursor-pointer"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={picked.includes(c.id)}
+                              onChange={() => togglePick(c.id)}
+                            />
+                            <span className="font-semibold text-white">{c.name}</span>
+                            <span className="font-mono text-white/50 truncate">{c.address}</span>
+                          </label>
+                        ))
+                      )}
+                    </div>
+
+                    {formError ? (
+                      <div className="rounded-xl border border-amber-300/30 bg-amber-300/10 px-3 py-2 text-[11px] text-amber-100">
+                        {formError}
+                      </div>
+                    ) : null}
+                  </>
+                ) : splits.length === 0 ? (
+                  <div className="text-xs text-white/60">No splits yet.</div>
+                ) : (
+                  splits.map((s) => {
+                    const t = tokenFor(s);
+                    const statuses = statusById.get(s.id) ?? [];
+                    const paid = statuses.filter((x) => x.paid).length;
+                    const open = openId === s.id;
+
+                    return (
+                      <div key={s.id} className="rounded-2xl overflow-hidden uz-preview__panel">
+                        <button
+                          type="button"
+                          onClick={() => setOpenId(open ? null : s.id)}
+                          className="w-full px-4 py-3 flex items-center justify-between gap-3 text-left"
+                        >
+                          <div className="min-w-0">
+                            <div className="text-sm font-semibold text-white truncate">
+                              {s.note || "Split"}
+                            </div>
+                            <div className="text-[11px] text-white/60">
+                              {new Date(s.createdAt).toLocaleDateString()} •{" "}
+                              {formatTokenAmount(Number(s.totalUi), t)} {t.symbol}
+                            </div>
+                          </div>
+                          <span
+                            className={[
+                              "text-[11px] px-2 py-0.5 rounded-full border shrink-0",
+                              paid === statuses.length
+                                ? "border-emerald-400/30 bg-emerald-400/10 text-emerald-200"
+                                : "border-white/10 bg-white/5 text-zinc-300",
+                            ].join(" ")}
+                          >
+                            {paid}/{statuses.length} paid
+                          </span>
+                        </button>
+
+                        {open ? (
+                          <div className="border-t border-white/10">
+                            {statuses.map(({ share, paid: isPaid, paidAt }) => {
+                              const links = splitShareLinks(s, share, origin, t);
+                              return (
+                                <div
+                                  key={share.id}
+                                  className="px-4 py-2 border-b border-white/10 last:border-b-0 text-xs"
+                                >
+                                  <div className="flex items-center gap-3">
+                                    <span
+                                      className={[
+                                        "text-[11px] px-2 py-0.5 rounded-full border shrink-0",
+                                        isPaid
+                                          ? "border-emerald-400/30 bg-emerald-400/10 text-emerald-200"
+                                          : "border-amber-300/30 bg-amber-300/10 text-amber-100",
+                                      ].join(" ")}
+                                    >
+                                      {isPaid ? "Paid" : "Outstanding"}
+                                    </span>
+                                    <div className="min-w-0 flex-1">
+                                      <div className="text-white truncate">{share.name}</div>
+                                      <div className="text-white/50 truncate">
+                                        {isPaid && paidAt
+                                          ? `Paid ${new Date(paidAt).toLocaleString()}`
+                                          : share.remindedAt
+                                            ? `Reminded ${new Date(share.remindedAt).toLocaleString()}`
+                                            : share.address}
+                                      </div>
+                                    </div>
+                                    <div className="font-semibold text-white shrink-0">
+                                      {formatTokenAmount(Number(share.amountUi), t)}
+                                    </div>
+                                  </div>
+
+                                  {!isPaid ? (
+                                    <div className="mt-2 flex flex-wrap gap-2">
+                                      <button
+                                        type="button"
+                                        onClick={() => copy(share.id, links.webLink)}
+                                        disabled={!links.webLink}
+                                        className="uz-btn-secondary"
+                                      >
+                                        {copiedId === share.id ? "Copied ✓" : "Copy Link"}
+                                      </button>
+                                      <button
+                                        type="button"
+                                        onClick={() => toggleQr(s, share)}
+                                        className="uz-btn-secondary"
+                                      >
+                                        {qr?.shareId === share.id ? "Hide QR" : "QR"}
+                                      </button>
+                                      <button
+                                        type="button"
+                                        onClick={() => remind(s, share)}
+                                        className="uz-btn-secondary"
+                                      >
+                                        {copiedId === `remind_${share.id}` ? "Copied ✓" : "Remind"}
+                                      </button>
+                                    </div>
+                                  ) : null}
+
+                                  {qr?.shareId === share.id ? (
+                                    <div className="mt-3 flex justify-center">
+                                      <img
+                                        src={qr.dataUrl}
+                                        alt={`Payment QR for ${share.name}`}
+                                        className="h-48 w-48 rounded-xl border border-white/10 bg-white p-3"
+                                        draggable={false}
+                                      />
+                                    </div>
+                                  ) : null}
+                                </div>
+                              );
+                            })}
+
+                            <div className="px-4 py-3 flex flex-wrap items-center justify-between gap-2 text-[11px] text-white/60">
+                              <span>
+                                {s.selfShareUi
+                                  ? `Your share: ${formatTokenAmount(Number(s.selfShareUi), t)}`
+                                  : "You're not included"}
+                              </span>
+                              <div className="flex gap-2">
+                                <button
+                                  type="button"
+                                  onClick={() => checkOnChain(s)}
+                                  disabled={checking !== null || paid === statuses.length}
+                                  className="uz-btn-secondary disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                  {checking === s.id ? "Checking…" : "Check On-chain"}
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => onDelete(s.id)}
+                                  className="uz-btn-secondary"
+                                >
+                                  Delete
+                                </button>
+                              </div>
+                            </div>
+
+                            {checkError && checking === null ? (
+                              <div className="px-4 pb-3 text-[11px] text-red-200">{checkError}</div>
+                            ) : null}
+                          </div>
+                        ) : null}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+
+              {tab === "new" ? (
+                <div className="px-5 py-4 border-t border-white/10">
+                  <div className="flex items-center justify-between text-xs text-white/70">
+                    <span>
+                      {people} {people === 1 ? "person" : "people"}
+                    </span>
+                    <span className="font-semibold text-white">
+                      {previewShare
+                        ? `${formatTokenAmount(Number(previewShare), token)} each`
+                        : "—"}
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={onCreate}
+                    disabled={!payee || picked.length === 0 || !totalOk}
+                    className="mt-3 w-full uz-preview__primary rounded-xl px-4 py-3 text-sm font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Create Split & Request Links →
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
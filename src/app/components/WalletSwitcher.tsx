@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+
+import type { ClusterId } from "../lib/cluster";
+import { ContactsScope, loadContactsScope, saveContactsScope } from "../lib/contacts";
+import { TokenSymbol, formatTokenAmount, getTokenBySymbol } from "../lib/tokens";
+import { KnownWallet, forgetWallet, loadKnownWallets } from "../lib/wallets";
+
+type Props = {
+  /** Connected wallet, if any */
+  current: string | null;
+  cluster: ClusterId;
+  clusterLabel: string;
+  onSwitch: (w: KnownWallet) => void;
+  /** Contacts visible to the wallet changed; reload them */
+  onContactsScopeChange: () => void;
+  onClose: () => void;
+};
+
+function shortAddr(address: string) {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+function cachedBalanceText(w: KnownWallet, cluster: ClusterId) {
+  const b = w.balances[cluster];
+  if (!b) return null;
+  const tokens = (Object.entries(b.tokens) as [TokenSymbol, number][])
+    .map(([sym, n]) => {
+      const t = getTokenBySymbol(sym, cluster);
+      return t ? `${formatTokenAmount(n, t)} ${sym}` : null;
+    })
+    .filter(Boolean);
+  return [...tokens, `${b.sol.toFixed(4)} SOL`].join(" • ");
+}
+
+/**
+ * Wallets used in this browser with their last seen balances. Receipts, contact
+ * usage and history sync are kept per wallet; contacts can be shared or not.
+ */
+export default function WalletSwitcher({
+  current,
+  cluster,
+  clusterLabel,
+  onSwitch,
+  onContactsScopeChange,
+  onClose,
+}: Props) {
+  const [wallets, setWallets] = useState(() => loadKnownWallets());
+  const [scope, setScope] = useState<ContactsScope>(() => loadContactsScope());
+
+  function forget(address: string) {
+    forgetWallet(address);
+    setWallets(loadKnownWallets());
+  }
+
+  function changeScope(next: ContactsScope) {
+    saveContactsScope(next);
+    setScope(next);
+    onContactsScopeChange();
+  }
+
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-modal="true">
+      <button
+        type="button"
+        className="absolute inset-0 uz-preview__backdrop"
+        onClick={onClose}
+        aria-label="Close wallets"
+      />
+
+      <div className="absolute inset-0 flex items-end sm:items-center justify-center p-0 sm:p-6">
+        <div className="w-full sm:max-w-lg">
+          <div className="uz-preview__ring">
+            <div className="uz-preview__surface rounded-t-3xl sm:rounded-2xl overflow-hidden max-h-[90vh] flex flex-col">
+              <div className="uz-preview__header px-5 py-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-white">Wallets</div>
+                  <div className="mt-0.5 text-xs text-white/70 truncate">
+                    Each wallet keeps its own receipts and history
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="uz-preview__secondary rounded-lg px-3 py-2 text-xs"
+                >
+                  Close
+                </button>
+              </div>
+
+              <div className="px-5 py-5 overflow-y-auto space-y-4">
+                {wallets.length === 0 ? (
+                  <div className="text-sm text-white/70">No wallets connected here yet.</div>
+                ) : (
+                  <div className="space-y-2">
+                    {wallets.map((w) => {
+                      const isCurrent = w.address === current;
+                      const balance = cachedBalanceText(w, cluster);
+                      return (
+                        <div
+                          key={w.address}
+                          className="rounded-2xl px-4 py-3 uz-preview__panel flex items-center justify-between gap-3"
+                        >
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-mono text-sm text-white">
+                                {shortAddr(w.address)}
+                              </span>
+                              {isCurrent ? (
+                                <span className="text-[10px] px-2 py-0.5 rounded-full border border-emerald-400/30 bg-emerald-400/10 text-emerald-200">
+                                  Connected
+                                </span>
+                              ) : null}
+                            </div>
+                            <div className="mt-1 text-[11px] text-white/70 truncate">
+                              {balance ?? `No ${clusterLabel} balance seen yet`}
+                            </div>
+                            <div className="mt-0.5 text-[11px] text-white/50">
+                              {w.adapter ?? "Wallet"} • last used{" "}
+                              {new Date(w.lastConnectedAt).toLocaleDateString()}
+                            </div>
+                          </div>
+
+                          {isCurrent ? null : (
+                            <div className="flex shrink-0 gap-2">
+                              <button
+                                type="button"
+                                onClick={() => onSwitch(w)}
+                                className="uz-btn-secondary"
+                              >
+                                Switch
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => forget(w.address)}
+                                className="uz-preview__secondary rounded-lg px-3 py-2 text-xs"
+                                title="Remove from this list (its receipts stay on this device)"
+                              >
+                                Forget
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <div className="text-[11px] text-white/60">
+                  Switching reconnects with the same wallet app. If it holds several accounts,
+                  pick this one in the app when it asks.
+                </div>
+
+                <div className="rounded-2xl px-4 py-3 uz-preview__panel space-y-2">
+                  <div className="text-xs text-white/70">Contacts</div>
+                  <div className="flex flex-wrap gap-2">
+                    {(
+                      [
+                        ["shared", "Shared by all wallets"],
+                        ["wallet", "Separate per wallet"],
+                      ] as [ContactsScope, string][]
+                    ).map(([value, label]) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => changeScope(value)}
+                        className={[
+                          "rounded-full px-3 py-1.5 text-xs border transition",
+                          scope === value
+                            ? "bg-white/10 text-white border-white/15"
+                            : "bg-white/5 border-white/10 hover:bg-white/10 text-white",
+                        ].join(" ")}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="text-[11px] text-white/60">
+                    {scope === "wallet"
+                      ? "New contacts stay with the wallet that saved them. Contacts saved while shared stay visible everywhere."
+                      : "Every wallet sees every contact."}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import QRCode from "qrcode";
+
+import { useCluster } from "../../providers";
+import { CLUSTERS } from "../../lib/cluster";
+import {
+  Invoice,
+  decodeSharedInvoice,
+  getInvoice,
+  invoicePayLink,
+  invoiceTotals,
+  lineItemTotalUi,
+} from "../../lib/invoices";
+import { toDateKey } from "../../lib/schedules";
+import { encodeSolanaPayUrl } from "../../lib/solanaPay";
+import { formatTokenAmount, getTokenBySymbol } from "../../lib/tokens";
+import ClusterSelect from "../../components/ClusterSelect";
+
+const noopSubscribe = () => () => {};
+
+function shortMid(s: string, a = 6, b = 6) {
+  return s.length <= a + b + 3 ? s : `${s.slice(0, a)}…${s.slice(-b)}`;
+}
+
+function fmtDate(key: string) {
+  if (!key) return "—";
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function statusLabel(invoice: Invoice, today: string) {
+  if (invoice.status === "paid") return { text: "Paid", cls: "border-emerald-400/30 bg-emerald-400/10 text-emerald-200" };
+  if (invoice.dueDate && invoice.dueDate < today) return { text: "Overdue", cls: "border-red-400/30 bg-red-400/10 text-red-200" };
+  if (invoice.status === "draft") return { text: "Draft", cls: "border-white/10 bg-white/5 text-zinc-300" };
+  return { text: "Sent", cls: "border-amber-300/30 bg-amber-300/10 text-amber-100" };
+}
+
+function InvoiceInner() {
+  const { id } = useParams<{ id: string }>();
+  const searchParams = useSearchParams();
+  const { cluster } = useCluster();
+
+  // Local storage only exists in the browser; render the shared copy on the server pass
+  const isClient = useSyncExternalStore(noopSubscribe, () => true, () => false);
+
+  const invoice = useMemo(() => {
+    const local = isClient ? getInvoice(id) : null;
+    return local ?? decodeSharedInvoice(id, searchParams.get("d"));
+  }, [id, searchParams, isClient]);
+
+  const token = invoice ? getTokenBySymbol(invoice.tokenSymbol, invoice.cluster) : null;
+  const totals = invoice && token ? invoiceTotals(invoice, token) : null;
+
+  const solanaPayUrl = useMemo(() => {
+    if (!invoice || !token || !totals) return "";
+    try {
+      return encodeSolanaPayUrl({
+        recipient: invoice.payee,
+        amount: totals.totalUi,
+        splToken: token.mint,
+        reference: [invoice.reference],
+        label: invoice.payeeName || "UTILIZAP",
+        message: `Invoice ${invoice.number}`,
+        memo: `Invoice ${invoice.number}`,
+      });
+    } catch {
+      return "";
+    }
+  }, [invoice, token, totals]);
+
+  const [qr, setQr] = useState<{ url: string; dataUrl: string } | null>(null);
+  useEffect(() => {
+    if (!solanaPayUrl) return;
+    let cancelled = false;
+    QRCode.toDataURL(solanaPayUrl, {
+      margin: 1,
+      width: 220,
+      color: { dark: "#000000", light: "#ffffff" },
+    }).then((dataUrl) => {
+      if (!cancelled) setQr({ url: solanaPayUrl, dataUrl });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [solanaPayUrl]);
+
+  const today = useMemo(() => toDateKey(new Date()), []);
+
+  if (!invoice || !token || !totals) {
+    return (
+      <main className="min-h-screen bg-black text-white flex items-center justify-center px-6">
+        <div className="text-center space-y-2">
+          <div className="text-lg font-bold">Invoice not found</div>
+          <div className="text-sm text-white/70">
+            This link is incomplete or was created on another device.
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const status = statusLabel(invoice, today);
+  const wrongNetwork = cluster !== invoice.cluster;
+  const fmt = (ui: string) => `${formatTokenAmount(Number(ui), token)} ${token.symbol}`;
+
+  return (
+    <main className="min-h-screen text-white bg-black relative uz-app">
+      <div className="pointer-events-none absolute inset-0 uz-bg" />
+
+      <div className="relative mx-auto w-full max-w-2xl px-4 sm:px-6 py-8 space-y-4">
+        <div className="uz-panel rounded-2xl p-5 sm:p-6">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="text-[11px] uppercase tracking-wider text-white/70">Invoice</div>
+              <h1 className="text-2xl font-extrabold tracking-tight">{invoice.number}</h1>
+              <div className="mt-1 text-xs text-white/70">
+                Issued {new Date(invoice.createdAt).toLocaleDateString()} • Due{" "}
+                {fmtDate(invoice.dueDate)}
+              </div>
+            </div>
+            <span className={`text-[11px] px-2 py-1 rounded-full border shrink-0 ${status.cls}`}>
+              {status.text}
+            </span>
+          </div>
+
+          <div className="mt-5 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="rounded-2xl uz-subpanel p-4">
+              <div className="text-[11px] uppercase tracking-wider text-white/70">From</div>
+              <div className="mt-1 text-sm font-semibold">{invoice.payeeName || "—"}</div>
+              <div className="mt-0.5 text-xs font-mono text-white/70">
+                {shortMid(invoice.payee, 8, 8)}
+              </div>
+            </div>
+            <div className="rounded-2xl uz-subpanel p-4">
+              <div className="text-[11px] uppercase tracking-wider text-white/70">Bill To</div>
+              <div className="mt-1 text-sm font-semibold">{invoice.payerName || "—"}</div>
+              {invoice.payerAddress ? (
+                <div className="mt-0.5 text-xs font-mono text-white/70">
+                  {shortMid(invoice.payerAddress, 8, 8)}
+                </div>
+              ) : null}
+            </div>
+          </div>
+
+          <div className="mt-4 rounded-2xl uz-subpanel overflow-hidden">
+            <div className="px-4 py-2 grid grid-cols-12 gap-2 text-[11px] uppercase tracking-wider text-white/60 border-b border-white/10">
+              <span className="col-span-6">Item</span>
+              <span className="col-span-2 text-right">Qty</span>
+              <span className="col-span-2 text-right">Price</span>
+              <span className="col-span-2 text-right">Amount</span>
+            </div>
+            {invoice.lineItems.map((l, i) => (
+              <div
+                key={i}
+                className="px-4 py-2 grid grid-cols-12 gap-2 text-sm border-b border-white/10 last:border-b-0"
+              >
+                <span className="col-span-6 break-words">{l.description}</span>
+                <span className="col-span-2 text-right text-white/80">{l.quantity}</span>
+                <span className="col-span-2 text-right text-white/80">
+                  {formatTokenAmount(Number(l.unitPriceUi), token)}
+                </span>
+                <span className="col-span-2 text-right font-semibold">
+                  {formatTokenAmount(Number(lineItemTotalUi(l, token)), token)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-4 space-y-1 text-sm">
+            <div className="flex justify-between text-white/70">
+              <span>Subtotal</span>
+              <span>{fmt(totals.subtotalUi)}</span>
+            </div>
+            {Number(invoice.taxRatePct) > 0 ? (
+              <div className="flex justify-between text-white/70">
+                <span>Tax ({invoice.taxRatePct}%)</span>
+                <span>{fmt(totals.taxUi)}</span>
+              </div>
+            ) : null}
+            <div className="flex justify-between text-lg font-bold pt-2 border-t border-white/10">
+              <span>Total</span>
+              <span>{fmt(totals.totalUi)}</span>
+            </div>
+          </div>
+
+          {invoice.notes ? (
+            <div className="mt-4 text-xs text-white/70 whitespace-pre-wrap">{invoice.notes}</div>
+          ) : null}
+        </div>
+
+        {invoice.status === "paid" ? (
+          <div className="uz-panel rounded-2xl p-5 text-sm text-emerald-200">
+            Paid {invoice.paidAt ? new Date(invoice.paidAt).toLocaleString() : ""}
+            {invoice.paidSig ? (
+              <span className="ml-2 font-mono text-xs text-white/60">
+                {shortMid(invoice.paidSig, 10, 10)}
+              </span>
+            ) : null}
+          </div>
+        ) : (
+          <div className="uz-panel rounded-2xl p-5 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <div className="text-xs text-white/70">
+                Pay on <span className="text-white">{CLUSTERS[invoice.cluster].label}</span>{" "}
+                with {token.symbol}
+              </div>
+              <ClusterSelect />
+            </div>
+
+            {wrongNetwork ? (
+              <div className="rounded-xl border border-amber-300/30 bg-amber-300/10 px-4 py-3 text-xs text-amber-100">
+                This invoice is on {CLUSTERS[invoice.cluster].label}. Switch network before paying.
+              </div>
+            ) : null}
+
+            <a
+              href={wrongNetwork ? undefined : invoicePayLink(invoice, token)}
+              aria-disabled={wrongNetwork}
+              className={[
+                "uz-preview__primary block text-center rounded-xl px-4 py-3 text-sm font-semibold",
+                wrongNetwork ? "opacity-40 pointer-events-none" : "",
+              ].join(" ")}
+            >
+              Pay {fmt(totals.totalUi)} →
+            </a>
+
+            {qr && qr.url === solanaPayUrl ? (
+              <div className="flex flex-col items-center gap-2">
+                <img
+                  src={qr.dataUrl}
+                  alt="Solana Pay QR"
+                  className="h-48 w-48 rounded-xl border border-white/10 bg-white p-3"
+                  draggable={false}
+                />
+                <div className="text-[11px] text-white/60">Or scan with a Solana Pay wallet</div>
+              </div>
+            ) : null}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
+
+export default function InvoicePage() {
+  return (
+    <Suspense
+      fallback={
+        <main className="min-h-screen bg-black text-white flex items-center justify-center">
+          <div className="text-sm text-white/70">Loading…</div>
+        </main>
+      }
+    >
+      <InvoiceInner />
+    </Suspense>
+  );
+}
@@ -0,0 +1,31 @@
+// src/app/lib/appStorage.ts
+// Opens the app's IndexedDB repository (lib/storage.ts) with the legacy localStorage import.
+import { readLegacyContacts, readLegacyContactsMeta } from "./contacts";
+import { readLegacyReceipts } from "./receipts";
+import {
+  createIndexedDbAdapter,
+  createMemoryAdapter,
+  getStorageIssue,
+  isStorageReady,
+  openStorage,
+  subscribeStorage,
+} from "./storage";
+
+export { getStorageIssue, isStorageReady };
+
+export function initAppStorage(): Promise<void> {
+  return openStorage({
+    adapter: typeof indexedDB === "undefined" ? createMemoryAdapter() : createIndexedDbAdapter(),
+    legacy: () => ({
+      receipts: readLegacyReceipts(),
+      contacts: readLegacyContacts(),
+      contactsMeta: readLegacyContactsMeta(),
+    }),
+  });
+}
+
+/** For useSyncExternalStore: opens storage on first subscribe, notifies once it's hydrated */
+export function subscribeAppStorage(cb: () => void) {
+  initAppStorage();
+  return subscribeStorage(cb);
+}
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { TxReceipt } from "./receipts";
+
+const ALICE = "AEew4ph6kXRa29f9fwqrUkAnYrV6ywhphyJ7zYcev9iM";
+const BOB = "XGWCVbGGV5oXS4KSf1CsU6ZQzW2ZWeDL7fabKT3v2gH";
+
+// Stand-ins for the wallet's signature over backupKeyMessage
+const KEY_SIG = new Uint8Array(64).fill(7);
+const OTHER_SIG = new Uint8Array(64).fill(8);
+
+function receipt(over: Partial<TxReceipt> = {}): TxReceipt {
+  return {
+    id: "r1",
+    sig: "sig-1",
+    createdAt: 1_700_000_000_000,
+    cluster: "mainnet-beta",
+    wallet: ALICE,
+    status: "confirmed",
+    direction: "sent",
+    amountUi: "12.5",
+    tokenSymbol: "USDC",
+    from: ALICE,
+    to: BOB,
+    explorerUrl: null,
+    ...over,
+  };
+}
+
+// storage.ts keeps one cache per module instance, so every test gets fresh modules
+let backup: typeof import("./backup");
+let receipts: typeof import("./receipts");
+
+beforeEach(async () => {
+  vi.resetModules();
+  const storage = await import("./storage");
+  await storage.openStorage({ adapter: storage.createMemoryAdapter() });
+  backup = await import("./backup");
+  receipts = await import("./receipts");
+});
+
+describe("encryptBackup / decryptBackup", () => {
+  const payload = {
+    contacts: [{ id: "c1", name: "Bób ✓", address: BOB }],
+    contactsMeta: { c1: { lastUsedAt: 5 } },
+    receipts: [receipt({ note: "rent" })],
+  };
+
+  it("round-trips through the file format with the wallet's key", async () => {
+    const envelope = await backup.encryptBackup(payload, ALICE, KEY_SIG);
+    const parsed = backup.parseBackupEnvelope(JSON.stringify(envelope));
+
+    expect(parsed).toEqual(envelope);
+    expect(envelope.data).not.toContain("rent");
+    expect(await backup.decryptBackup(parsed, ALICE, KEY_SIG)).toEqual(payload);
+  });
+
+  it("refuses another wallet, a wrong key or a relabelled envelope", async () => {
+    const envelope = await backup.encryptBackup(payload, ALICE, KEY_SIG);
+
+    await expect(backup.decryptBackup(envelope, BOB, KEY_SIG)).rejects.toThrow("belongs to AEew");
+    await expect(backup.decryptBackup(envelope, ALICE, OTHER_SIG)).rejects.toThrow(
+      backup.BackupError
+    );
+    // The wallet is authenticated data, so changing the label breaks decryption
+    await expect(
+      backup.decryptBackup({ ...envelope, wallet: BOB }, BOB, KEY_SIG)
+    ).rejects.toThrow("Couldn't decrypt");
+  });
+
+  it("rejects files that aren't backups", () => {
+    expect(() => backup.parseBackupEnvelope("{")).toThrow("not valid JSON");
+    expect(() => backup.parseBackupEnvelope('{"format":"other"}')).toThrow("Not a UTILIZAP");
+  });
+});
+
+describe("mergeBackup", () => {
+  it("keeps whichever note was edited more recently", () => {
+    receipts.upsertReceipts([
+      receipt({ id: "older-here", note: "local", noteUpdatedAt: 100 }),
+      receipt({ id: "newer-here", note: "local", noteUpdatedAt: 300 }),
+      receipt({ id: "never-edited", note: "memo" }),
+    ]);
+
+    const result = backup.mergeBackup(
+      {
+        receipts: [
+          receipt({ id: "older-here", note: "from backup", noteUpdatedAt: 200 }),
+          receipt({ id: "newer-here", note: "from backup", noteUpdatedAt: 200 }),
+          receipt({ id: "never-edited", note: "from backup", noteUpdatedAt: 1 }),
+          receipt({ id: "only-in-backup", note: "restored" }),
+        ],
+      },
+      ALICE
+    );
+
+    const notes = Object.fromEntries(
+      receipts.loadReceipts("mainnet-beta", ALICE).map((r) => [r.id, r.note])
+    );
+    expect(notes).toEqual({
+      "older-here": "from backup",
+      "newer-here": "local",
+      "never-edited": "from backup",
+      "only-in-backup": "restored",
+    });
+    expect(result).toEqual({ contactsAdded: 0, receiptsAdded: 1, notesUpdated: 2 });
+  });
+
+  it("adds contacts it doesn't have by id or address", async () => {
+    const contacts = await import("./contacts");
+    contacts.addContacts([{ id: "c1", name: "Bob", address: BOB }]);
+
+    const result = backup.mergeBackup(
+      {
+        contacts: [
+          { id: "c1", name: "Renamed", address: ALICE },
+          { id: "c2", name: "Bob again", address: BOB },
+          { id: "c3", name: "Alice", address: ALICE },
+        ],
+      },
+      ALICE
+    );
+
+    expect(result.contactsAdded).toBe(1);
+    expect(contacts.loadContacts().map((c) => c.name)).toEqual(["Bob", "Alice"]);
+  });
+});
@@ -0,0 +1,341 @@
+// src/app/lib/backup.ts
+import bs58 from "bs58";
+
+import { CLUSTER_IDS } from "./cluster";
+import {
+  Contact,
+  ContactMetaStore,
+  addContacts,
+  loadContacts,
+  loadContactsMeta,
+  safeParseContacts,
+  safeParseMeta,
+  saveContactsMeta,
+} from "./contacts";
+import {
+  TxReceipt,
+  loadClusterReceipts,
+  loadReceipts,
+  safeParseReceipts,
+  upsertReceipts,
+} from "./receipts";
+
+/** Wallet-adapter `signMessage` */
+export type MessageSigner = (message: Uint8Array) => Promise<Uint8Array>;
+
+/** What a backup carries (plaintext, before encryption) */
+export type BackupPayload = {
+  contacts: Contact[];
+  /** The wallet's last-used times */
+  contactsMeta: ContactMetaStore;
+  /** The wallet's receipts on every cluster; notes are what can't be rebuilt from history */
+  receipts: TxReceipt[];
+};
+
+/** Encrypted file / server blob; only the wallet that made it can open it */
+export type BackupEnvelope = {
+  format: typeof BACKUP_FORMAT_ID;
+  version: number;
+  wallet: string;
+  createdAt: number;
+  /** base64 */
+  salt: string;
+  iv: string;
+  data: string;
+};
+
+export type BackupMergeResult = {
+  contactsAdded: number;
+  receiptsAdded: number;
+  notesUpdated: number;
+};
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+const BACKUP_FORMAT_ID = "utilizap-backup";
+const BACKUP_VERSION = 1;
+const HKDF_INFO = "uz-backup-v1";
+
+// --------------------
+// Key derivation
+// --------------------
+
+/**
+ * Fixed text the wallet signs to derive the backup key. Ed25519 signatures are
+ * deterministic, so the same wallet reproduces the same key on any device.
+ */
+export function backupKeyMessage(wallet: string): string {
+  return [
+    "UTILIZAP encrypted backup",
+    "",
+    `Wallet: ${wallet}`,
+    "",
+    "Signing unlocks your backup key. It is free and sends no transaction.",
+  ].join("\n");
+}
+
+/** Proves a server upload came from the wallet (verified in lib/backupFileStore.ts) */
+export function backupUploadMessage(wallet: string, digestHex: string, at: number): string {
+  return [
+    "UTILIZAP backup upload",
+    "",
+    `Wallet: ${wallet}`,
+    `Backup: ${digestHex}`,
+    `Time: ${new Date(at).toISOString()}`,
+  ].join("\n");
+}
+
+export async function signBackupKey(wallet: string, sign: MessageSigner): Promise<Uint8Array> {
+  const sig = await sign(new TextEncoder().encode(backupKeyMessage(wallet)));
+  if (sig.length !== 64) throw new BackupError("Wallet returned an unexpected signature.");
+  return sig;
+}
+
+async function deriveKey(keySignature: Uint8Array, salt: Uint8Array): Promise<CryptoKey> {
+  const ikm = await crypto.subtle.importKey("raw", toBuffer(keySignature), "HKDF", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: toBuffer(salt),
+      info: utf8(HKDF_INFO),
+    },
+    ikm,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer as ArrayBuffer;
+}
+
+function utf8(text: string): ArrayBuffer {
+  return toBuffer(new TextEncoder().encode(text));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const hash = await crypto.subtle.digest("SHA-256", utf8(text));
+  return Array.from(new Uint8Array(hash), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// --------------------
+// Encrypt / decrypt
+// --------------------
+export async function encryptBackup(
+  payload: BackupPayload,
+  wallet: string,
+  keySignature: Uint8Array
+): Promise<BackupEnvelope> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(keySignature, salt);
+
+  const data = await crypto.subtle.encrypt(
+    // The wallet is authenticated too, so an envelope can't be relabelled
+    { name: "AES-GCM", iv, additionalData: utf8(wallet) },
+    key,
+    utf8(JSON.stringify(payload))
+  );
+
+  return {
+    format: BACKUP_FORMAT_ID,
+    version: BACKUP_VERSION,
+    wallet,
+    createdAt: Date.now(),
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+  };
+}
+
+/** Parse an envelope from a file or the server; throws BackupError */
+export function parseBackupEnvelope(text: string): BackupEnvelope {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError("File is not valid JSON.");
+  }
+
+  const e = parsed as Partial<BackupEnvelope> | null;
+  if (
+    !e ||
+    e.format !== BACKUP_FORMAT_ID ||
+    typeof e.wallet !== "string" ||
+    typeof e.salt !== "string" ||
+    typeof e.iv !== "string" ||
+    typeof e.data !== "string"
+  ) {
+    throw new BackupError("Not a UTILIZAP backup.");
+  }
+  if (typeof e.version !== "number" || e.version > BACKUP_VERSION) {
+    throw new BackupError("This backup was made by a newer version of UTILIZAP.");
+  }
+
+  return {
+    format: BACKUP_FORMAT_ID,
+    version: e.version,
+    wallet: e.wallet,
+    createdAt: typeof e.createdAt === "number" ? e.createdAt : 0,
+    salt: e.salt,
+    iv: e.iv,
+    data: e.data,
+  };
+}
+
+export async function decryptBackup(
+  envelope: BackupEnvelope,
+  wallet: string,
+  keySignature: Uint8Array
+): Promise<unknown> {
+  if (envelope.wallet !== wallet) {
+    throw new BackupError(
+      `This backup belongs to ${envelope.wallet.slice(0, 4)}…${envelope.wallet.slice(-4)}. Connect that wallet to restore it.`
+    );
+  }
+
+  try {
+    const key = await deriveKey(keySignature, fromBase64(envelope.salt));
+    const plain = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: toBuffer(fromBase64(envelope.iv)),
+        additionalData: utf8(wallet),
+      },
+      key,
+      toBuffer(fromBase64(envelope.data))
+    );
+    return JSON.parse(new TextDecoder().decode(plain));
+  } catch {
+    throw new BackupError("Couldn't decrypt the backup (wrong wallet or damaged file).");
+  }
+}
+
+// --------------------
+// Collect / merge local data
+// --------------------
+/** What `wallet` can see: shared contacts and its own, and its own receipts */
+export function collectBackup(wallet: string): BackupPayload {
+  return {
+    contacts: loadContacts(wallet),
+    contactsMeta: loadContactsMeta(wallet),
+    receipts: CLUSTER_IDS.flatMap((c) => loadReceipts(c, wallet)),
+  };
+}
+
+/**
+ * Merge a decrypted backup into local storage, by id. Local contacts win on a clash;
+ * receipts missing here are added, and the more recently edited note is kept.
+ */
+export function mergeBackup(raw: unknown, wallet: string): BackupMergeResult {
+  const doc = (raw ?? {}) as Partial<Record<keyof BackupPayload, unknown>>;
+  const result: BackupMergeResult = { contactsAdded: 0, receiptsAdded: 0, notesUpdated: 0 };
+
+  // Contacts (skip ids and addresses we already have, in any wallet)
+  const contacts = loadContacts();
+  const ids = new Set(contacts.map((c) => c.id));
+  const addresses = new Set(contacts.map((c) => c.address));
+  const freshContacts = safeParseContacts(JSON.stringify(doc.contacts ?? [])).filter(
+    (c) => c.name && c.address && !ids.has(c.id) && !addresses.has(c.address)
+  );
+  if (freshContacts.length) {
+    addContacts(freshContacts);
+    result.contactsAdded = freshContacts.length;
+  }
+
+  // Last-used times: newest wins
+  const meta = loadContactsMeta(wallet);
+  const newerMeta: ContactMetaStore = {};
+  for (const [id, m] of Object.entries(safeParseMeta(JSON.stringify(doc.contactsMeta ?? {})))) {
+    if ((meta[id]?.lastUsedAt ?? 0) < m.lastUsedAt) newerMeta[id] = m;
+  }
+  saveContactsMeta(wallet, newerMeta);
+
+  // Receipts, per cluster and wallet
+  const receiptsJson = JSON.stringify(doc.receipts ?? []);
+  for (const c of CLUSTER_IDS) {
+    const incoming = safeParseReceipts(receiptsJson, c);
+    if (incoming.length === 0) continue;
+
+    const local = new Map(loadClusterReceipts(c).map((r) => [`${r.wallet}:${r.id}`, r]));
+    const changed: TxReceipt[] = [];
+
+    for (const r of incoming) {
+      const prev = local.get(`${r.wallet}:${r.id}`);
+      if (!prev) {
+        changed.push(r);
+        result.receiptsAdded++;
+      } else if ((r.noteUpdatedAt ?? 0) > (prev.noteUpdatedAt ?? 0)) {
+        changed.push({ ...prev, note: r.note, noteUpdatedAt: r.noteUpdatedAt });
+        result.notesUpdated++;
+      }
+    }
+
+    if (changed.length) upsertReceipts(changed);
+  }
+
+  return result;
+}
+
+// --------------------
+// Remote storage (pluggable)
+// --------------------
+
+/** Somewhere to keep the latest encrypted envelope per wallet */
+export type BackupStore = {
+  id: string;
+  label: string;
+  push: (wallet: string, envelope: BackupEnvelope, sign: MessageSigner) => Promise<void>;
+  /** null when there is no backup for this wallet */
+  pull: (wallet: string) => Promise<BackupEnvelope | null>;
+};
+
+/** The bundled /api/backup route (file storage on the Next.js server) */
+export function createApiBackupStore(baseUrl = "/api/backup"): BackupStore {
+  return {
+    id: "api",
+    label: "UTILIZAP server",
+    push: async (wallet, envelope, sign) => {
+      const body = JSON.stringify(envelope);
+      const at = Date.now();
+      const message = backupUploadMessage(wallet, await sha256Hex(body), at);
+      const signature = await sign(new TextEncoder().encode(message));
+
+      const res = await fetch(`${baseUrl}/${wallet}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ envelope: body, at, signature: bs58.encode(signature) }),
+      });
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw new BackupError(`Backup upload failed (${res.status}): ${text.slice(0, 200)}`);
+      }
+    },
+    pull: async (wallet) => {
+      const res = await fetch(`${baseUrl}/${wallet}`, { cache: "no-store" });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new BackupError(`Backup download failed (${res.status}).`);
+      const data = await res.json();
+      return parseBackupEnvelope(String(data?.envelope ?? ""));
+    },
+  };
+}
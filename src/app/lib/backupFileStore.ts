@@ -0,0 +1,91 @@
+// src/app/lib/backupFileStore.ts
+// Server-side only: keeps one encrypted backup envelope per wallet on disk.
+// The server never sees plaintext; uploads must be signed by the wallet.
+import { createHash, createPublicKey, verify } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+
+import { backupUploadMessage } from "./backup";
+
+/** Envelopes are small (contacts + receipts); anything bigger is refused */
+export const MAX_BACKUP_BYTES = 2 * 1024 * 1024;
+
+// Upload signatures older than this are rejected, so a captured request can't be replayed later
+const UPLOAD_MAX_AGE_MS = 5 * 60 * 1000;
+
+// DER prefix turning a raw 32-byte Ed25519 key into SPKI for node:crypto
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+export class BackupAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupAuthError";
+  }
+}
+
+/** BACKUP_DIR overrides the default ./.data/backups */
+function backupDir(): string {
+  return process.env.BACKUP_DIR?.trim() || path.join(process.cwd(), ".data", "backups");
+}
+
+function backupPath(wallet: string): string {
+  // Base58 only, so the name can't escape the directory
+  return path.join(backupDir(), `${new PublicKey(wallet).toBase58()}.json`);
+}
+
+export function verifyBackupUpload(params: {
+  wallet: string;
+  envelope: string;
+  at: number;
+  signature: string;
+}) {
+  const age = Date.now() - params.at;
+  if (!Number.isFinite(age) || age < -60_000 || age > UPLOAD_MAX_AGE_MS) {
+    throw new BackupAuthError("Upload signature expired");
+  }
+
+  let sig: Uint8Array;
+  try {
+    sig = bs58.decode(params.signature);
+  } catch {
+    throw new BackupAuthError("Invalid signature encoding");
+  }
+
+  const digest = createHash("sha256").update(params.envelope).digest("hex");
+  const message = backupUploadMessage(params.wallet, digest, params.at);
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(params.wallet).toBuffer()]),
+    format: "der",
+    type: "spki",
+  });
+
+  if (sig.length !== 64 || !verify(null, Buffer.from(message), key, sig)) {
+    throw new BackupAuthError("Signature does not match wallet");
+  }
+}
+
+export async function readBackup(
+  wallet: string
+): Promise<{ envelope: string; updatedAt: number } | null> {
+  try {
+    const raw = JSON.parse(await readFile(backupPath(wallet), "utf8"));
+    if (typeof raw?.envelope !== "string") return null;
+    return { envelope: raw.envelope, updatedAt: Number(raw.updatedAt) || 0 };
+  } catch {
+    return null;
+  }
+}
+
+export async function writeBackup(wallet: string, envelope: string): Promise<number> {
+  const file = backupPath(wallet);
+  const updatedAt = Date.now();
+  await mkdir(path.dirname(file), { recursive: true });
+
+  // Write then rename, so a crash never leaves a half-written backup
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify({ envelope, updatedAt }), "utf8");
+  await rename(tmp, file);
+  return updatedAt;
+}
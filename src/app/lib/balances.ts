@@ -1,27 +1,36 @@
 // src/app/lib/balances.ts
-import { Connection, PublicKey } from "@solana/web3.js";
+import { PublicKey } from "@solana/web3.js";
 import { getAssociatedTokenAddress } from "@solana/spl-token";
-import { USDC_MINT } from "@/app/lib/constants";
+import { DEFAULT_TOKEN, TokenInfo } from "@/app/lib/tokens";
+import { RpcLike, withRpc } from "@/app/lib/rpc";
 
 export async function getSolBalance(
-  connection: Connection,
+  connection: RpcLike,
   owner: PublicKey
 ): Promise<number> {
-  const lamports = await connection.getBalance(owner, "confirmed");
+  const lamports = await withRpc(connection, (c) => c.getBalance(owner, "confirmed"));
   return lamports / 1_000_000_000;
 }
 
 export async function getSplTokenBalance(
-  connection: Connection,
-  owner: PublicKey
+  connection: RpcLike,
+  owner: PublicKey,
+  token: TokenInfo = DEFAULT_TOKEN
 ): Promise<number> {
-  const ata = await getAssociatedTokenAddress(USDC_MINT, owner);
+  const ata = await getAssociatedTokenAddress(
+    token.mint,
+    owner,
+    false,
+    token.programId
+  );
 
   // If ATA doesn't exist, balance is 0
-  const info = await connection.getAccountInfo(ata, "confirmed");
+  const info = await withRpc(connection, (c) => c.getAccountInfo(ata, "confirmed"));
   if (!info) return 0;
 
-  const bal = await connection.getTokenAccountBalance(ata, "confirmed");
+  const bal = await withRpc(connection, (c) =>
+    c.getTokenAccountBalance(ata, "confirmed")
+  );
   const uiStr = bal?.value?.uiAmountString ?? "0";
   return Number(uiStr);
 }
\ No newline at end of file
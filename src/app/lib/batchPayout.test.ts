@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import { chunkPayoutRows, parsePayoutCsv, validatePayoutRow } from "./batchPayout";
+import { DEFAULT_TOKEN, getTokenBySymbol } from "./tokens";
+
+const ALICE = "AEew4ph6kXRa29f9fwqrUkAnYrV6ywhphyJ7zYcev9iM";
+const BOB = "XGWCVbGGV5oXS4KSf1CsU6ZQzW2ZWeDL7fabKT3v2gH";
+
+function parse(text: string) {
+  let n = 0;
+  return parsePayoutCsv(text, DEFAULT_TOKEN, () => `row-${++n}`);
+}
+
+describe("parsePayoutCsv", () => {
+  it("skips a header line and blank lines", () => {
+    const { rows, errors } = parse(`address,amount,note\n\n${ALICE},10,rent\r\n${BOB},2.5,\n`);
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { id: "row-1", address: ALICE, amountUi: "10", note: "rent", status: "pending" },
+      { id: "row-2", address: BOB, amountUi: "2.5", note: "", status: "pending" },
+    ]);
+  });
+
+  it("only treats the first line as a header", () => {
+    const { rows, errors } = parse(`${ALICE},1\nwallet,amount`);
+
+    expect(rows).toHaveLength(1);
+    expect(errors).toEqual([{ line: 2, message: "Invalid Solana address" }]);
+  });
+
+  it("reads quoted cells, escaped quotes and commas in the note", () => {
+    const { rows } = parse(
+      `"${ALICE}","1.25","Invoice ""42"", March"\n${BOB},3,lunch,tip`
+    );
+
+    expect(rows.map((r) => [r.amountUi, r.note])).toEqual([
+      ["1.25", 'Invoice "42", March'],
+      // Unquoted, the extra cells are joined back into the note
+      ["3", "lunch,tip"],
+    ]);
+  });
+
+  it("reports bad rows with their line numbers and keeps the good ones", () => {
+    const { rows, errors } = parse(
+      [`${ALICE},abc`, `${ALICE},0`, `${ALICE},-1`, `${ALICE},1.1234567`, `${BOB},5`].join("\n")
+    );
+
+    expect(rows.map((r) => r.address)).toEqual([BOB]);
+    expect(errors).toEqual([
+      { line: 1, message: "Invalid amount" },
+      { line: 2, message: "Amount must be greater than 0" },
+      { line: 3, message: "Invalid amount" },
+      { line: 4, message: "Max 6 decimals for USDC" },
+    ]);
+  });
+});
+
+describe("validatePayoutRow", () => {
+  it("checks decimals against the token", () => {
+    const eurc = getTokenBySymbol("EURC")!;
+    expect(validatePayoutRow({ address: ALICE, amountUi: "0.000001" }, eurc)).toBeNull();
+    expect(validatePayoutRow({ address: ALICE, amountUi: "1." }, eurc)).toBe("Invalid amount");
+    expect(validatePayoutRow({ address: ALICE, amountUi: ".5" }, eurc)).toBe("Invalid amount");
+  });
+});
+
+describe("chunkPayoutRows", () => {
+  it("groups rows per transaction", () => {
+    const { rows } = parse(Array.from({ length: 9 }, () => `${ALICE},1`).join("\n"));
+    expect(chunkPayoutRows(rows).map((c) => c.length)).toEqual([4, 4, 1]);
+  });
+});
@@ -0,0 +1,222 @@
+// src/app/lib/batchPayout.ts
+import {
+  AddressLookupTableAccount,
+  PublicKey,
+  TransactionInstruction,
+  TransactionVersion,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+
+import { PriorityLevel } from "./priorityFee";
+import { RpcLike, withRpc } from "./rpc";
+import { TokenInfo } from "./tokens";
+import {
+  AnyTransaction,
+  finalizeTransaction,
+  isValidSolanaAddress,
+  uiToBaseUnits,
+} from "./transfer";
+
+// "unknown": sent, but the RPC went away before it confirmed; it may still land
+export type PayoutRowStatus = "pending" | "sending" | "confirmed" | "failed" | "unknown";
+
+export type PayoutRow = {
+  id: string;
+  address: string;
+  amountUi: string;
+  note: string;
+  status: PayoutRowStatus;
+  /** Set once the row's transaction is signed, before it is sent */
+  sig?: string;
+  lastValidBlockHeight?: number;
+  /** Failed without landing (expired, or rejected before it was submitted), so it can be re-signed */
+  retryable?: boolean;
+  error?: string;
+};
+
+export type PayoutCsvError = { line: number; message: string };
+
+// Each transfer may also create the recipient's ATA; 4 keeps legacy txs under 1232 bytes
+export const PAYOUTS_PER_TX = 4;
+
+const AMOUNT_RE = /^\d+(\.\d+)?$/;
+
+// Minimal CSV: commas, optional double quotes ("" escapes a quote)
+function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      out.push(cur);
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur);
+  return out.map((c) => c.trim());
+}
+
+/** Returns a message for an invalid row, or null if it can be paid. */
+export function validatePayoutRow(
+  row: Pick<PayoutRow, "address" | "amountUi">,
+  token: TokenInfo
+): string | null {
+  if (!isValidSolanaAddress(row.address)) return "Invalid Solana address";
+  if (!AMOUNT_RE.test(row.amountUi)) return "Invalid amount";
+  if (Number(row.amountUi) <= 0) return "Amount must be greater than 0";
+  const frac = row.amountUi.split(".")[1] ?? "";
+  if (frac.length > token.decimals) return `Max ${token.decimals} decimals for ${token.symbol}`;
+  return null;
+}
+
+/**
+ * Parse `address,amount,note` lines. A first-line header (address/wallet/recipient)
+ * is skipped, blank lines are ignored, and bad rows come back as errors.
+ */
+export function parsePayoutCsv(
+  text: string,
+  token: TokenInfo,
+  makeId: () => string
+): { rows: PayoutRow[]; errors: PayoutCsvError[] } {
+  const rows: PayoutRow[] = [];
+  const errors: PayoutCsvError[] = [];
+
+  const lines = text.split(/\r?\n/);
+  lines.forEach((raw, idx) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    const [address = "", amountUi = "", ...rest] = splitCsvLine(line);
+    const isHeader =
+      idx === 0 && !isValidSolanaAddress(address) && /address|wallet|recipient/i.test(address);
+    if (isHeader) return;
+
+    const row = { address, amountUi, note: rest.join(",").trim() };
+    const problem = validatePayoutRow(row, token);
+    if (problem) {
+      errors.push({ line: idx + 1, message: problem });
+      return;
+    }
+
+    rows.push({ id: makeId(), ...row, status: "pending" });
+  });
+
+  return { rows, errors };
+}
+
+export function chunkPayoutRows(rows: PayoutRow[], size = PAYOUTS_PER_TX): PayoutRow[][] {
+  const out: PayoutRow[][] = [];
+  for (let i = 0; i < rows.length; i += size) out.push(rows.slice(i, i + size));
+  return out;
+}
+
+/**
+ * One unsigned transaction per chunk of rows: an idempotent ATA create (only
+ * where the recipient has none) plus a transferChecked for each row.
+ */
+export async function buildPayoutTransactions(params: {
+  connection: RpcLike;
+  sender: PublicKey;
+  token: TokenInfo;
+  rows: PayoutRow[];
+  priority?: PriorityLevel;
+  version?: TransactionVersion;
+  lookupTables?: AddressLookupTableAccount[];
+}): Promise<
+  { tx: AnyTransaction; rowIds: string[]; lastValidBlockHeight: number }[]
+> {
+  const { connection, sender, token, rows, priority, version, lookupTables } = params;
+  const { mint, decimals, programId } = token;
+
+  const senderAta = getAssociatedTokenAddressSync(mint, sender, false, programId);
+  const senderAtaInfo = await withRpc(connection, (c) => c.getAccountInfo(senderAta));
+  if (!senderAtaInfo) {
+    throw new Error(`Sender does not have a ${token.symbol} token account (ATA).`);
+  }
+
+  const recipientAtas = rows.map((r) =>
+    getAssociatedTokenAddressSync(mint, new PublicKey(r.address), true, programId)
+  );
+  const infos = await withRpc(connection, (c) => c.getMultipleAccountsInfo(recipientAtas));
+  const existing = new Set(
+    recipientAtas.filter((_, i) => infos[i] !== null).map((a) => a.toBase58())
+  );
+
+  const out: { tx: AnyTransaction; rowIds: string[]; lastValidBlockHeight: number }[] = [];
+
+  let offset = 0;
+  for (const chunk of chunkPayoutRows(rows)) {
+    const ix: TransactionInstruction[] = [];
+    const writable: PublicKey[] = [senderAta];
+    const createdHere = new Set<string>();
+
+    chunk.forEach((row, j) => {
+      const recipient = new PublicKey(row.address);
+      const ata = recipientAtas[offset + j];
+
+      const ataKey = ata.toBase58();
+      if (!existing.has(ataKey) && !createdHere.has(ataKey)) {
+        ix.push(
+          createAssociatedTokenAccountIdempotentInstruction(
+            sender,
+            ata,
+            recipient,
+            mint,
+            programId
+          )
+        );
+        // A second row to the same wallet in this tx mustn't create it again;
+        // later txs keep the (idempotent) create in case this one fails
+        createdHere.add(ataKey);
+      }
+
+      ix.push(
+        createTransferCheckedInstruction(
+          senderAta,
+          mint,
+          ata,
+          sender,
+          uiToBaseUnits(row.amountUi, decimals),
+          decimals,
+          [],
+          programId
+        )
+      );
+      writable.push(ata);
+    });
+    offset += chunk.length;
+
+    const { tx, lastValidBlockHeight } = await finalizeTransaction({
+      connection,
+      payer: sender,
+      instructions: ix,
+      writableAccounts: writable,
+      priority,
+      version,
+      lookupTables,
+    });
+
+    out.push({ tx, rowIds: chunk.map((r) => r.id), lastValidBlockHeight });
+  }
+
+  return out;
+}
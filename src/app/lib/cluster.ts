@@ -0,0 +1,153 @@
+// src/app/lib/cluster.ts
+import { clusterApiUrl } from "@solana/web3.js";
+import { WalletAdapterNetwork } from "@solana/wallet-adapter-base";
+
+export type ClusterId = "mainnet-beta" | "devnet" | "localnet";
+
+export type ClusterConfig = {
+  id: ClusterId;
+  label: string;
+  walletNetwork: WalletAdapterNetwork;
+  /** Default RPC; localnet can be overridden with a custom URL */
+  defaultEndpoint: string;
+};
+
+export const DEFAULT_LOCALNET_RPC = "http://127.0.0.1:8899";
+
+export const CLUSTERS: Record<ClusterId, ClusterConfig> = {
+  "mainnet-beta": {
+    id: "mainnet-beta",
+    label: "Mainnet",
+    walletNetwork: WalletAdapterNetwork.Mainnet,
+    defaultEndpoint: clusterApiUrl("mainnet-beta"),
+  },
+  devnet: {
+    id: "devnet",
+    label: "Devnet",
+    walletNetwork: WalletAdapterNetwork.Devnet,
+    defaultEndpoint: clusterApiUrl("devnet"),
+  },
+  localnet: {
+    id: "localnet",
+    label: "Localnet",
+    // Wallets have no localnet network; devnet is the closest match
+    walletNetwork: WalletAdapterNetwork.Devnet,
+    defaultEndpoint: DEFAULT_LOCALNET_RPC,
+  },
+};
+
+export const CLUSTER_IDS = Object.keys(CLUSTERS) as ClusterId[];
+
+export function isClusterId(value: unknown): value is ClusterId {
+  return typeof value === "string" && value in CLUSTERS;
+}
+
+// --------------------
+// SETTINGS (local-only)
+// --------------------
+export type ClusterSettings = {
+  cluster: ClusterId;
+  customRpc: string;
+  /** In-app RPC endpoints per cluster, highest priority first */
+  rpcUrls: Partial<Record<ClusterId, string[]>>;
+};
+
+export const DEFAULT_CLUSTER_SETTINGS: ClusterSettings = {
+  cluster: "mainnet-beta",
+  customRpc: "",
+  rpcUrls: {},
+};
+
+/** `web3.js` Connection only accepts absolute http(s) URLs; anything else throws */
+export function isHttpUrl(value: string): boolean {
+  try {
+    const u = new URL(value.trim());
+    return (u.protocol === "http:" || u.protocol === "https:") && !!u.host;
+  } catch {
+    return false;
+  }
+}
+
+function parseRpcUrls(raw: unknown): Partial<Record<ClusterId, string[]>> {
+  if (!raw || typeof raw !== "object") return {};
+  const out: Partial<Record<ClusterId, string[]>> = {};
+  for (const [k, v] of Object.entries(raw)) {
+    if (!isClusterId(k) || !Array.isArray(v)) continue;
+    out[k] = v
+      .filter((u): u is string => typeof u === "string" && isHttpUrl(u))
+      .map((u) => u.trim());
+  }
+  return out;
+}
+
+const CLUSTER_SETTINGS_KEY = "uz_cluster_v1";
+const CLUSTER_SETTINGS_EVENT = "uz:cluster:changed";
+
+export function parseClusterSettings(raw: string | null): ClusterSettings {
+  if (!raw) return DEFAULT_CLUSTER_SETTINGS;
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      cluster: isClusterId(parsed?.cluster) ? parsed.cluster : "mainnet-beta",
+      // A bad saved URL would break every load, so it's dropped rather than kept
+      customRpc:
+        typeof parsed?.customRpc === "string" && isHttpUrl(parsed.customRpc)
+          ? parsed.customRpc.trim()
+          : "",
+      rpcUrls: parseRpcUrls(parsed?.rpcUrls),
+    };
+  } catch {
+    return DEFAULT_CLUSTER_SETTINGS;
+  }
+}
+
+/** Raw string snapshot, so `useSyncExternalStore` gets a stable value */
+export function getClusterSettingsSnapshot(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage.getItem(CLUSTER_SETTINGS_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveClusterSettings(next: ClusterSettings) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(CLUSTER_SETTINGS_KEY, JSON.stringify(next));
+  } catch {}
+  window.dispatchEvent(new Event(CLUSTER_SETTINGS_EVENT));
+}
+
+export function subscribeClusterSettings(cb: () => void) {
+  if (typeof window === "undefined") return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === CLUSTER_SETTINGS_KEY) cb();
+  };
+  window.addEventListener(CLUSTER_SETTINGS_EVENT, cb);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    window.removeEventListener(CLUSTER_SETTINGS_EVENT, cb);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export function clusterEndpoint(settings: ClusterSettings): string {
+  if (settings.cluster === "localnet" && isHttpUrl(settings.customRpc)) {
+    return settings.customRpc.trim();
+  }
+  return CLUSTERS[settings.cluster].defaultEndpoint;
+}
+
+/**
+ * Explorer link for a transaction on the given cluster
+ * (localnet goes through Explorer's custom-RPC mode).
+ */
+export function explorerTxUrl(sig: string, cluster: ClusterId, endpoint?: string) {
+  const base = `https://explorer.solana.com/tx/${sig}`;
+  if (cluster === "localnet") {
+    const url = endpoint || DEFAULT_LOCALNET_RPC;
+    return `${base}?cluster=custom&customUrl=${encodeURIComponent(url)}`;
+  }
+  return `${base}?cluster=${cluster}`;
+}
@@ -9,6 +9,23 @@ export const USDC_MINT = new PublicKey(
   "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"
 );
 
+/**
+ * Circle's devnet USDC mint (faucet: https://faucet.circle.com)
+ * Localnet uses it too, cloned into solana-test-validator, unless overridden.
+ */
+export const USDC_MINT_DEVNET = new PublicKey(
+  "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU"
+);
+
 export const USDC_DECIMALS = 6;
 
-export const CLUSTER: "mainnet-beta" = "mainnet-beta";
\ No newline at end of file
+/**
+ * SPL Memo program (v2) + legacy v1 id, used to attach the payment note on-chain
+ */
+export const MEMO_PROGRAM_ID = new PublicKey(
+  "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"
+);
+
+export const MEMO_V1_PROGRAM_ID = new PublicKey(
+  "Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo"
+);
@@ -0,0 +1,165 @@
+// src/app/lib/contacts.ts
+// Address book (local-only)
+import {
+  ContactMetaRecord,
+  getStored,
+  readStore,
+  readStoreBy,
+  storeKey,
+  writeStore,
+} from "./storage";
+
+export type Contact = {
+  id: string;
+  name: string;
+  address: string;
+  /** Set when saved in per-wallet mode; shared contacts have none */
+  wallet?: string;
+};
+
+export type ContactMetaStore = Record<string, { lastUsedAt: number }>;
+
+/** Whether contacts are shared by every wallet in this browser, or kept per wallet */
+export type ContactsScope = "shared" | "wallet";
+
+// Legacy localStorage keys, read once by the IndexedDB migration (lib/storage.ts)
+const CONTACTS_KEY = "uz_contacts_v1";
+const CONTACTS_META_KEY = "uz_contacts_meta_v1";
+
+export function safeParseContacts(raw: string | null): Contact[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(
+        (c) =>
+          c &&
+          typeof c.id === "string" &&
+          typeof c.name === "string" &&
+          typeof c.address === "string"
+      )
+      .map((c) => ({
+        id: c.id,
+        name: c.name.trim(),
+        address: c.address.trim(),
+        wallet: typeof c.wallet === "string" && c.wallet ? c.wallet : undefined,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/** Contacts saved under the old localStorage key, for the one-time migration */
+export function readLegacyContacts(): Contact[] {
+  if (typeof window === "undefined") return [];
+  try {
+    return safeParseContacts(window.localStorage.getItem(CONTACTS_KEY));
+  } catch {
+    return [];
+  }
+}
+
+const CONTACTS_SCOPE_ID = "contacts-scope";
+
+export function loadContactsScope(): ContactsScope {
+  return getStored("meta", CONTACTS_SCOPE_ID)?.value === "wallet" ? "wallet" : "shared";
+}
+
+export function saveContactsScope(scope: ContactsScope) {
+  writeStore("meta", [{ id: CONTACTS_SCOPE_ID, value: scope }]);
+}
+
+/**
+ * Contacts `wallet` can see: shared ones plus its own in per-wallet mode,
+ * everything in shared mode. No wallet = every contact (backups, receipt pages).
+ */
+export function loadContacts(wallet?: string | null): Contact[] {
+  const all = readStore("contacts");
+  if (!wallet || loadContactsScope() === "shared") return all;
+  return all.filter((c) => !c.wallet || c.wallet === wallet);
+}
+
+/** New contacts belong to `wallet` in per-wallet mode */
+export function makeContact(id: string, name: string, address: string, wallet: string): Contact {
+  return loadContactsScope() === "wallet" ? { id, name, address, wallet } : { id, name, address };
+}
+
+export function addContacts(next: Contact[]) {
+  writeStore("contacts", next);
+}
+
+/** Deletes the contact and its usage for every wallet */
+export function removeContact(id: string) {
+  writeStore("contacts", [], [id]);
+  writeStore(
+    "contactsMeta",
+    [],
+    readStore("contactsMeta")
+      .filter((m) => m.contactId === id)
+      .map((m) => storeKey("contactsMeta", m))
+  );
+}
+
+export function safeParseMeta(raw: string | null): ContactMetaStore {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object") return {};
+    const out: ContactMetaStore = {};
+    for (const [k, v] of Object.entries(parsed)) {
+      const lastUsedAt =
+        typeof v === "object" && v !== null && "lastUsedAt" in v ? v.lastUsedAt : undefined;
+      if (typeof lastUsedAt === "number" && Number.isFinite(lastUsedAt)) {
+        out[k] = { lastUsedAt };
+      }
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+export function readLegacyContactsMeta(): ContactMetaRecord[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const meta = safeParseMeta(window.localStorage.getItem(CONTACTS_META_KEY));
+    // Usage from before per-wallet scoping counts for every wallet
+    return Object.entries(meta).map(([contactId, m]) => ({
+      contactId,
+      wallet: "",
+      lastUsedAt: m.lastUsedAt,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+/** Last-used times as seen from `wallet` (its own, or older unscoped usage) */
+export function loadContactsMeta(wallet: string): ContactMetaStore {
+  const out: ContactMetaStore = {};
+  const visible = [
+    ...readStoreBy("contactsMeta", "wallet", wallet),
+    ...readStoreBy("contactsMeta", "wallet", ""),
+  ];
+  for (const m of visible) {
+    if ((out[m.contactId]?.lastUsedAt ?? 0) >= m.lastUsedAt) continue;
+    out[m.contactId] = { lastUsedAt: m.lastUsedAt };
+  }
+  return out;
+}
+
+/** Writes `wallet`'s last-used times that changed */
+export function saveContactsMeta(wallet: string, next: ContactMetaStore) {
+  const current = loadContactsMeta(wallet);
+  writeStore(
+    "contactsMeta",
+    Object.entries(next)
+      .filter(([id, m]) => current[id]?.lastUsedAt !== m.lastUsedAt)
+      .map(([contactId, m]) => ({ contactId, wallet, lastUsedAt: m.lastUsedAt }))
+  );
+}
+
+export function touchContactMeta(wallet: string, id: string) {
+  saveContactsMeta(wallet, { [id]: { lastUsedAt: Date.now() } });
+}
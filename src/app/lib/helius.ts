@@ -1,45 +1,71 @@
 // src/app/lib/helius.ts
+import type { ClusterId } from "./cluster";
 
-type HeliusOpts = {
-  limit?: number;
+/**
+ * Normalized transaction shape served by /api/history/[address].
+ * The Helius API key stays on the server (see lib/heliusProxy.ts).
+ */
+export type HistoryTokenTransfer = {
+  mint: string;
+  fromUserAccount: string;
+  toUserAccount: string;
+  fromTokenAccount: string;
+  toTokenAccount: string;
+  /** UI units */
+  tokenAmount: number;
+};
+
+export type HistoryTx = {
+  signature: string;
+  /** Unix seconds */
+  timestamp: number | null;
+  failed: boolean;
+  memo: string | null;
+  tokenTransfers: HistoryTokenTransfer[];
 };
 
-function getHeliusKey(): string {
-  const k = process.env.NEXT_PUBLIC_HELIUS_API_KEY?.trim();
-  if (!k) return "";
-  return k;
+/** The server has no Helius key (or the cluster isn't indexed); use another history source. */
+export class HistoryUnavailableError extends Error {
+  constructor(message = "History provider not configured") {
+    super(message);
+    this.name = "HistoryUnavailableError";
+  }
 }
 
+type HeliusOpts = {
+  limit?: number;
+  cluster?: ClusterId;
+  /** Pagination cursor: only return transactions older than this signature */
+  before?: string;
+};
+
 export async function heliusAddressTransactions(
   address: string,
   opts: HeliusOpts = {}
-): Promise<any[]> {
-  const apiKey = getHeliusKey();
-  if (!apiKey) {
-    console.warn(
-      "Missing NEXT_PUBLIC_HELIUS_API_KEY. Helius sync disabled."
-    );
-    return [];
-  }
-
+): Promise<HistoryTx[]> {
   const limit = typeof opts.limit === "number" ? opts.limit : 80;
 
-  const url = new URL(`https://api.helius.xyz/v0/addresses/${address}/transactions`);
-  url.searchParams.set("api-key", apiKey);
-  url.searchParams.set("limit", String(limit));
+  const params = new URLSearchParams();
+  params.set("cluster", opts.cluster ?? "mainnet-beta");
+  params.set("limit", String(limit));
+  if (opts.before) params.set("before", opts.before);
 
-  const res = await fetch(url.toString(), {
+  const res = await fetch(`/api/history/${address}?${params.toString()}`, {
     method: "GET",
     headers: { "Content-Type": "application/json" },
     cache: "no-store",
   });
 
+  if (res.status === 503) {
+    throw new HistoryUnavailableError("Missing HELIUS_API_KEY on the server.");
+  }
+
+  // Thrown rather than returning [] so pagination can't mistake it for the end
   if (!res.ok) {
     const text = await res.text().catch(() => "");
-    console.error("Helius error:", res.status, text);
-    return [];
+    throw new Error(`History API error ${res.status}: ${text.slice(0, 200)}`);
   }
 
   const data = await res.json();
-  return Array.isArray(data) ? data : [];
-}
\ No newline at end of file
+  return Array.isArray(data?.transactions) ? data.transactions : [];
+}
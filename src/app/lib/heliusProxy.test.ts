@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from "vitest";
+
+describe("rateLimit", () => {
+  it("caps total requests however many IPs they come from", async () => {
+    vi.resetModules();
+    const { rateLimit } = await import("./heliusProxy");
+
+    for (let i = 0; i < 300; i++) {
+      expect(rateLimit(`10.1.${Math.floor(i / 250)}.${i % 250}`)).toBe(0);
+    }
+    expect(rateLimit("10.2.0.1")).toBeGreaterThan(0);
+  });
+
+  it("starts a new window after a minute", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.resetModules();
+      const { rateLimit } = await import("./heliusProxy");
+
+      for (let i = 0; i < 30; i++) rateLimit("10.3.0.1");
+      expect(rateLimit("10.3.0.1")).toBe(60);
+
+      vi.advanceTimersByTime(60_000);
+      expect(rateLimit("10.3.0.1")).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
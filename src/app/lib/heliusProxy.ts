@@ -0,0 +1,193 @@
+// src/app/lib/heliusProxy.ts
+// Server-side only: talks to Helius with HELIUS_API_KEY, which never reaches the browser.
+import type { ClusterId } from "./cluster";
+import type { HistoryTokenTransfer, HistoryTx } from "./helius";
+import { extractHeliusMemo } from "./memo";
+
+/**
+ * Base URLs can be pointed at a local mock server for testing, e.g.
+ * HELIUS_API_BASE_URL=http://127.0.0.1:4010
+ */
+function heliusBaseUrl(cluster: ClusterId): string | null {
+  if (cluster === "mainnet-beta") {
+    return process.env.HELIUS_API_BASE_URL?.trim() || "https://api.helius.xyz";
+  }
+  if (cluster === "devnet") {
+    return process.env.HELIUS_API_BASE_URL_DEVNET?.trim() || "https://api-devnet.helius.xyz";
+  }
+  // Helius doesn't index localnet
+  return null;
+}
+
+export function getServerHeliusKey(): string {
+  return process.env.HELIUS_API_KEY?.trim() ?? "";
+}
+
+/** Key present and the cluster is one Helius indexes */
+export function isHeliusConfigured(cluster: ClusterId): boolean {
+  return Boolean(getServerHeliusKey() && heliusBaseUrl(cluster));
+}
+
+export class HeliusUpstreamError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "HeliusUpstreamError";
+    this.status = status;
+  }
+}
+
+function toNumber(raw: unknown): number {
+  if (typeof raw === "number") return raw;
+  if (typeof raw === "string") return Number(raw);
+  if (raw && typeof raw === "object") {
+    const r = raw as Record<string, unknown>;
+    if (typeof r.uiAmount === "number") return r.uiAmount;
+    if (typeof r.uiAmountString === "string") return Number(r.uiAmountString);
+    if (typeof r.amount === "string") {
+      const decimals = typeof r.decimals === "number" ? r.decimals : 0;
+      const intVal = Number(r.amount);
+      if (Number.isFinite(intVal)) return intVal / Math.pow(10, decimals);
+    }
+  }
+  return 0;
+}
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+/**
+ * Helius enhanced transaction -> the small shape the client imports from.
+ */
+export function normalizeHeliusTx(raw: unknown): HistoryTx | null {
+  const t = raw as Record<string, unknown> | null;
+  const signature = str(t?.signature);
+  if (!t || !signature) return null;
+
+  const ts = t.timestamp ?? t.blockTime;
+  const meta = t.meta as Record<string, unknown> | undefined;
+
+  const tokenTransfers: HistoryTokenTransfer[] = (
+    Array.isArray(t.tokenTransfers) ? t.tokenTransfers : []
+  )
+    .map((x: Record<string, unknown>) => ({
+      mint: str(x?.mint),
+      fromUserAccount: str(x?.fromUserAccount) || str(x?.fromAccount),
+      toUserAccount: str(x?.toUserAccount) || str(x?.toAccount),
+      fromTokenAccount: str(x?.fromTokenAccount),
+      toTokenAccount: str(x?.toTokenAccount),
+      tokenAmount: toNumber(x?.tokenAmount ?? x?.amount),
+    }))
+    .filter((x) => x.mint && Number.isFinite(x.tokenAmount) && x.tokenAmount > 0);
+
+  return {
+    signature,
+    timestamp: typeof ts === "number" && ts > 0 ? ts : null,
+    failed: Boolean(t.transactionError || t.err || meta?.err),
+    memo: extractHeliusMemo(t),
+    tokenTransfers,
+  };
+}
+
+export async function fetchHeliusHistory(params: {
+  address: string;
+  cluster: ClusterId;
+  limit: number;
+  before?: string;
+}): Promise<HistoryTx[]> {
+  const apiKey = getServerHeliusKey();
+  const base = heliusBaseUrl(params.cluster);
+  if (!apiKey || !base) return [];
+
+  const url = new URL(`${base}/v0/addresses/${params.address}/transactions`);
+  url.searchParams.set("api-key", apiKey);
+  url.searchParams.set("limit", String(params.limit));
+  if (params.before) url.searchParams.set("before", params.before);
+
+  const res = await fetch(url.toString(), {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+    cache: "no-store",
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new HeliusUpstreamError(res.status, text.slice(0, 300) || res.statusText);
+  }
+
+  const data = await res.json();
+  if (!Array.isArray(data)) return [];
+
+  return data.map(normalizeHeliusTx).filter((x): x is HistoryTx => x !== null);
+}
+
+// --------------------
+// CACHE + RATE LIMIT (per server instance)
+// --------------------
+const CACHE_TTL_MS = 15_000;
+const CACHE_MAX_ENTRIES = 500;
+const cache = new Map<string, { at: number; data: HistoryTx[] }>();
+
+export function cacheGet(key: string): HistoryTx[] | null {
+  const hit = cache.get(key);
+  if (!hit) return null;
+  if (Date.now() - hit.at > CACHE_TTL_MS) {
+    cache.delete(key);
+    return null;
+  }
+  return hit.data;
+}
+
+export function cacheSet(key: string, data: HistoryTx[]) {
+  if (cache.size >= CACHE_MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  cache.set(key, { at: Date.now(), data });
+}
+
+const RATE_WINDOW_MS = 60_000;
+const RATE_MAX_REQUESTS = 30;
+/** Across all callers, so rotating IPs can't run through the Helius quota */
+const RATE_GLOBAL_MAX_REQUESTS = 300;
+
+type RateWindow = { windowStart: number; count: number };
+const hits = new Map<string, RateWindow>();
+const globalHits: RateWindow = { windowStart: 0, count: 0 };
+
+/** Counts one request in `entry`'s window. Returns seconds to wait, or 0. */
+function countHit(entry: RateWindow, now: number, max: number): number {
+  if (now - entry.windowStart >= RATE_WINDOW_MS) {
+    entry.windowStart = now;
+    entry.count = 0;
+  }
+
+  entry.count += 1;
+  if (entry.count <= max) return 0;
+  return Math.ceil((entry.windowStart + RATE_WINDOW_MS - now) / 1000);
+}
+
+/**
+ * Fixed-window limiter, per IP and global. Returns seconds to wait, or 0 if the request may proceed.
+ */
+export function rateLimit(ip: string): number {
+  const now = Date.now();
+
+  if (hits.size > 5000) {
+    for (const [k, v] of hits) {
+      if (now - v.windowStart >= RATE_WINDOW_MS) hits.delete(k);
+    }
+  }
+
+  let entry = hits.get(ip);
+  if (!entry) {
+    entry = { windowStart: now, count: 0 };
+    hits.set(ip, entry);
+  }
+
+  const wait = countHit(entry, now, RATE_MAX_REQUESTS);
+  if (wait > 0) return wait;
+
+  return countHit(globalHits, now, RATE_GLOBAL_MAX_REQUESTS);
+}
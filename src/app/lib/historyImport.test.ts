@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import { FIXTURE_WALLET, HeliusFixture, loadHeliusFixture } from "@/test/heliusFixtures";
+import type { HistoryTx } from "./helius";
+import { normalizeHeliusTx } from "./heliusProxy";
+import { tokenNetsForWallet } from "./historyImport";
+
+function fixtureTxs(name: HeliusFixture): HistoryTx[] {
+  return loadHeliusFixture(name).map((raw) => {
+    const tx = normalizeHeliusTx(raw);
+    if (!tx) throw new Error(`Fixture ${name} has an unreadable tx`);
+    return tx;
+  });
+}
+
+function nets(tx: HistoryTx, wallet = FIXTURE_WALLET) {
+  return tokenNetsForWallet(tx, wallet, "mainnet-beta").map((n) => ({
+    symbol: n.token.symbol,
+    net: n.net,
+    counterparty: n.counterparty,
+    selfTransfer: n.selfTransfer,
+    selfAmount: n.selfAmount,
+  }));
+}
+
+describe("tokenNetsForWallet", () => {
+  it("splits a swap into one entry per registry token and skips other mints", () => {
+    const [swap] = fixtureTxs("swap");
+
+    expect(nets(swap)).toEqual([
+      {
+        symbol: "USDC",
+        net: -25,
+        counterparty: "GY7uoHaepmfDnDfkChLb3mea2LxjJGScZ4fXaH5RcLBv",
+        selfTransfer: false,
+        selfAmount: 0,
+      },
+      {
+        symbol: "USDT",
+        net: 24.981,
+        counterparty: "ECFXtQRXDFP3tHFsKxt3TAZUbGx8A763EbM6CR5SM9j3",
+        selfTransfer: false,
+        selfAmount: 0,
+      },
+    ]);
+  });
+
+  it("sums a batch payout and names the largest recipient", () => {
+    const [payout] = fixtureTxs("multi-transfer");
+
+    expect(payout.memo).toBe("INV-1042");
+    expect(nets(payout)).toEqual([
+      {
+        symbol: "USDC",
+        net: -55.35,
+        counterparty: "31GTXBcS2Ms1Fn1HiNeiaobzcibbdXYkWATCJj5NpHx8",
+        selfTransfer: false,
+        selfAmount: 0,
+      },
+    ]);
+  });
+
+  it("sums several incoming transfers and names the largest sender", () => {
+    const [, incoming] = fixtureTxs("multi-transfer");
+
+    expect(nets(incoming)).toEqual([
+      {
+        symbol: "USDC",
+        net: 15.5,
+        counterparty: "9cfHjzhe3EosTNNT5MkziTQVVEChtHBZfMWowXPqtDuR",
+        selfTransfer: false,
+        selfAmount: 0,
+      },
+    ]);
+  });
+
+  it("only shows a recipient the transfer that reached them", () => {
+    const [payout] = fixtureTxs("multi-transfer");
+
+    expect(nets(payout, "XGWCVbGGV5oXS4KSf1CsU6ZQzW2ZWeDL7fabKT3v2gH")).toEqual([
+      {
+        symbol: "USDC",
+        net: 10,
+        counterparty: FIXTURE_WALLET,
+        selfTransfer: false,
+        selfAmount: 0,
+      },
+    ]);
+  });
+
+  it("keeps a pure self-transfer even though it nets to zero", () => {
+    const [self] = fixtureTxs("self-transfer");
+
+    expect(nets(self)).toEqual([
+      {
+        symbol: "USDC",
+        net: 0,
+        counterparty: FIXTURE_WALLET,
+        selfTransfer: true,
+        selfAmount: 100,
+      },
+    ]);
+  });
+
+  it("treats a self-transfer alongside a payment as the payment", () => {
+    const [, mixed] = fixtureTxs("self-transfer");
+
+    expect(nets(mixed)).toEqual([
+      {
+        symbol: "USDC",
+        net: -2,
+        counterparty: "XGWCVbGGV5oXS4KSf1CsU6ZQzW2ZWeDL7fabKT3v2gH",
+        selfTransfer: false,
+        selfAmount: 5,
+      },
+    ]);
+  });
+
+  it("ignores wallets that aren't part of the transaction", () => {
+    const [swap] = fixtureTxs("swap");
+    expect(nets(swap, "GJNxfpjwrKgwAi8VEbRsioXsrCrjuP8uWTaZaAce5q32")).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+// src/app/lib/historyImport.ts
+import type { ClusterId } from "./cluster";
+import type { HistoryTx } from "./helius";
+import { TokenInfo, getTokenByMint } from "./tokens";
+
+/**
+ * Net movement of one registry token for a wallet within a single transaction.
+ */
+export type TokenNet = {
+  token: TokenInfo;
+  /** UI units; positive = received, negative = sent */
+  net: number;
+  /** Other side of the largest transfer in the winning direction ("" if unknown) */
+  counterparty: string;
+  /** Every transfer of this mint went wallet -> wallet */
+  selfTransfer: boolean;
+  /** UI units moved wallet -> wallet (only meaningful for self-transfers) */
+  selfAmount: number;
+};
+
+function roundTo(n: number, decimals: number) {
+  return Number(n.toFixed(decimals));
+}
+
+/**
+ * Per-mint nets for `wallet`, registry tokens only, in first-seen order.
+ * Swaps produce one entry per side; unknown mints (airdrops, memecoins) are ignored;
+ * mints that net to zero are dropped unless the tx was a pure self-transfer.
+ */
+export function tokenNetsForWallet(
+  tx: HistoryTx,
+  wallet: string,
+  cluster: ClusterId
+): TokenNet[] {
+  type Acc = {
+    token: TokenInfo;
+    net: number;
+    selfAmount: number;
+    otherTransfers: number;
+    bestIn: { amount: number; from: string };
+    bestOut: { amount: number; to: string };
+  };
+
+  const byMint = new Map<string, Acc>();
+
+  for (const t of tx.tokenTransfers) {
+    const token = getTokenByMint(t.mint, cluster);
+    if (!token) continue;
+
+    const amt = t.tokenAmount;
+    if (!Number.isFinite(amt) || amt <= 0) continue;
+
+    // Base58 is case-sensitive, so compare exactly
+    const from = t.fromUserAccount || t.fromTokenAccount;
+    const to = t.toUserAccount || t.toTokenAccount;
+    const isOut = from === wallet;
+    const isIn = to === wallet;
+    if (!isIn && !isOut) continue;
+
+    const mintKey = token.mint.toBase58();
+    let acc = byMint.get(mintKey);
+    if (!acc) {
+      acc = {
+        token,
+        net: 0,
+        selfAmount: 0,
+        otherTransfers: 0,
+        bestIn: { amount: 0, from: "" },
+        bestOut: { amount: 0, to: "" },
+      };
+      byMint.set(mintKey, acc);
+    }
+
+    if (isIn && isOut) {
+      acc.selfAmount += amt;
+      continue;
+    }
+
+    acc.otherTransfers += 1;
+    if (isIn) {
+      acc.net += amt;
+      if (amt > acc.bestIn.amount) acc.bestIn = { amount: amt, from };
+    } else {
+      acc.net -= amt;
+      if (amt > acc.bestOut.amount) acc.bestOut = { amount: amt, to };
+    }
+  }
+
+  const out: TokenNet[] = [];
+  for (const acc of byMint.values()) {
+    const net = roundTo(acc.net, acc.token.decimals);
+    const selfTransfer = acc.otherTransfers === 0 && acc.selfAmount > 0;
+
+    if (net === 0 && !selfTransfer) continue;
+
+    out.push({
+      token: acc.token,
+      net,
+      counterparty: selfTransfer ? wallet : net > 0 ? acc.bestIn.from : acc.bestOut.to,
+      selfTransfer,
+      selfAmount: roundTo(acc.selfAmount, acc.token.decimals),
+    });
+  }
+
+  return out;
+}
@@ -0,0 +1,238 @@
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  Transaction,
+  sendAndConfirmTransaction,
+} from "@solana/web3.js";
+import {
+  createMint,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  getOrCreateAssociatedTokenAccount,
+  mintTo,
+} from "@solana/spl-token";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { MEMO_PROGRAM_ID, USDC_MINT } from "./constants";
+import { createHistoryProvider, createRpcHistoryProvider } from "./historyProviders";
+import { createMemoInstruction } from "./memo";
+
+const WALLET = new PublicKey("AEew4ph6kXRa29f9fwqrUkAnYrV6ywhphyJ7zYcev9iM");
+const PAYER = "9cfHjzhe3EosTNNT5MkziTQVVEChtHBZfMWowXPqtDuR";
+const USDT_MINT = new PublicKey("Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB");
+
+function balance(owner: string, mint: PublicKey, amount: bigint) {
+  return {
+    accountIndex: 0,
+    mint: mint.toBase58(),
+    owner,
+    uiTokenAmount: { amount: amount.toString(), decimals: 6, uiAmount: null, uiAmountString: "" },
+  };
+}
+
+/** USDC moved payer -> wallet, with a memo */
+function parsedPayment(slot: number, base: bigint, memo: string | null) {
+  return {
+    slot,
+    blockTime: 1733400000 + slot,
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [],
+      postBalances: [],
+      innerInstructions: [],
+      preTokenBalances: [balance(PAYER, USDC_MINT, base), balance(WALLET.toBase58(), USDC_MINT, 0n)],
+      postTokenBalances: [balance(PAYER, USDC_MINT, 0n), balance(WALLET.toBase58(), USDC_MINT, base)],
+    },
+    transaction: {
+      signatures: [],
+      message: {
+        accountKeys: [],
+        recentBlockhash: "",
+        instructions: memo
+          ? [{ programId: MEMO_PROGRAM_ID, program: "spl-memo", parsed: memo }]
+          : [],
+      },
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+function sigInfo(signature: string, slot: number): ConfirmedSignatureInfo {
+  return { signature, slot, err: null, memo: null, blockTime: 1733400000 + slot };
+}
+
+/** Just the two calls the RPC provider makes, answered per token account */
+function fakeConnection(
+  byAta: Map<string, ConfirmedSignatureInfo[]>,
+  parsed: Map<string, ParsedTransactionWithMeta>
+) {
+  return {
+    getSignaturesForAddress: vi.fn(
+      async (ata: PublicKey, opts: { limit?: number; before?: string }) => {
+        let list = byAta.get(ata.toBase58()) ?? [];
+        if (opts.before) {
+          const i = list.findIndex((s) => s.signature === opts.before);
+          list = i === -1 ? [] : list.slice(i + 1);
+        }
+        return list.slice(0, opts.limit);
+      }
+    ),
+    getParsedTransactions: vi.fn(async (sigs: string[]) => sigs.map((s) => parsed.get(s) ?? null)),
+  };
+}
+
+function ataOf(mint: PublicKey) {
+  return getAssociatedTokenAddressSync(mint, WALLET).toBase58();
+}
+
+describe("createRpcHistoryProvider", () => {
+  it("merges every token account's signatures newest first and rebuilds transfers", async () => {
+    const conn = fakeConnection(
+      new Map([
+        [ataOf(USDC_MINT), [sigInfo("sig-c", 30), sigInfo("sig-a", 10)]],
+        // A tx touching both accounts must only show up once
+        [ataOf(USDT_MINT), [sigInfo("sig-b", 20), sigInfo("sig-a", 10)]],
+      ]),
+      new Map([
+        ["sig-c", parsedPayment(30, 2_500_000n, "INV-7")],
+        ["sig-a", parsedPayment(10, 1_000_000n, null)],
+      ])
+    );
+    const provider = createRpcHistoryProvider(conn as unknown as Connection);
+
+    const page = await provider.fetchPage({
+      address: WALLET.toBase58(),
+      cluster: "mainnet-beta",
+      limit: 10,
+    });
+
+    expect(page.map((t) => t.signature)).toEqual(["sig-c", "sig-b", "sig-a"]);
+    expect(page[0]).toEqual({
+      signature: "sig-c",
+      timestamp: 1733400030,
+      failed: false,
+      memo: "INV-7",
+      tokenTransfers: [
+        {
+          mint: USDC_MINT.toBase58(),
+          fromUserAccount: PAYER,
+          toUserAccount: WALLET.toBase58(),
+          fromTokenAccount: "",
+          toTokenAccount: "",
+          tokenAmount: 2.5,
+        },
+      ],
+    });
+    // Not returned by getParsedTransactions, but kept so the cursor advances
+    expect(page[1]).toMatchObject({ signature: "sig-b", tokenTransfers: [], memo: null });
+  });
+
+  it("pages with the before cursor and ends with an empty page", async () => {
+    const conn = fakeConnection(
+      new Map([[ataOf(USDC_MINT), [sigInfo("sig-c", 30), sigInfo("sig-a", 10)]]]),
+      new Map()
+    );
+    const provider = createRpcHistoryProvider(conn as unknown as Connection);
+    const params = { address: WALLET.toBase58(), cluster: "mainnet-beta" as const, limit: 1 };
+
+    const first = await provider.fetchPage(params);
+    const second = await provider.fetchPage({ ...params, before: first[0].signature });
+    const third = await provider.fetchPage({ ...params, before: second[0].signature });
+
+    expect([first, second].map((p) => p.map((t) => t.signature))).toEqual([["sig-c"], ["sig-a"]]);
+    expect(third).toEqual([]);
+    expect(conn.getParsedTransactions).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("createHistoryProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("falls back to RPC when the server has no Helius key", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => new Response("{}", { status: 503 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const conn = fakeConnection(
+      new Map([[ataOf(USDC_MINT), [sigInfo("sig-a", 10)]]]),
+      new Map([["sig-a", parsedPayment(10, 1_000_000n, null)]])
+    );
+    const provider = createHistoryProvider("mainnet-beta", conn as unknown as Connection);
+    expect(provider.id).toBe("helius");
+
+    const params = { address: WALLET.toBase58(), cluster: "mainnet-beta" as const, limit: 5 };
+    expect((await provider.fetchPage(params)).map((t) => t.signature)).toEqual(["sig-a"]);
+    expect(provider.id).toBe("rpc");
+
+    // Later pages go straight to RPC
+    await provider.fetchPage(params);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+// Needs a running `solana-test-validator`, e.g.
+// SOLANA_TEST_VALIDATOR_URL=http://127.0.0.1:8899 npm test
+const VALIDATOR_URL = process.env.SOLANA_TEST_VALIDATOR_URL?.trim();
+
+describe.skipIf(!VALIDATOR_URL)("RPC history on solana-test-validator", () => {
+  it("finds a memo'd USDC payment to the wallet", { timeout: 120_000 }, async () => {
+    const connection = new Connection(VALIDATOR_URL!, "confirmed");
+    const payer = Keypair.generate();
+    const recipient = Keypair.generate();
+
+    const airdrop = await connection.requestAirdrop(payer.publicKey, 2 * LAMPORTS_PER_SOL);
+    const latest = await connection.getLatestBlockhash();
+    await connection.confirmTransaction({ signature: airdrop, ...latest }, "confirmed");
+
+    const mint = await createMint(connection, payer, payer.publicKey, null, 6);
+    const from = await getOrCreateAssociatedTokenAccount(connection, payer, mint, payer.publicKey);
+    const to = await getOrCreateAssociatedTokenAccount(connection, payer, mint, recipient.publicKey);
+    await mintTo(connection, payer, mint, from.address, payer, 10_000_000);
+
+    const signature = await sendAndConfirmTransaction(
+      connection,
+      new Transaction().add(
+        createMemoInstruction("INV-LOCAL", payer.publicKey),
+        createTransferCheckedInstruction(from.address, mint, to.address, payer.publicKey, 4_250_000, 6)
+      ),
+      [payer],
+      { commitment: "confirmed" }
+    );
+
+    // The localnet token registry reads its mint at import time
+    vi.stubEnv("NEXT_PUBLIC_LOCALNET_USDC_MINT", mint.toBase58());
+    vi.resetModules();
+    try {
+      const { createRpcHistoryProvider: create } = await import("./historyProviders");
+      const page = await create(connection).fetchPage({
+        address: recipient.publicKey.toBase58(),
+        cluster: "localnet",
+        limit: 10,
+      });
+
+      expect(page).toHaveLength(2);
+      expect(page[0]).toMatchObject({
+        signature,
+        failed: false,
+        memo: "INV-LOCAL",
+        tokenTransfers: [
+          {
+            mint: mint.toBase58(),
+            fromUserAccount: payer.publicKey.toBase58(),
+            toUserAccount: recipient.publicKey.toBase58(),
+            tokenAmount: 4.25,
+          },
+        ],
+      });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
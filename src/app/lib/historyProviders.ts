@@ -0,0 +1,199 @@
+// src/app/lib/historyProviders.ts
+import { ConfirmedSignatureInfo, ParsedTransactionWithMeta, PublicKey } from "@solana/web3.js";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+
+import type { ClusterId } from "./cluster";
+import {
+  HistoryTokenTransfer,
+  HistoryTx,
+  HistoryUnavailableError,
+  heliusAddressTransactions,
+} from "./helius";
+import { extractParsedMemo } from "./memo";
+import { baseToUi, ownerDeltas } from "./paymentWatch";
+import { RpcLike, withRpc } from "./rpc";
+import { getTokens } from "./tokens";
+
+export type HistoryPageParams = {
+  address: string;
+  cluster: ClusterId;
+  limit: number;
+  /** Only transactions older than this signature */
+  before?: string;
+};
+
+/**
+ * A source of wallet history, newest first, paged with a `before` signature cursor.
+ * Returning an empty page means there is nothing older.
+ */
+export type HistoryProvider = {
+  id: "helius" | "rpc";
+  label: string;
+  fetchPage: (params: HistoryPageParams) => Promise<HistoryTx[]>;
+};
+
+// --------------------
+// HELIUS (via /api/history)
+// --------------------
+export const heliusHistoryProvider: HistoryProvider = {
+  id: "helius",
+  label: "Helius",
+  fetchPage: ({ address, cluster, limit, before }) =>
+    heliusAddressTransactions(address, { cluster, limit, before }),
+};
+
+// --------------------
+// PURE RPC (works on any cluster, including solana-test-validator)
+// --------------------
+// Public RPCs reject large getParsedTransactions batches
+const PARSED_TX_CHUNK = 25;
+
+/**
+ * Rebuild token transfers from pre/post balances: for every registry mint,
+ * pair the wallet's delta with the owner that moved the most the other way.
+ */
+export function parsedTxToHistoryTx(
+  tx: ParsedTransactionWithMeta,
+  signature: string,
+  wallet: string,
+  cluster: ClusterId
+): HistoryTx {
+  const tokenTransfers: HistoryTokenTransfer[] = [];
+
+  for (const token of getTokens(cluster)) {
+    const deltas = ownerDeltas(
+      tx.meta?.preTokenBalances,
+      tx.meta?.postTokenBalances,
+      token.mint.toBase58()
+    );
+
+    const mine = deltas.get(wallet) ?? BigInt(0);
+    if (mine === BigInt(0)) continue;
+
+    let counterparty = "";
+    let best = BigInt(0);
+    for (const [owner, d] of deltas) {
+      if (owner === wallet) continue;
+      const moved = mine > BigInt(0) ? -d : d;
+      if (moved > best) {
+        best = moved;
+        counterparty = owner;
+      }
+    }
+
+    const abs = mine > BigInt(0) ? mine : -mine;
+    const incoming = mine > BigInt(0);
+
+    tokenTransfers.push({
+      mint: token.mint.toBase58(),
+      fromUserAccount: incoming ? counterparty : wallet,
+      toUserAccount: incoming ? wallet : counterparty,
+      fromTokenAccount: "",
+      toTokenAccount: "",
+      tokenAmount: Number(baseToUi(abs, token.decimals)),
+    });
+  }
+
+  return {
+    signature,
+    timestamp: tx.blockTime ?? null,
+    failed: Boolean(tx.meta?.err),
+    memo: extractParsedMemo(tx),
+    tokenTransfers,
+  };
+}
+
+/**
+ * getSignaturesForAddress on the wallet's ATA for each registry token, merged by slot,
+ * then getParsedTransactions to rebuild the same shape Helius returns.
+ */
+export function createRpcHistoryProvider(rpc: RpcLike): HistoryProvider {
+  return {
+    id: "rpc",
+    label: "RPC",
+    fetchPage: async ({ address, cluster, limit, before }) => {
+      const owner = new PublicKey(address);
+      const atas = getTokens(cluster).map((t) =>
+        getAssociatedTokenAddressSync(t.mint, owner, false, t.programId)
+      );
+
+      const lists = await Promise.all(
+        atas.map((ata) =>
+          withRpc(rpc, (c) => c.getSignaturesForAddress(ata, { limit, before }, "confirmed"))
+        )
+      );
+
+      const bySig = new Map<string, ConfirmedSignatureInfo>();
+      for (const info of lists.flat()) bySig.set(info.signature, info);
+
+      const page = [...bySig.values()]
+        .sort((a, b) => b.slot - a.slot)
+        .slice(0, limit);
+      if (page.length === 0) return [];
+
+      const sigs = page.map((p) => p.signature);
+      const parsed: (ParsedTransactionWithMeta | null)[] = [];
+      for (let i = 0; i < sigs.length; i += PARSED_TX_CHUNK) {
+        const chunk = sigs.slice(i, i + PARSED_TX_CHUNK);
+        parsed.push(
+          ...(await withRpc(rpc, (c) =>
+            c.getParsedTransactions(chunk, {
+              commitment: "confirmed",
+              maxSupportedTransactionVersion: 0,
+            })
+          ))
+        );
+      }
+
+      return page.map((info, i) => {
+        const tx = parsed[i];
+        // Keep unparseable entries so the pagination cursor still advances
+        if (!tx) {
+          return {
+            signature: info.signature,
+            timestamp: info.blockTime ?? null,
+            failed: Boolean(info.err),
+            memo: null,
+            tokenTransfers: [],
+          };
+        }
+        return parsedTxToHistoryTx(tx, info.signature, address, cluster);
+      });
+    },
+  };
+}
+
+// --------------------
+// AUTO: Helius when the server has a key, RPC otherwise
+// --------------------
+// Remembered for the session so we don't probe the proxy on every page
+const heliusUnavailable = new Set<ClusterId>();
+
+export function createHistoryProvider(cluster: ClusterId, rpc: RpcLike): HistoryProvider {
+  const rpcProvider = createRpcHistoryProvider(rpc);
+
+  // Helius doesn't index localnet
+  if (cluster === "localnet") return rpcProvider;
+
+  const usingRpc = () => heliusUnavailable.has(cluster);
+
+  return {
+    get id() {
+      return usingRpc() ? rpcProvider.id : heliusHistoryProvider.id;
+    },
+    get label() {
+      return usingRpc() ? rpcProvider.label : heliusHistoryProvider.label;
+    },
+    fetchPage: async (params) => {
+      if (heliusUnavailable.has(params.cluster)) return rpcProvider.fetchPage(params);
+      try {
+        return await heliusHistoryProvider.fetchPage(params);
+      } catch (e) {
+        if (!(e instanceof HistoryUnavailableError)) throw e;
+        console.warn("Helius history unavailable, falling back to RPC:", e.message);
+        heliusUnavailable.add(params.cluster);
+        return rpcProvider.fetchPage(params);
+      }
+    },
+  };
+}
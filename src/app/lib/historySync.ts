@@ -0,0 +1,182 @@
+// src/app/lib/historySync.ts
+import type { ClusterId } from "./cluster";
+import type { HistoryTx } from "./helius";
+import type { HistoryProvider } from "./historyProviders";
+
+/**
+ * Per-wallet history import progress.
+ * `newestSig` bounds incremental syncs; `oldestSig` is the cursor for "Load older".
+ */
+export type HistorySyncState = {
+  newestSig: string | null;
+  oldestSig: string | null;
+  /** True once a page came back empty going backwards */
+  reachedEnd: boolean;
+  importedCount: number;
+  lastSyncedAt: number | null;
+};
+
+const SYNC_STATE_KEY = "uz_history_sync_v1";
+
+export const HISTORY_PAGE_SIZE = 100;
+// Caps one incremental run so a long-idle wallet can't hammer the proxy
+const MAX_INCREMENTAL_PAGES = 10;
+
+export const EMPTY_SYNC_STATE: HistorySyncState = {
+  newestSig: null,
+  oldestSig: null,
+  reachedEnd: false,
+  importedCount: 0,
+  lastSyncedAt: null,
+};
+
+function syncStateId(cluster: ClusterId, wallet: string) {
+  return `${cluster}:${wallet}`;
+}
+
+function loadAllSyncState(): Record<string, HistorySyncState> {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(SYNC_STATE_KEY) ?? "{}");
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+
+    const out: Record<string, HistorySyncState> = {};
+    for (const [k, v] of Object.entries(parsed)) {
+      const s = v as Record<string, unknown> | null;
+      if (!s) continue;
+      out[k] = {
+        newestSig: typeof s.newestSig === "string" ? s.newestSig : null,
+        oldestSig: typeof s.oldestSig === "string" ? s.oldestSig : null,
+        reachedEnd: s.reachedEnd === true,
+        importedCount: typeof s.importedCount === "number" ? s.importedCount : 0,
+        lastSyncedAt: typeof s.lastSyncedAt === "number" ? s.lastSyncedAt : null,
+      };
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+function saveAllSyncState(next: Record<string, HistorySyncState>) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(next));
+  } catch {}
+}
+
+export function loadSyncState(cluster: ClusterId, wallet: string): HistorySyncState {
+  return loadAllSyncState()[syncStateId(cluster, wallet)] ?? EMPTY_SYNC_STATE;
+}
+
+export function saveSyncState(cluster: ClusterId, wallet: string, next: HistorySyncState) {
+  const all = loadAllSyncState();
+  all[syncStateId(cluster, wallet)] = next;
+  saveAllSyncState(all);
+}
+
+/** Forget a wallet's progress on a cluster (e.g. after clearing its receipts). */
+export function clearSyncState(cluster: ClusterId, wallet: string) {
+  const all = loadAllSyncState();
+  delete all[syncStateId(cluster, wallet)];
+  saveAllSyncState(all);
+}
+
+/**
+ * Pull everything newer than `state.newestSig`, newest first, walking back with
+ * the `before` cursor. On a first sync this imports a single page; older pages
+ * come from `fetchOlderHistory`.
+ */
+export async function fetchNewHistory(params: {
+  provider: HistoryProvider;
+  address: string;
+  cluster: ClusterId;
+  state: HistorySyncState;
+}): Promise<{ txs: HistoryTx[]; state: HistorySyncState }> {
+  const { provider, address, cluster, state } = params;
+  const firstSync = !state.newestSig;
+
+  const txs: HistoryTx[] = [];
+  let before: string | undefined;
+  let hitKnown = false;
+  let hitEnd = false;
+
+  for (let page = 0; page < MAX_INCREMENTAL_PAGES; page++) {
+    const batch = await provider.fetchPage({
+      address,
+      cluster,
+      limit: HISTORY_PAGE_SIZE,
+      before,
+    });
+    if (batch.length === 0) {
+      hitEnd = true;
+      break;
+    }
+
+    for (const tx of batch) {
+      if (tx.signature === state.newestSig) {
+        hitKnown = true;
+        break;
+      }
+      txs.push(tx);
+    }
+
+    if (hitKnown || firstSync) break;
+    before = batch[batch.length - 1].signature;
+  }
+
+  if (txs.length === 0) {
+    return { txs, state: { ...state, lastSyncedAt: Date.now() } };
+  }
+
+  // If the page cap cut us off before reaching known history there is a gap;
+  // fall back to treating this run as a fresh start so "Load older" fills it.
+  const gap = !firstSync && !hitKnown && !hitEnd;
+
+  return {
+    txs,
+    state: {
+      newestSig: txs[0].signature,
+      oldestSig:
+        firstSync || gap ? txs[txs.length - 1].signature : state.oldestSig,
+      reachedEnd: firstSync || gap ? false : state.reachedEnd,
+      importedCount: state.importedCount + txs.length,
+      lastSyncedAt: Date.now(),
+    },
+  };
+}
+
+/**
+ * One page older than `state.oldestSig`.
+ */
+export async function fetchOlderHistory(params: {
+  provider: HistoryProvider;
+  address: string;
+  cluster: ClusterId;
+  state: HistorySyncState;
+}): Promise<{ txs: HistoryTx[]; state: HistorySyncState }> {
+  const { provider, address, cluster, state } = params;
+  if (state.reachedEnd) return { txs: [], state };
+
+  const txs = await provider.fetchPage({
+    address,
+    cluster,
+    limit: HISTORY_PAGE_SIZE,
+    before: state.oldestSig ?? undefined,
+  });
+
+  if (txs.length === 0) {
+    return { txs, state: { ...state, reachedEnd: true, lastSyncedAt: Date.now() } };
+  }
+
+  return {
+    txs,
+    state: {
+      newestSig: state.newestSig ?? txs[0].signature,
+      oldestSig: txs[txs.length - 1].signature,
+      reachedEnd: false,
+      importedCount: state.importedCount + txs.length,
+      lastSyncedAt: Date.now(),
+    },
+  };
+}
@@ -0,0 +1,123 @@
+// src/app/lib/incomingWatch.ts
+import { AccountInfo, Commitment, Connection, PublicKey } from "@solana/web3.js";
+import { ACCOUNT_SIZE, AccountLayout, getAssociatedTokenAddressSync } from "@solana/spl-token";
+
+import { baseToUi } from "./paymentWatch";
+import { TokenInfo } from "./tokens";
+
+export type IncomingWatchStatus = "connecting" | "live" | "reconnecting";
+
+const COMMITMENT: Commitment = "confirmed";
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30_000;
+
+function tokenAmount(info: AccountInfo<Buffer> | null): bigint {
+  if (!info || info.data.length < ACCOUNT_SIZE) return BigInt(0);
+  return AccountLayout.decode(info.data.subarray(0, ACCOUNT_SIZE)).amount;
+}
+
+/**
+ * Subscribe to the owner's ATA for each token and report balance increases.
+ * A heartbeat re-reads the accounts so a dropped socket can't hide a payment,
+ * and any RPC failure tears the connection down and reconnects with backoff.
+ * Returns a stop function.
+ */
+export function watchIncomingPayments(params: {
+  endpoint: string;
+  owner: PublicKey;
+  tokens: readonly TokenInfo[];
+  onIncoming: (token: TokenInfo, amountUi: string) => void;
+  onStatus?: (status: IncomingWatchStatus) => void;
+  onError?: (e: unknown) => void;
+  heartbeatMs?: number;
+}): () => void {
+  const { endpoint, owner, tokens, onIncoming, onStatus, onError } = params;
+  const heartbeatMs = params.heartbeatMs ?? 20_000;
+
+  const atas = tokens.map((t) =>
+    getAssociatedTokenAddressSync(t.mint, owner, false, t.programId)
+  );
+  // null until the first read, so existing balances aren't reported as payments
+  const last: (bigint | null)[] = tokens.map(() => null);
+
+  let stopped = false;
+  let attempt = 0;
+  let connection: Connection | null = null;
+  let subIds: number[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const observe = (i: number, amount: bigint) => {
+    const prev = last[i];
+    last[i] = amount;
+    if (prev === null || amount <= prev || stopped) return;
+    onIncoming(tokens[i], baseToUi(amount - prev, tokens[i].decimals));
+  };
+
+  const teardown = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const c = connection;
+    if (c) {
+      for (const id of subIds) c.removeAccountChangeListener(id).catch(() => {});
+    }
+    subIds = [];
+    connection = null;
+  };
+
+  const scheduleReconnect = () => {
+    teardown();
+    if (stopped) return;
+    onStatus?.("reconnecting");
+    const delay = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+    attempt += 1;
+    timer = setTimeout(connect, delay);
+  };
+
+  const heartbeat = async () => {
+    const c = connection;
+    if (stopped || !c) return;
+    try {
+      const infos = await c.getMultipleAccountsInfo(atas, COMMITMENT);
+      if (stopped || c !== connection) return;
+      infos.forEach((info, i) => observe(i, tokenAmount(info)));
+      attempt = 0;
+      timer = setTimeout(heartbeat, heartbeatMs);
+    } catch (e) {
+      onError?.(e);
+      scheduleReconnect();
+    }
+  };
+
+  async function connect() {
+    if (stopped) return;
+    onStatus?.(attempt === 0 ? "connecting" : "reconnecting");
+
+    const c = new Connection(endpoint, COMMITMENT);
+    connection = c;
+
+    try {
+      subIds = atas.map((ata, i) =>
+        c.onAccountChange(ata, (info) => observe(i, tokenAmount(info)), COMMITMENT)
+      );
+
+      // Baseline (first connect) or catch-up (after a reconnect)
+      const infos = await c.getMultipleAccountsInfo(atas, COMMITMENT);
+      if (stopped || c !== connection) return;
+      infos.forEach((info, i) => observe(i, tokenAmount(info)));
+
+      attempt = 0;
+      onStatus?.("live");
+      timer = setTimeout(heartbeat, heartbeatMs);
+    } catch (e) {
+      onError?.(e);
+      scheduleReconnect();
+    }
+  }
+
+  connect();
+
+  return () => {
+    stopped = true;
+    teardown();
+  };
+}
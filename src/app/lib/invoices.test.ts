@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  Invoice,
+  InvoiceReceipt,
+  decodeSharedInvoice,
+  findInvoicePayment,
+  invoiceShareUrl,
+  invoiceTotals,
+  lineItemTotalUi,
+  validateLineItem,
+} from "./invoices";
+import { DEFAULT_TOKEN } from "./tokens";
+
+const PAYEE = "AEew4ph6kXRa29f9fwqrUkAnYrV6ywhphyJ7zYcev9iM";
+const CLIENT = "XGWCVbGGV5oXS4KSf1CsU6ZQzW2ZWeDL7fabKT3v2gH";
+const REFERENCE = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin";
+
+function invoice(over: Partial<Invoice> = {}): Invoice {
+  return {
+    id: "inv-1",
+    number: "INV-0001",
+    createdAt: 1_000,
+    cluster: "mainnet-beta",
+    payee: PAYEE,
+    payeeName: "Studio",
+    payerName: "Client",
+    payerAddress: CLIENT,
+    tokenSymbol: "USDC",
+    lineItems: [
+      { description: "Design", quantity: "1.5", unitPriceUi: "33.333333" },
+      { description: "Stickers", quantity: "2", unitPriceUi: "0.1" },
+    ],
+    taxRatePct: "8.875",
+    dueDate: "2026-11-01",
+    notes: "",
+    reference: REFERENCE,
+    status: "sent",
+    paidSig: null,
+    paidAt: null,
+    ...over,
+  };
+}
+
+function received(over: Partial<InvoiceReceipt>): InvoiceReceipt {
+  return {
+    sig: "sig",
+    createdAt: 2_000,
+    status: "confirmed",
+    direction: "received",
+    amountUi: "54.65525",
+    tokenSymbol: "USDC",
+    from: CLIENT,
+    to: PAYEE,
+    ...over,
+  };
+}
+
+describe("invoiceTotals", () => {
+  it("rounds each line to base units and taxes the subtotal", () => {
+    expect(lineItemTotalUi(invoice().lineItems[0], DEFAULT_TOKEN)).toBe("50");
+    expect(invoiceTotals(invoice(), DEFAULT_TOKEN)).toEqual({
+      subtotalUi: "50.2",
+      taxUi: "4.45525",
+      totalUi: "54.65525",
+    });
+  });
+
+  it("treats a blank tax rate as none", () => {
+    expect(invoiceTotals(invoice({ taxRatePct: "" }), DEFAULT_TOKEN).totalUi).toBe("50.2");
+  });
+});
+
+describe("validateLineItem", () => {
+  it("limits quantity and price decimals", () => {
+    const item = { description: "Hours", quantity: "1.25", unitPriceUi: "10" };
+    expect(validateLineItem(item, DEFAULT_TOKEN)).toBeNull();
+    expect(validateLineItem({ ...item, quantity: "1.255" }, DEFAULT_TOKEN)).toBe(
+      "Max 2 decimals for quantity"
+    );
+    expect(validateLineItem({ ...item, unitPriceUi: "0.0000001" }, DEFAULT_TOKEN)).toBe(
+      "Max 6 decimals for USDC"
+    );
+    expect(validateLineItem({ ...item, description: " " }, DEFAULT_TOKEN)).toBe(
+      "Description is required"
+    );
+  });
+});
+
+describe("findInvoicePayment", () => {
+  it("matches the reference from any payer, else the full amount from the payer", () => {
+    const byRef = received({ sig: "ref", from: PAYEE, amountUi: "1", reference: REFERENCE });
+    expect(findInvoicePayment(invoice(), [byRef], DEFAULT_TOKEN)?.sig).toBe("ref");
+    expect(findInvoicePayment(invoice(), [received({ sig: "addr" })], DEFAULT_TOKEN)?.sig).toBe(
+      "addr"
+    );
+  });
+
+  it("ignores short, early or unaddressed payments without the reference", () => {
+    const misses = [received({ amountUi: "54.65" }), received({ createdAt: 999 })];
+    expect(findInvoicePayment(invoice(), misses, DEFAULT_TOKEN)).toBeNull();
+    expect(
+      findInvoicePayment(invoice({ payerAddress: "" }), [received({})], DEFAULT_TOKEN)
+    ).toBeNull();
+  });
+});
+
+describe("shared invoice links", () => {
+  it("round-trips the invoice without its local payment status", () => {
+    const paid = invoice({ status: "paid", paidSig: "sig", paidAt: 3_000, notes: "Merci — ✓" });
+    const data = new URL(invoiceShareUrl(paid, "https://utilizap.test")).searchParams.get("d");
+
+    expect(decodeSharedInvoice("inv-1", data)).toEqual({
+      ...paid,
+      status: "sent",
+      paidSig: null,
+      paidAt: null,
+    });
+    expect(decodeSharedInvoice("inv-2", data)).toBeNull();
+    expect(decodeSharedInvoice("inv-1", "not-json")).toBeNull();
+  });
+});
@@ -0,0 +1,337 @@
+// src/app/lib/invoices.ts
+import { ClusterId, isClusterId } from "./cluster";
+import { baseToUi } from "./paymentWatch";
+import { createReference } from "./solanaPay";
+import { DEFAULT_TOKEN, TokenInfo, TokenSymbol, isTokenSymbol } from "./tokens";
+import { isValidSolanaAddress, uiToBaseUnits } from "./transfer";
+
+export type InvoiceLineItem = {
+  description: string;
+  /** Up to 2 decimals (e.g. 1.5 hours) */
+  quantity: string;
+  unitPriceUi: string;
+};
+
+export type InvoiceStatus = "draft" | "sent" | "paid";
+
+export type Invoice = {
+  id: string;
+  number: string;
+  createdAt: number;
+  cluster: ClusterId;
+  /** Wallet the invoice is paid to (the issuer) */
+  payee: string;
+  payeeName: string;
+  payerName: string;
+  /** Optional; lets a payment without the reference still be matched */
+  payerAddress: string;
+  tokenSymbol: TokenSymbol;
+  lineItems: InvoiceLineItem[];
+  /** Percent, up to 3 decimals */
+  taxRatePct: string;
+  /** "YYYY-MM-DD" */
+  dueDate: string;
+  notes: string;
+  /** Solana Pay reference key the payment must carry */
+  reference: string;
+  status: InvoiceStatus;
+  paidSig: string | null;
+  paidAt: number | null;
+};
+
+export type InvoiceTotals = { subtotalUi: string; taxUi: string; totalUi: string };
+
+/** The receipt fields matching needs (structurally a subset of the page's TxReceipt) */
+export type InvoiceReceipt = {
+  sig: string | null;
+  createdAt: number;
+  status: string;
+  direction: "sent" | "received";
+  amountUi: string;
+  tokenSymbol: string;
+  from: string;
+  to: string;
+  reference?: string;
+};
+
+const INVOICES_KEY = "uz_invoices_v1";
+
+const QTY_DECIMALS = 2;
+const TAX_DECIMALS = 3;
+const AMOUNT_RE = /^\d+(\.\d+)?$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isLineItem(v: unknown): v is InvoiceLineItem {
+  const l = v as Record<string, unknown> | null;
+  return (
+    !!l &&
+    typeof l.description === "string" &&
+    typeof l.quantity === "string" &&
+    typeof l.unitPriceUi === "string"
+  );
+}
+
+// Shared by local storage and shared links: the fields every invoice must have
+function parseInvoiceFields(v: Record<string, unknown>) {
+  if (
+    typeof v.id !== "string" ||
+    typeof v.number !== "string" ||
+    !isClusterId(v.cluster) ||
+    typeof v.payee !== "string" ||
+    !isValidSolanaAddress(v.payee) ||
+    !isTokenSymbol(v.tokenSymbol) ||
+    !Array.isArray(v.lineItems) ||
+    typeof v.reference !== "string" ||
+    !isValidSolanaAddress(v.reference)
+  ) {
+    return null;
+  }
+
+  return {
+    id: v.id,
+    number: v.number,
+    createdAt: typeof v.createdAt === "number" ? v.createdAt : Date.now(),
+    cluster: v.cluster,
+    payee: v.payee,
+    payeeName: typeof v.payeeName === "string" ? v.payeeName : "",
+    payerName: typeof v.payerName === "string" ? v.payerName : "",
+    payerAddress: typeof v.payerAddress === "string" ? v.payerAddress : "",
+    tokenSymbol: v.tokenSymbol,
+    lineItems: v.lineItems.filter(isLineItem).map((l) => ({
+      description: l.description,
+      quantity: l.quantity,
+      unitPriceUi: l.unitPriceUi,
+    })),
+    taxRatePct: typeof v.taxRatePct === "string" ? v.taxRatePct : "0",
+    dueDate: typeof v.dueDate === "string" && DATE_RE.test(v.dueDate) ? v.dueDate : "",
+    notes: typeof v.notes === "string" ? v.notes : "",
+    reference: v.reference,
+  };
+}
+
+function loadAllInvoices(): Invoice[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(INVOICES_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) return [];
+
+    const out: Invoice[] = [];
+    for (const raw of parsed) {
+      const fields = raw && typeof raw === "object" ? parseInvoiceFields(raw) : null;
+      if (!fields) continue;
+      out.push({
+        ...fields,
+        status: raw.status === "sent" || raw.status === "paid" ? raw.status : "draft",
+        paidSig: typeof raw.paidSig === "string" ? raw.paidSig : null,
+        paidAt: typeof raw.paidAt === "number" ? raw.paidAt : null,
+      });
+    }
+    return out;
+  } catch {
+    return [];
+  }
+}
+
+function saveAllInvoices(next: Invoice[]) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(INVOICES_KEY, JSON.stringify(next));
+  } catch {}
+}
+
+/** Invoices issued by `payee` on `cluster`, newest first */
+export function loadInvoices(cluster: ClusterId, payee: string): Invoice[] {
+  return loadAllInvoices()
+    .filter((i) => i.cluster === cluster && i.payee === payee)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Any locally stored invoice (the issuer opening their own /invoice/[id]) */
+export function getInvoice(id: string): Invoice | null {
+  return loadAllInvoices().find((i) => i.id === id) ?? null;
+}
+
+export function upsertInvoice(next: Invoice) {
+  saveAllInvoices([next, ...loadAllInvoices().filter((i) => i.id !== next.id)]);
+}
+
+export function deleteInvoice(id: string) {
+  saveAllInvoices(loadAllInvoices().filter((i) => i.id !== id));
+}
+
+/** INV-0001, INV-0002… per issuing wallet */
+export function nextInvoiceNumber(cluster: ClusterId, payee: string): string {
+  const max = loadInvoices(cluster, payee).reduce((m, i) => {
+    const n = Number(/(\d+)$/.exec(i.number)?.[1] ?? 0);
+    return Math.max(m, n);
+  }, 0);
+  return `INV-${String(max + 1).padStart(4, "0")}`;
+}
+
+export function newInvoiceReference(): string {
+  return createReference().toBase58();
+}
+
+// --------------------
+// Totals (base units, so line items and tax never drift by a cent)
+// --------------------
+
+/** Returns a message for an invalid line item, or null */
+export function validateLineItem(item: InvoiceLineItem, token: TokenInfo): string | null {
+  if (!item.description.trim()) return "Description is required";
+  if (!AMOUNT_RE.test(item.quantity) || Number(item.quantity) <= 0) return "Invalid quantity";
+  if ((item.quantity.split(".")[1] ?? "").length > QTY_DECIMALS) {
+    return `Max ${QTY_DECIMALS} decimals for quantity`;
+  }
+  if (!AMOUNT_RE.test(item.unitPriceUi)) return "Invalid price";
+  if ((item.unitPriceUi.split(".")[1] ?? "").length > token.decimals) {
+    return `Max ${token.decimals} decimals for ${token.symbol}`;
+  }
+  return null;
+}
+
+function divRound(n: bigint, d: bigint): bigint {
+  return (n * BigInt(2) + d) / (d * BigInt(2));
+}
+
+function lineBase(item: InvoiceLineItem, decimals: number): bigint {
+  try {
+    const qty = uiToBaseUnits(item.quantity, QTY_DECIMALS);
+    const unit = uiToBaseUnits(item.unitPriceUi, decimals);
+    return divRound(qty * unit, BigInt(10 ** QTY_DECIMALS));
+  } catch {
+    return BigInt(0);
+  }
+}
+
+export function lineItemTotalUi(item: InvoiceLineItem, token: TokenInfo): string {
+  return baseToUi(lineBase(item, token.decimals), token.decimals);
+}
+
+export function invoiceTotals(
+  invoice: Pick<Invoice, "lineItems" | "taxRatePct">,
+  token: TokenInfo
+): InvoiceTotals {
+  const subtotal = invoice.lineItems.reduce(
+    (sum, l) => sum + lineBase(l, token.decimals),
+    BigInt(0)
+  );
+
+  let tax = BigInt(0);
+  try {
+    const rate = uiToBaseUnits(invoice.taxRatePct || "0", TAX_DECIMALS);
+    tax = divRound(subtotal * rate, BigInt(100 * 10 ** TAX_DECIMALS));
+  } catch {}
+
+  return {
+    subtotalUi: baseToUi(subtotal, token.decimals),
+    taxUi: baseToUi(tax, token.decimals),
+    totalUi: baseToUi(subtotal + tax, token.decimals),
+  };
+}
+
+// --------------------
+// Payment matching
+// --------------------
+
+/**
+ * The received receipt that pays `invoice`: one carrying its reference, or else a
+ * confirmed payment of at least the total from the payer's address after it was issued.
+ */
+export function findInvoicePayment(
+  invoice: Invoice,
+  receipts: InvoiceReceipt[],
+  token: TokenInfo
+): InvoiceReceipt | null {
+  const total = Number(invoiceTotals(invoice, token).totalUi);
+  const incoming = receipts.filter(
+    (r) =>
+      r.direction === "received" &&
+      r.status === "confirmed" &&
+      r.tokenSymbol === invoice.tokenSymbol &&
+      r.to === invoice.payee
+  );
+
+  return (
+    incoming.find((r) => r.reference === invoice.reference) ??
+    (invoice.payerAddress
+      ? incoming.find(
+          (r) =>
+            r.from === invoice.payerAddress &&
+            r.createdAt >= invoice.createdAt &&
+            Number(r.amountUi) >= total
+        )
+      : undefined) ??
+    null
+  );
+}
+
+/** Mark unpaid invoices paid where `receipts` settle them. Returns how many changed. */
+export function settleInvoices(
+  cluster: ClusterId,
+  payee: string,
+  receipts: InvoiceReceipt[],
+  tokenFor: (symbol: TokenSymbol) => TokenInfo | null
+): number {
+  let changed = 0;
+  for (const inv of loadInvoices(cluster, payee)) {
+    if (inv.status === "paid") continue;
+    const token = tokenFor(inv.tokenSymbol);
+    if (!token) continue;
+
+    const r = findInvoicePayment(inv, receipts, token);
+    if (!r) continue;
+
+    upsertInvoice({ ...inv, status: "paid", paidSig: r.sig, paidAt: r.createdAt });
+    changed++;
+  }
+  return changed;
+}
+
+// --------------------
+// Sharing (the invoice travels in the link; nothing is stored server-side)
+// --------------------
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(data: string): string {
+  const b64 = data.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+}
+
+/** `/invoice/[id]?d=…` with the invoice (minus local-only status) encoded in the link */
+export function invoiceShareUrl(invoice: Invoice, origin: string): string {
+  // undefined fields drop out of the JSON
+  const shared = { ...invoice, status: undefined, paidSig: undefined, paidAt: undefined };
+  return `${origin}/invoice/${encodeURIComponent(invoice.id)}?d=${toBase64Url(JSON.stringify(shared))}`;
+}
+
+/** Decode a shared invoice; null if the data is missing, malformed or for another id */
+export function decodeSharedInvoice(id: string, data: string | null): Invoice | null {
+  if (!data) return null;
+  try {
+    const parsed = JSON.parse(fromBase64Url(data));
+    const fields = parsed && typeof parsed === "object" ? parseInvoiceFields(parsed) : null;
+    if (!fields || fields.id !== id) return null;
+    return { ...fields, status: "sent", paidSig: null, paidAt: null };
+  } catch {
+    return null;
+  }
+}
+
+/** UTILIZAP link that opens the send form prefilled to pay `invoice` */
+export function invoicePayLink(invoice: Invoice, token: TokenInfo, origin = ""): string {
+  const params = new URLSearchParams();
+  params.set("to", invoice.payee);
+  params.set("amount", invoiceTotals(invoice, token).totalUi);
+  params.set("note", `Invoice ${invoice.number}`);
+  params.set("reference", invoice.reference);
+  params.set("label", invoice.payeeName || `Invoice ${invoice.number}`);
+  if (token.symbol !== DEFAULT_TOKEN.symbol) params.set("token", token.symbol);
+  return `${origin}/?${params.toString()}`;
+}
@@ -0,0 +1,35 @@
+import bs58 from "bs58";
+import { describe, expect, it } from "vitest";
+
+import { MEMO_PROGRAM_ID } from "./constants";
+import { MEMO_MAX_BYTES, extractHeliusMemo, memoByteLength } from "./memo";
+
+// A Helius enhanced tx carrying `memo` as its only instruction
+const heliusTx = (memo: string) => ({
+  instructions: [
+    {
+      programId: MEMO_PROGRAM_ID.toBase58(),
+      data: bs58.encode(new TextEncoder().encode(memo)),
+    },
+  ],
+});
+
+describe("extractHeliusMemo", () => {
+  it("returns short memos as they are", () => {
+    expect(extractHeliusMemo(heliusTx("  rent for March "))).toBe("rent for March");
+  });
+
+  it("caps long memos by UTF-8 bytes, not characters", () => {
+    // "é" is 2 bytes: 100 of them are 200 bytes but only 100 UTF-16 units
+    const memo = extractHeliusMemo(heliusTx("é".repeat(100)))!;
+    expect(memo).toBe("é".repeat(70));
+    expect(memoByteLength(memo)).toBe(MEMO_MAX_BYTES);
+  });
+
+  it("never splits a character across the cap", () => {
+    // 139 ASCII bytes leave room for 1 more, not the 4-byte emoji
+    const memo = extractHeliusMemo(heliusTx(`${"a".repeat(139)}😀b`))!;
+    expect(memo).toBe("a".repeat(139));
+    expect(memo).not.toMatch(/[\uD800-\uDFFF]/);
+  });
+});
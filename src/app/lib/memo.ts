@@ -0,0 +1,120 @@
+// src/app/lib/memo.ts
+import {
+  ParsedTransactionWithMeta,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+
+import { MEMO_PROGRAM_ID, MEMO_V1_PROGRAM_ID } from "./constants";
+
+/**
+ * Memos are public and paid for by the sender, so keep them short.
+ * 140 bytes matches the note field cap used across the app.
+ */
+export const MEMO_MAX_BYTES = 140;
+
+export function memoByteLength(memo: string): number {
+  return new TextEncoder().encode(memo).length;
+}
+
+export function isMemoWithinLimit(memo: string): boolean {
+  return memoByteLength(memo) <= MEMO_MAX_BYTES;
+}
+
+/**
+ * Memo instruction signed by `signer`, so the note is attributable to the payer.
+ */
+export function createMemoInstruction(
+  memo: string,
+  signer: PublicKey
+): TransactionInstruction {
+  const text = memo.trim();
+  if (!text) throw new Error("Memo is empty.");
+  if (!isMemoWithinLimit(text)) {
+    throw new Error(`Note is too long to store on-chain (max ${MEMO_MAX_BYTES} bytes).`);
+  }
+
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [{ pubkey: signer, isSigner: true, isWritable: false }],
+    data: Buffer.from(text, "utf8"),
+  });
+}
+
+/** Cut to MEMO_MAX_BYTES of UTF-8 without splitting a character */
+function truncateMemo(memo: string): string {
+  if (isMemoWithinLimit(memo)) return memo;
+  let out = "";
+  let bytes = 0;
+  for (const ch of memo) {
+    bytes += memoByteLength(ch);
+    if (bytes > MEMO_MAX_BYTES) break;
+    out += ch;
+  }
+  return out;
+}
+
+function isMemoProgram(programId: unknown): boolean {
+  const id = String(programId ?? "");
+  return id === MEMO_PROGRAM_ID.toBase58() || id === MEMO_V1_PROGRAM_ID.toBase58();
+}
+
+function decodeMemoData(data: unknown): string | null {
+  if (typeof data !== "string" || !data) return null;
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(bs58.decode(data));
+    const clean = text.trim();
+    return clean ? clean : null;
+  } catch {
+    return null;
+  }
+}
+
+type HeliusInstructionLike = {
+  programId?: unknown;
+  data?: unknown;
+  innerInstructions?: unknown;
+};
+
+/**
+ * Read the first memo out of a Helius enhanced transaction
+ * (instruction data is base58, memo payload is raw UTF-8).
+ */
+export function extractHeliusMemo(tx: unknown): string | null {
+  const instructions = (tx as { instructions?: unknown })?.instructions;
+  if (!Array.isArray(instructions)) return null;
+
+  const stack: HeliusInstructionLike[] = [...instructions];
+  while (stack.length) {
+    const ix = stack.shift();
+    if (!ix || typeof ix !== "object") continue;
+
+    if (isMemoProgram(ix.programId)) {
+      const memo = decodeMemoData(ix.data);
+      if (memo) return truncateMemo(memo);
+    }
+
+    if (Array.isArray(ix.innerInstructions)) stack.push(...ix.innerInstructions);
+  }
+
+  return null;
+}
+
+/**
+ * Read the first memo out of an RPC `jsonParsed` transaction
+ * (the memo program is parsed to a plain string).
+ */
+export function extractParsedMemo(tx: ParsedTransactionWithMeta): string | null {
+  const outer = tx.transaction.message.instructions;
+  const inner = (tx.meta?.innerInstructions ?? []).flatMap((i) => i.instructions);
+
+  for (const ix of [...outer, ...inner]) {
+    if (!isMemoProgram(ix.programId.toBase58())) continue;
+
+    const memo = "parsed" in ix && typeof ix.parsed === "string" ? ix.parsed.trim() : "";
+    if (memo) return truncateMemo(memo);
+  }
+
+  return null;
+}
@@ -0,0 +1,214 @@
+// src/app/lib/paymentWatch.ts
+import {
+  Connection,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  TokenBalance,
+} from "@solana/web3.js";
+
+import { extractParsedMemo } from "./memo";
+import { DEFAULT_TOKEN, TokenInfo, TokenSymbol } from "./tokens";
+import { uiToBaseUnits } from "./transfer";
+
+export type DetectedPayment = {
+  signature: string;
+  amountUi: string;
+  tokenSymbol: TokenSymbol;
+  from: string;
+  blockTime: number | null;
+  memo: string | null;
+  /** Paid beyond the requested amount (the match still counts); null when exact */
+  overpaidUi: string | null;
+};
+
+export function baseToUi(amount: bigint, decimals: number): string {
+  const neg = amount < BigInt(0);
+  const abs = neg ? -amount : amount;
+  const s = abs.toString().padStart(decimals + 1, "0");
+  const whole = s.slice(0, s.length - decimals);
+  const frac = s.slice(s.length - decimals).replace(/0+$/, "");
+  return `${neg ? "-" : ""}${whole}${frac ? `.${frac}` : ""}`;
+}
+
+export function ownerDeltas(
+  pre: TokenBalance[] | null | undefined,
+  post: TokenBalance[] | null | undefined,
+  mint: string
+): Map<string, bigint> {
+  const out = new Map<string, bigint>();
+
+  for (const b of pre ?? []) {
+    if (b.mint !== mint || !b.owner) continue;
+    out.set(b.owner, (out.get(b.owner) ?? BigInt(0)) - BigInt(b.uiTokenAmount.amount));
+  }
+  for (const b of post ?? []) {
+    if (b.mint !== mint || !b.owner) continue;
+    out.set(b.owner, (out.get(b.owner) ?? BigInt(0)) + BigInt(b.uiTokenAmount.amount));
+  }
+
+  return out;
+}
+
+/**
+ * Check that `tx` moved at least `amountUi` of `token` into `recipient`.
+ * Returns null when the transaction failed or paid too little; anything over
+ * the requested amount is reported in `overpaidUi`.
+ */
+export function matchTokenPayment(
+  tx: ParsedTransactionWithMeta,
+  signature: string,
+  recipient: PublicKey,
+  amountUi?: string,
+  token: TokenInfo = DEFAULT_TOKEN
+): DetectedPayment | null {
+  if (!tx.meta || tx.meta.err) return null;
+
+  const deltas = ownerDeltas(
+    tx.meta.preTokenBalances,
+    tx.meta.postTokenBalances,
+    token.mint.toBase58()
+  );
+
+  const received = deltas.get(recipient.toBase58()) ?? BigInt(0);
+  if (received <= BigInt(0)) return null;
+
+  const expected = amountUi ? uiToBaseUnits(amountUi, token.decimals) : BigInt(0);
+  if (received < expected) return null;
+
+  let from = "";
+  for (const [owner, delta] of deltas) {
+    if (delta < BigInt(0)) {
+      from = owner;
+      break;
+    }
+  }
+
+  return {
+    signature,
+    amountUi: baseToUi(received, token.decimals),
+    tokenSymbol: token.symbol,
+    from,
+    blockTime: tx.blockTime ?? null,
+    memo: extractParsedMemo(tx),
+    overpaidUi:
+      amountUi && received > expected ? baseToUi(received - expected, token.decimals) : null,
+  };
+}
+
+/**
+ * Look up transactions that mention the Solana Pay reference key and
+ * return the first one that satisfies the request.
+ */
+export async function findPaymentByReference(
+  connection: Connection,
+  params: {
+    reference: PublicKey;
+    recipient: PublicKey;
+    amountUi?: string;
+    token?: TokenInfo;
+  }
+): Promise<DetectedPayment | null> {
+  const sigs = await connection.getSignaturesForAddress(
+    params.reference,
+    { limit: 10 },
+    "confirmed"
+  );
+
+  for (const s of sigs) {
+    if (s.err) continue;
+
+    const tx = await connection.getParsedTransaction(s.signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!tx) continue;
+
+    const match = matchTokenPayment(
+      tx,
+      s.signature,
+      params.recipient,
+      params.amountUi,
+      params.token
+    );
+    if (match) return match;
+  }
+
+  return null;
+}
+
+/**
+ * Poll for a payment carrying `reference`, and also listen for logs that
+ * mention it so a confirmed payment is picked up without waiting a full interval.
+ * Returns a stop function.
+ */
+export function watchForPayment(params: {
+  connection: Connection;
+  reference: PublicKey;
+  recipient: PublicKey;
+  amountUi?: string;
+  token?: TokenInfo;
+  onPaid: (payment: DetectedPayment) => void;
+  onError?: (e: unknown) => void;
+  intervalMs?: number;
+}): () => void {
+  const { connection, reference, recipient, amountUi, token, onPaid, onError } =
+    params;
+  const intervalMs = params.intervalMs ?? 4000;
+
+  let stopped = false;
+  let checking = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let subId: number | null = null;
+
+  const stop = () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (subId !== null) {
+      connection.removeOnLogsListener(subId).catch(() => {});
+      subId = null;
+    }
+  };
+
+  const check = async () => {
+    if (stopped || checking) return;
+    checking = true;
+    try {
+      const found = await findPaymentByReference(connection, {
+        reference,
+        recipient,
+        amountUi,
+        token,
+      });
+      if (found && !stopped) {
+        stop();
+        onPaid(found);
+      }
+    } catch (e) {
+      onError?.(e);
+    } finally {
+      checking = false;
+    }
+  };
+
+  const loop = async () => {
+    await check();
+    if (!stopped) timer = setTimeout(loop, intervalMs);
+  };
+
+  try {
+    subId = connection.onLogs(
+      reference,
+      (logs) => {
+        if (!logs.err) check();
+      },
+      "confirmed"
+    );
+  } catch (e) {
+    // WebSocket unavailable: polling alone still works
+    onError?.(e);
+  }
+
+  loop();
+  return stop;
+}
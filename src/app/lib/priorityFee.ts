@@ -0,0 +1,111 @@
+// src/app/lib/priorityFee.ts
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+import { RpcLike, withRpc } from "./rpc";
+
+export type PriorityLevel = "low" | "normal" | "fast";
+
+export const PRIORITY_LEVELS: readonly {
+  id: PriorityLevel;
+  label: string;
+  /** Percentile of recent fees paid on the same accounts */
+  percentile: number;
+  /** Floor in micro-lamports per CU, so "Fast" still means something on a quiet network */
+  floorMicroLamports: number;
+}[] = [
+  { id: "low", label: "Low", percentile: 25, floorMicroLamports: 0 },
+  { id: "normal", label: "Normal", percentile: 50, floorMicroLamports: 1_000 },
+  { id: "fast", label: "Fast", percentile: 90, floorMicroLamports: 10_000 },
+];
+
+export const DEFAULT_PRIORITY_LEVEL: PriorityLevel = "normal";
+
+// Solana's per-tx ceiling; used while simulating so the sim itself can't run out
+const MAX_COMPUTE_UNITS = 1_400_000;
+const FALLBACK_COMPUTE_UNITS = 200_000;
+// Headroom over simulated usage (account state can shift between sim and landing)
+const COMPUTE_UNIT_MARGIN = 1.15;
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const idx = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, idx)];
+}
+
+/**
+ * Micro-lamports per CU for `level`, from recent fees paid by txs that wrote
+ * the same accounts (congestion is local to hot accounts on Solana).
+ */
+export async function getPriorityFeeMicroLamports(
+  connection: RpcLike,
+  level: PriorityLevel,
+  writableAccounts: PublicKey[]
+): Promise<number> {
+  const preset = PRIORITY_LEVELS.find((l) => l.id === level) ?? PRIORITY_LEVELS[1];
+
+  try {
+    const recent = await withRpc(connection, (c) =>
+      c.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts })
+    );
+    const fee = percentile(
+      recent.map((r) => r.prioritizationFee),
+      preset.percentile
+    );
+    return Math.max(Math.ceil(fee), preset.floorMicroLamports);
+  } catch {
+    return preset.floorMicroLamports;
+  }
+}
+
+/**
+ * Simulate `instructions` (signature check off) and return a CU limit with headroom.
+ * Pass `lookupTables` to simulate as a v0 message (same shape as what gets sent).
+ */
+export async function estimateComputeUnits(
+  connection: RpcLike,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  recentBlockhash: string,
+  lookupTables?: AddressLookupTableAccount[]
+): Promise<number> {
+  try {
+    const draft = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash,
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+        ...instructions,
+      ],
+    });
+    const message = lookupTables
+      ? draft.compileToV0Message(lookupTables)
+      : draft.compileToLegacyMessage();
+
+    const sim = await withRpc(connection, (c) =>
+      c.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        commitment: "confirmed",
+      })
+    );
+
+    const used = sim.value.unitsConsumed;
+    if (sim.value.err || !used) return FALLBACK_COMPUTE_UNITS;
+    return Math.ceil(used * COMPUTE_UNIT_MARGIN);
+  } catch {
+    return FALLBACK_COMPUTE_UNITS;
+  }
+}
+
+/** Priority fee in lamports for a CU limit and price */
+export function priorityFeeLamports(computeUnitLimit: number, microLamports: number) {
+  return Math.ceil((computeUnitLimit * microLamports) / 1_000_000);
+}
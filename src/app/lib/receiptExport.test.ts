@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ExportReceipt,
+  ReceiptImportError,
+  exportReceipts,
+  parseReceiptsExport,
+  receiptTotals,
+} from "./receiptExport";
+
+const ALICE = "AEew4ph6kXRa29f9fwqrUkAnYrV6ywhphyJ7zYcev9iM";
+const BOB = "XGWCVbGGV5oXS4KSf1CsU6ZQzW2ZWeDL7fabKT3v2gH";
+
+function receipt(over: Partial<ExportReceipt> = {}): ExportReceipt {
+  return {
+    id: "r1",
+    sig: "sig-1",
+    createdAt: Date.UTC(2026, 2, 14, 12),
+    cluster: "mainnet-beta",
+    status: "confirmed",
+    direction: "sent",
+    amountUi: "12.5",
+    tokenSymbol: "USDC",
+    from: ALICE,
+    to: BOB,
+    explorerUrl: null,
+    ...over,
+  };
+}
+
+// Data rows of a CSV export, split on the line breaks between records
+const csvRows = (rows: ExportReceipt[], format: "csv" | "quickbooks" | "xero") =>
+  exportReceipts(rows, format, { cluster: "mainnet-beta" }).content.split("\r\n").slice(1, -1);
+
+describe("CSV exports", () => {
+  it("keeps notes that look like formulas as text", () => {
+    const notes = ["=HYPERLINK(\"http://x\")", "+1", "-2", "@SUM(A1)", "\tcmd", "lunch"];
+    const rows = csvRows(
+      notes.map((note, i) => receipt({ id: `r${i}`, note })),
+      "csv"
+    );
+
+    // The note column; the first cell is also quoted, since it contains quotes
+    expect(rows.map((r) => r.split(",")[8])).toEqual([
+      `"'=HYPERLINK(""http://x"")"`,
+      "'+1",
+      "'-2",
+      "'@SUM(A1)",
+      "'\tcmd",
+      "lunch",
+    ]);
+  });
+
+  it("quotes commas, quotes and line breaks", () => {
+    const [row] = csvRows([receipt({ note: 'rent, "March"\nflat 2' })], "csv");
+    expect(row).toContain(`,"rent, ""March""\nflat 2",`);
+  });
+
+  it("writes accounting layouts with local dates and signed amounts", () => {
+    const [qb] = csvRows([receipt({ note: "=cmd" })], "quickbooks");
+    const [xero] = csvRows([receipt({ direction: "received", from: BOB, to: ALICE })], "xero");
+
+    // The description starts with plain text, so a note inside it can't start a formula
+    expect(qb).toBe("03/14/2026,Sent to XGWC...v2gH (USDC) - =cmd,-12.5");
+    expect(xero).toBe(`14/03/2026,12.5,${BOB},Received from XGWC...v2gH (USDC),sig-1`);
+  });
+
+  it("leaves unconfirmed receipts out of accounting layouts", () => {
+    const rows = [receipt(), receipt({ id: "r2", status: "failed" })];
+    expect(csvRows(rows, "csv")).toHaveLength(2);
+    expect(csvRows(rows, "xero")).toHaveLength(1);
+  });
+});
+
+describe("receiptTotals", () => {
+  it("sums confirmed amounts per direction and currency without float drift", () => {
+    const rows = [
+      ...Array.from({ length: 10 }, () => receipt({ amountUi: "0.1" })),
+      receipt({ direction: "received", tokenSymbol: "EURC", amountUi: "5" }),
+      receipt({ status: "failed", amountUi: "100" }),
+    ];
+    expect(receiptTotals(rows)).toEqual({ sent: { USD: 1 }, received: { EUR: 5 } });
+  });
+});
+
+describe("parseReceiptsExport", () => {
+  it("reads back a JSON export, or a bare array", () => {
+    const { content } = exportReceipts([receipt()], "json", { cluster: "mainnet-beta" });
+    expect(parseReceiptsExport(content)).toEqual([receipt()]);
+    expect(parseReceiptsExport("[1]")).toEqual([1]);
+  });
+
+  it("rejects other files and newer versions", () => {
+    expect(() => parseReceiptsExport("nope")).toThrow(ReceiptImportError);
+    expect(() => parseReceiptsExport('{"receipts":[]}')).toThrow("Not a UTILIZAP");
+    expect(() =>
+      parseReceiptsExport('{"format":"utilizap-receipts","version":2,"receipts":[]}')
+    ).toThrow("newer version");
+  });
+});
@@ -0,0 +1,250 @@
+// src/app/lib/receiptExport.ts
+import { toDateKey } from "./schedules";
+import { getTokenBySymbol } from "./tokens";
+
+/** The receipt fields exports read (structurally a subset of the page's TxReceipt) */
+export type ExportReceipt = {
+  id: string;
+  sig: string | null;
+  createdAt: number;
+  cluster: string;
+  status: string;
+  direction: "sent" | "received";
+  amountUi: string;
+  tokenSymbol: string;
+  from: string;
+  to: string;
+  explorerUrl: string | null;
+  note?: string;
+  reference?: string;
+};
+
+export type ReceiptExportFormat = "csv" | "json" | "quickbooks" | "xero";
+
+export const RECEIPT_EXPORT_FORMATS: readonly {
+  id: ReceiptExportFormat;
+  label: string;
+  /** Accounting layouts only carry confirmed payments */
+  confirmedOnly: boolean;
+}[] = [
+  { id: "csv", label: "CSV", confirmedOnly: false },
+  { id: "json", label: "JSON (backup)", confirmedOnly: false },
+  { id: "quickbooks", label: "QuickBooks CSV", confirmedOnly: true },
+  { id: "xero", label: "Xero CSV", confirmedOnly: true },
+];
+
+export type ReceiptTotals = {
+  sent: Partial<Record<"USD" | "EUR", number>>;
+  received: Partial<Record<"USD" | "EUR", number>>;
+};
+
+export class ReceiptImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReceiptImportError";
+  }
+}
+
+const EXPORT_FORMAT_ID = "utilizap-receipts";
+const EXPORT_VERSION = 1;
+
+// Sum in micro-units so totals of many 6-decimal amounts don't drift
+const MICRO = 1_000_000;
+
+/** Receipts whose local date falls within [from, to] ("YYYY-MM-DD", either may be empty) */
+export function receiptsInRange<T extends ExportReceipt>(
+  rows: T[],
+  from: string,
+  to: string
+): T[] {
+  return rows.filter((r) => {
+    const day = toDateKey(new Date(r.createdAt));
+    return (!from || day >= from) && (!to || day <= to);
+  });
+}
+
+/** Confirmed amounts per direction, by the fiat each stablecoin tracks */
+export function receiptTotals(rows: ExportReceipt[]): ReceiptTotals {
+  const micro: Record<"sent" | "received", Partial<Record<"USD" | "EUR", number>>> = {
+    sent: {},
+    received: {},
+  };
+
+  for (const r of rows) {
+    if (r.status !== "confirmed") continue;
+    const currency = getTokenBySymbol(r.tokenSymbol)?.currency;
+    const n = Number(r.amountUi);
+    if (!currency || !Number.isFinite(n)) continue;
+    const bucket = micro[r.direction];
+    bucket[currency] = (bucket[currency] ?? 0) + Math.round(n * MICRO);
+  }
+
+  const scale = (b: Partial<Record<"USD" | "EUR", number>>) =>
+    Object.fromEntries(Object.entries(b).map(([k, v]) => [k, v / MICRO]));
+
+  return { sent: scale(micro.sent), received: scale(micro.received) };
+}
+
+// --------------------
+// CSV
+// --------------------
+function csvCell(value: string | number | null | undefined): string {
+  const s = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// Free text (notes) could start a spreadsheet formula; prefix a quote so it stays text
+function csvText(value: string | undefined): string {
+  const s = value ?? "";
+  return csvCell(/^[=+\-@\t\r]/.test(s) ? `'${s}` : s);
+}
+
+function csvLines(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((r) => r.join(",")).join("\r\n") + "\r\n";
+}
+
+function counterparty(r: ExportReceipt) {
+  return r.direction === "sent" ? r.to : r.from;
+}
+
+function description(r: ExportReceipt) {
+  const who = counterparty(r);
+  // Plain ASCII; some bank-feed importers choke on anything else
+  const who4 = `${who.slice(0, 4)}...${who.slice(-4)}`;
+  const base = `${r.direction === "sent" ? "Sent to" : "Received from"} ${who4} (${r.tokenSymbol})`;
+  return r.note ? `${base} - ${r.note}` : base;
+}
+
+function signedAmount(r: ExportReceipt) {
+  return r.direction === "sent" ? `-${r.amountUi}` : r.amountUi;
+}
+
+function toCsv(rows: ExportReceipt[]) {
+  return csvLines([
+    [
+      "date",
+      "direction",
+      "status",
+      "amount",
+      "token",
+      "from",
+      "to",
+      "signature",
+      "note",
+      "reference",
+      "cluster",
+      "explorer_url",
+    ],
+    ...rows.map((r) => [
+      csvCell(new Date(r.createdAt).toISOString()),
+      csvCell(r.direction),
+      csvCell(r.status),
+      csvCell(r.amountUi),
+      csvCell(r.tokenSymbol),
+      csvCell(r.from),
+      csvCell(r.to),
+      csvCell(r.sig),
+      csvText(r.note),
+      csvCell(r.reference),
+      csvCell(r.cluster),
+      csvCell(r.explorerUrl),
+    ]),
+  ]);
+}
+
+// QuickBooks Online bank upload, 3-column layout: Date (MM/DD/YYYY), Description, Amount
+function toQuickBooks(rows: ExportReceipt[]) {
+  return csvLines([
+    ["Date", "Description", "Amount"],
+    ...rows.map((r) => {
+      const d = new Date(r.createdAt);
+      const [y, m, day] = toDateKey(d).split("-");
+      const date = `${m}/${day}/${y}`;
+      return [csvCell(date), csvText(description(r)), csvCell(signedAmount(r))];
+    }),
+  ]);
+}
+
+// Xero precoded bank statement: Date (DD/MM/YYYY), Amount, Payee, Description, Reference
+function toXero(rows: ExportReceipt[]) {
+  return csvLines([
+    ["Date", "Amount", "Payee", "Description", "Reference"],
+    ...rows.map((r) => {
+      const d = new Date(r.createdAt);
+      const [y, m, day] = toDateKey(d).split("-");
+      const date = `${day}/${m}/${y}`;
+      return [
+        csvCell(date),
+        csvCell(signedAmount(r)),
+        csvCell(counterparty(r)),
+        csvText(description(r)),
+        csvCell(r.sig),
+      ];
+    }),
+  ]);
+}
+
+/** Serialize receipts; accounting layouts drop anything that isn't confirmed */
+export function exportReceipts(
+  rows: ExportReceipt[],
+  format: ReceiptExportFormat,
+  meta: { cluster: string; exportedAt?: number }
+): { filename: string; mime: string; content: string } {
+  const exportedAt = meta.exportedAt ?? Date.now();
+  const stamp = toDateKey(new Date(exportedAt));
+  const base = `utilizap-receipts-${meta.cluster}-${stamp}`;
+  const confirmed = rows.filter((r) => r.status === "confirmed");
+
+  switch (format) {
+    case "json":
+      return {
+        filename: `${base}.json`,
+        mime: "application/json",
+        content: JSON.stringify(
+          {
+            format: EXPORT_FORMAT_ID,
+            version: EXPORT_VERSION,
+            exportedAt: new Date(exportedAt).toISOString(),
+            cluster: meta.cluster,
+            receipts: rows,
+          },
+          null,
+          2
+        ),
+      };
+    case "quickbooks":
+      return {
+        filename: `${base}-quickbooks.csv`,
+        mime: "text/csv",
+        content: toQuickBooks(confirmed),
+      };
+    case "xero":
+      return { filename: `${base}-xero.csv`, mime: "text/csv", content: toXero(confirmed) };
+    case "csv":
+      return { filename: `${base}.csv`, mime: "text/csv", content: toCsv(rows) };
+  }
+}
+
+/**
+ * Receipts from a JSON export (raw; the caller validates each one).
+ * A bare array of receipts is accepted too.
+ */
+export function parseReceiptsExport(text: string): unknown[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ReceiptImportError("File is not valid JSON.");
+  }
+
+  if (Array.isArray(parsed)) return parsed;
+
+  const doc = parsed as { format?: unknown; version?: unknown; receipts?: unknown } | null;
+  if (!doc || doc.format !== EXPORT_FORMAT_ID || !Array.isArray(doc.receipts)) {
+    throw new ReceiptImportError("Not a UTILIZAP receipts export.");
+  }
+  if (typeof doc.version !== "number" || doc.version > EXPORT_VERSION) {
+    throw new ReceiptImportError("This export was made by a newer version of UTILIZAP.");
+  }
+  return doc.receipts;
+}
@@ -0,0 +1,281 @@
+// src/app/lib/receiptPdf.ts
+import QRCode from "qrcode";
+
+import { CLUSTERS, explorerTxUrl } from "./cluster";
+import type { Contact } from "./contacts";
+import type { TxReceipt, TxReceiptStatus } from "./receipts";
+import { DEFAULT_TOKEN, formatTokenAmount, getTokenBySymbol } from "./tokens";
+
+/** Everything a printed receipt shows, shared by /receipt/[sig] and the PDF */
+export type ReceiptDetails = {
+  title: string;
+  amountText: string;
+  tokenSymbol: string;
+  status: string;
+  when: string;
+  network: string;
+  from: { address: string; name: string | null };
+  to: { address: string; name: string | null };
+  signature: string;
+  note: string;
+  reference: string;
+  explorerUrl: string;
+};
+
+export function receiptStatusText(status: TxReceiptStatus) {
+  if (status === "confirmed") return "Confirmed";
+  if (status === "failed") return "Failed";
+  if (status === "expired") return "Expired";
+  if (status === "confirming") return "Confirming";
+  if (status === "unknown") return "Checking";
+  return "Submitted";
+}
+
+/**
+ * `/receipt/[sig]` for a receipt; the id picks the token leg when a tx moved several,
+ * the wallet which side when both ends are wallets used here
+ */
+export function receiptPageUrl(
+  receipt: Pick<TxReceipt, "id" | "sig" | "cluster" | "wallet">,
+  origin = ""
+) {
+  if (!receipt.sig) return "";
+  const params = new URLSearchParams({
+    cluster: receipt.cluster,
+    id: receipt.id,
+    wallet: receipt.wallet,
+  });
+  return `${origin}/receipt/${encodeURIComponent(receipt.sig)}?${params.toString()}`;
+}
+
+export function receiptDetails(receipt: TxReceipt, contacts: Contact[]): ReceiptDetails {
+  const token = getTokenBySymbol(receipt.tokenSymbol, receipt.cluster) ?? DEFAULT_TOKEN;
+  const n = Number(receipt.amountUi);
+  const nameFor = (address: string) =>
+    contacts.find((c) => c.address === address)?.name || null;
+
+  return {
+    title: receipt.direction === "received" ? "Payment Received" : "Payment Sent",
+    amountText: Number.isFinite(n) && n > 0 ? formatTokenAmount(n, token) : receipt.amountUi,
+    tokenSymbol: receipt.tokenSymbol,
+    status: receiptStatusText(receipt.status),
+    when: new Date(receipt.createdAt).toLocaleString(),
+    network: CLUSTERS[receipt.cluster].label,
+    from: { address: receipt.from, name: nameFor(receipt.from) },
+    to: { address: receipt.to, name: nameFor(receipt.to) },
+    signature: receipt.sig ?? "",
+    note: (receipt.note ?? "").trim(),
+    reference: receipt.reference ?? "",
+    explorerUrl:
+      receipt.explorerUrl ?? (receipt.sig ? explorerTxUrl(receipt.sig, receipt.cluster) : ""),
+  };
+}
+
+export function receiptPdfFilename(details: ReceiptDetails) {
+  const sig = details.signature ? details.signature.slice(0, 8) : "pending";
+  return `utilizap-receipt-${sig}.pdf`;
+}
+
+// --------------------
+// Minimal PDF writer (one Letter page, standard fonts, no external service)
+// --------------------
+const PAGE_W = 612;
+const PAGE_H = 792;
+const MARGIN = 56;
+
+// The standard fonts use WinAnsiEncoding; map the few non-Latin-1 glyphs we print
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+function pdfString(text: string): string {
+  let out = "";
+  for (const ch of text) {
+    const code = WIN_ANSI[ch] ?? ch.codePointAt(0) ?? 63;
+    const c = code > 0xff ? 63 : code;
+    if (c === 0x28 || c === 0x29 || c === 0x5c) out += "\\";
+    out += c < 0x20 ? " " : String.fromCharCode(c);
+  }
+  return `(${out})`;
+}
+
+type Font = "F1" | "F2" | "F3"; // Helvetica, Helvetica-Bold, Courier
+
+// Rough average glyph width per font size, enough to wrap without measuring
+const CHAR_W: Record<Font, number> = { F1: 0.52, F2: 0.56, F3: 0.6 };
+
+function wrap(text: string, font: Font, size: number, width: number): string[] {
+  const max = Math.max(1, Math.floor(width / (CHAR_W[font] * size)));
+  const lines: string[] = [];
+  for (const para of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of para.split(/\s+/)) {
+      // Long unbroken tokens (signatures, URLs) are hard-split
+      let w = word;
+      while (w.length > max) {
+        if (line) lines.push(line);
+        lines.push(w.slice(0, max));
+        w = w.slice(max);
+        line = "";
+      }
+      if (!line) line = w;
+      else if (line.length + 1 + w.length <= max) line += ` ${w}`;
+      else {
+        lines.push(line);
+        line = w;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function fmt(n: number) {
+  return Number(n.toFixed(2)).toString();
+}
+
+/** Build the receipt as PDF bytes */
+export function buildReceiptPdf(details: ReceiptDetails): Uint8Array {
+  const ops: string[] = [];
+  const links: { rect: [number, number, number, number]; uri: string }[] = [];
+
+  const text = (s: string, x: number, y: number, font: Font, size: number, gray = 0) => {
+    ops.push(`${fmt(gray)} g BT /${font} ${size} Tf ${fmt(x)} ${fmt(y)} Td ${pdfString(s)} Tj ET`);
+  };
+  const rule = (y: number) => {
+    ops.push(`0.85 G 0.75 w ${MARGIN} ${fmt(y)} m ${PAGE_W - MARGIN} ${fmt(y)} l S`);
+  };
+
+  // QR of the explorer link, top right, drawn as vector squares
+  const qrSize = 132;
+  const qrX = PAGE_W - MARGIN - qrSize;
+  const qrTop = PAGE_H - MARGIN;
+  if (details.explorerUrl) {
+    const { modules } = QRCode.create(details.explorerUrl, { errorCorrectionLevel: "M" });
+    const cell = qrSize / modules.size;
+    ops.push("0 g");
+    for (let r = 0; r < modules.size; r++) {
+      for (let c = 0; c < modules.size; c++) {
+        if (!modules.get(r, c)) continue;
+        const x = qrX + c * cell;
+        const y = qrTop - (r + 1) * cell;
+        ops.push(`${fmt(x)} ${fmt(y)} ${fmt(cell)} ${fmt(cell)} re`);
+      }
+    }
+    ops.push("f");
+    text("Scan to verify on Solana Explorer", qrX, qrTop - qrSize - 14, "F1", 8, 0.4);
+    links.push({ rect: [qrX, qrTop - qrSize, qrX + qrSize, qrTop], uri: details.explorerUrl });
+  }
+
+  const leftW = qrX - MARGIN - 24;
+  let y = PAGE_H - MARGIN - 12;
+  text("UTILIZAP", MARGIN, y, "F2", 12, 0.4);
+  y -= 30;
+  text(details.title, MARGIN, y, "F2", 22);
+  y -= 40;
+  text(`${details.amountText} ${details.tokenSymbol}`, MARGIN, y, "F2", 30);
+  y -= 24;
+  for (const line of wrap(`${details.status} • ${details.when} • ${details.network}`, "F1", 10, leftW)) {
+    text(line, MARGIN, y, "F1", 10, 0.35);
+    y -= 13;
+  }
+
+  y = Math.min(y, qrTop - qrSize - 34) - 10;
+  rule(y);
+  y -= 22;
+
+  const field = (label: string, lines: { s: string; font: Font }[], uri?: string) => {
+    text(label.toUpperCase(), MARGIN, y, "F2", 8, 0.45);
+    y -= 14;
+    const width = PAGE_W - MARGIN * 2;
+    for (const { s, font } of lines) {
+      for (const line of wrap(s, font, 10, width)) {
+        text(line, MARGIN, y, font, 10);
+        if (uri) links.push({ rect: [MARGIN, y - 3, PAGE_W - MARGIN, y + 10], uri });
+        y -= 13;
+      }
+    }
+    y -= 10;
+  };
+
+  const party = (p: ReceiptDetails["from"]) =>
+    p.name
+      ? [
+          { s: p.name, font: "F1" as Font },
+          { s: p.address, font: "F3" as Font },
+        ]
+      : [{ s: p.address || "—", font: "F3" as Font }];
+
+  field("From", party(details.from));
+  field("To", party(details.to));
+  field("Transaction Signature", [{ s: details.signature || "Pending", font: "F3" }]);
+  if (details.note) field("Note", [{ s: details.note, font: "F1" }]);
+  if (details.reference) field("Reference", [{ s: details.reference, font: "F3" }]);
+  if (details.explorerUrl) {
+    field("Explorer", [{ s: details.explorerUrl, font: "F1" }], details.explorerUrl);
+  }
+
+  rule(MARGIN + 18);
+  text(
+    `Generated by UTILIZAP on ${new Date().toLocaleString()}. Verify the signature on-chain.`,
+    MARGIN,
+    MARGIN,
+    "F1",
+    8,
+    0.45
+  );
+
+  const content = ops.join("\n");
+
+  // Objects: 1 catalog, 2 pages, 3 page, 4 content, 5-7 fonts, 8+ link annotations
+  const annotIds = links.map((_, i) => 8 + i);
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_W} ${PAGE_H}] /Contents 4 0 R ` +
+      "/Resources << /Font << /F1 5 0 R /F2 6 0 R /F3 7 0 R >> >>" +
+      (annotIds.length ? ` /Annots [${annotIds.map((id) => `${id} 0 R`).join(" ")}]` : "") +
+      " >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>",
+    ...links.map(
+      (l) =>
+        `<< /Type /Annot /Subtype /Link /Rect [${l.rect.map(fmt).join(" ")}] /Border [0 0 0] ` +
+        `/A << /S /URI /URI ${pdfString(l.uri)} >> >>`
+    ),
+  ];
+
+  // Every character above is a single byte, so string offsets are byte offsets
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const off of offsets) out += `${String(off).padStart(10, "0")} 00000 n \n`;
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(out, (c) => c.charCodeAt(0));
+}
+
+/** Build and download the PDF */
+export function downloadReceiptPdf(details: ReceiptDetails) {
+  const bytes = buildReceiptPdf(details);
+  const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: "application/pdf" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = receiptPdfFilename(details);
+  a.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { TxReceipt } from "./receipts";
+
+const ALICE = "AEew4ph6kXRa29f9fwqrUkAnYrV6ywhphyJ7zYcev9iM";
+const BOB = "XGWCVbGGV5oXS4KSf1CsU6ZQzW2ZWeDL7fabKT3v2gH";
+
+function receipt(over: Partial<TxReceipt> = {}): TxReceipt {
+  return {
+    id: "h_sig-1",
+    sig: "sig-1",
+    createdAt: 1_700_000_000_000,
+    cluster: "mainnet-beta",
+    wallet: ALICE,
+    status: "confirmed",
+    direction: "received",
+    amountUi: "12.5",
+    tokenSymbol: "USDC",
+    from: BOB,
+    to: ALICE,
+    explorerUrl: null,
+    ...over,
+  };
+}
+
+let receipts: typeof import("./receipts");
+
+beforeEach(async () => {
+  // storage.ts keeps one cache per module instance
+  vi.resetModules();
+  const storage = await import("./storage");
+  await storage.openStorage({ adapter: storage.createMemoryAdapter() });
+  receipts = await import("./receipts");
+});
+
+describe("mergeImportedReceipts", () => {
+  it("keeps the reference and schedule tag saved for a detected payment", () => {
+    receipts.upsertReceipt(
+      receipt({ reference: "ref-1", schedule: { id: "rent", due: "2026-10-01" } })
+    );
+
+    receipts.mergeImportedReceipts([receipt({ note: "memo from chain" })]);
+
+    expect(receipts.loadReceipts("mainnet-beta", ALICE)).toEqual([
+      receipt({
+        reference: "ref-1",
+        schedule: { id: "rent", due: "2026-10-01" },
+        note: "memo from chain",
+      }),
+    ]);
+  });
+
+  it("keeps a note edited here, and when it was edited, over the on-chain memo", () => {
+    receipts.upsertReceipt(receipt({ note: "rent, Oct", noteUpdatedAt: 1_700_000_500_000 }));
+
+    receipts.mergeImportedReceipts([receipt({ note: "memo from chain" })]);
+
+    const [stored] = receipts.loadReceipts("mainnet-beta", ALICE);
+    expect(stored.note).toBe("rent, Oct");
+    // Backups keep the newer note; without this an older backup note would win
+    expect(stored.noteUpdatedAt).toBe(1_700_000_500_000);
+  });
+
+  it("saves new transfers as imported", () => {
+    receipts.mergeImportedReceipts([receipt({ id: "h_sig-2", sig: "sig-2" })]);
+
+    expect(receipts.loadReceipts("mainnet-beta", ALICE)).toEqual([
+      receipt({ id: "h_sig-2", sig: "sig-2" }),
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+// src/app/lib/receipts.ts
+import { CLUSTER_IDS, ClusterId, isClusterId } from "./cluster";
+import type { ScheduleTag } from "./schedules";
+import { countStoreBy, getStored, readStoreBy, storeKey, writeStore } from "./storage";
+import { TokenSymbol, isTokenSymbol } from "./tokens";
+
+export type TxReceiptStatus =
+  | "submitted"
+  | "confirming"
+  | "confirmed"
+  | "expired"
+  | "failed"
+  // Sent, but the RPC stopped answering before it confirmed; still being checked
+  | "unknown";
+export type TxReceiptDirection = "sent" | "received";
+
+export type TxReceipt = {
+  id: string;
+  sig: string | null;
+  createdAt: number;
+
+  cluster: ClusterId;
+  /** Connected wallet the receipt belongs to */
+  wallet: string;
+  status: TxReceiptStatus;
+
+  direction: TxReceiptDirection;
+
+  amountUi: string;
+  tokenSymbol: TokenSymbol;
+
+  from: string;
+  to: string;
+
+  explorerUrl: string | null;
+  note?: string;
+  /** When the note was last edited here; backups keep the newest note */
+  noteUpdatedAt?: number;
+  /** Solana Pay reference key attached to the transfer, if any */
+  reference?: string;
+  /** Scheduled-payment occurrence this send paid, if sent via "Pay now" */
+  schedule?: ScheduleTag;
+  /** Last block the signed tx can land in, to settle an "unknown" status after a reload */
+  lastValidBlockHeight?: number;
+};
+
+// Legacy localStorage key, read once by the IndexedDB migration (lib/storage.ts)
+const RECEIPTS_KEY = "uz_receipts_v2";
+
+// Oldest receipts beyond this (per cluster and wallet) are dropped, so paged history can't grow unbounded
+export const RECEIPTS_CAP = 5000;
+
+// Mainnet kept the original key; test clusters had their own store
+function legacyReceiptsKey(cluster: ClusterId) {
+  return cluster === "mainnet-beta" ? RECEIPTS_KEY : `${RECEIPTS_KEY}:${cluster}`;
+}
+
+export function safeParseReceipts(raw: string | null, cluster: ClusterId): TxReceipt[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter(
+        (r) =>
+          r &&
+          typeof r.id === "string" &&
+          typeof r.createdAt === "number" &&
+          (r.sig === null || typeof r.sig === "string") &&
+          isClusterId(r.cluster) &&
+          r.cluster === cluster &&
+          (r.status === "submitted" ||
+            r.status === "confirming" ||
+            r.status === "confirmed" ||
+            r.status === "expired" ||
+            r.status === "failed" ||
+            r.status === "unknown") &&
+          typeof r.amountUi === "string" &&
+          isTokenSymbol(r.tokenSymbol) &&
+          typeof r.from === "string" &&
+          typeof r.to === "string"
+      )
+      .map((r) => {
+        const dir: TxReceiptDirection =
+          r.direction === "received" || r.direction === "sent"
+            ? r.direction
+            : "sent";
+        const from = String(r.from ?? "").trim();
+        const to = String(r.to ?? "").trim();
+
+        return {
+          id: r.id,
+          sig: r.sig ?? null,
+          createdAt: r.createdAt,
+          cluster,
+          // Older receipts have no wallet; it's our side of the transfer
+          wallet: typeof r.wallet === "string" && r.wallet ? r.wallet : dir === "sent" ? from : to,
+          status: r.status,
+          direction: dir,
+          amountUi: String(r.amountUi ?? "").trim(),
+          tokenSymbol: r.tokenSymbol as TokenSymbol,
+          from,
+          to,
+          explorerUrl: typeof r.explorerUrl === "string" ? r.explorerUrl : null,
+          note: typeof r.note === "string" ? r.note : undefined,
+          noteUpdatedAt: typeof r.noteUpdatedAt === "number" ? r.noteUpdatedAt : undefined,
+          reference: typeof r.reference === "string" ? r.reference : undefined,
+          schedule:
+            r.schedule &&
+            typeof r.schedule.id === "string" &&
+            typeof r.schedule.due === "string"
+              ? { id: r.schedule.id, due: r.schedule.due }
+              : undefined,
+          lastValidBlockHeight:
+            typeof r.lastValidBlockHeight === "number" ? r.lastValidBlockHeight : undefined,
+        };
+      });
+  } catch {
+    return [];
+  }
+}
+
+/** Receipts saved under the old localStorage keys, for the one-time migration */
+export function readLegacyReceipts(): TxReceipt[] {
+  if (typeof window === "undefined") return [];
+  try {
+    return CLUSTER_IDS.flatMap((c) =>
+      safeParseReceipts(window.localStorage.getItem(legacyReceiptsKey(c)), c)
+    );
+  } catch {
+    return [];
+  }
+}
+
+function newestFirst(receipts: TxReceipt[]): TxReceipt[] {
+  return receipts.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Every wallet's receipts on the cluster, newest first */
+export function loadClusterReceipts(cluster: ClusterId): TxReceipt[] {
+  return newestFirst(readStoreBy("receipts", "cluster", cluster));
+}
+
+/** The wallet's receipts on the cluster, newest first */
+export function loadReceipts(cluster: ClusterId, wallet: string | null): TxReceipt[] {
+  if (!wallet) return [];
+  const mine = readStoreBy("receipts", "wallet", wallet);
+  return newestFirst(mine.filter((r) => r.cluster === cluster));
+}
+
+/** Receipts for one transaction (sent by one wallet, received by another), any cluster */
+export function loadReceiptsBySig(sig: string): TxReceipt[] {
+  return readStoreBy("receipts", "sig", sig);
+}
+
+function pruneReceipts(cluster: ClusterId, wallet: string) {
+  // Counting the wallet's receipts on every cluster is cheap; only sort when over the cap
+  if (countStoreBy("receipts", "wallet", wallet) <= RECEIPTS_CAP) return;
+  const all = loadReceipts(cluster, wallet);
+  if (all.length <= RECEIPTS_CAP) return;
+  writeStore(
+    "receipts",
+    [],
+    all.slice(RECEIPTS_CAP).map((r) => storeKey("receipts", r))
+  );
+}
+
+/** Replace the wallet's receipts on the cluster; only records that changed are written */
+export function saveReceipts(cluster: ClusterId, wallet: string, next: TxReceipt[]) {
+  const keep = new Set(next.map((r) => storeKey("receipts", r)));
+  const removed = loadReceipts(cluster, wallet)
+    .map((r) => storeKey("receipts", r))
+    .filter((k) => !keep.has(k));
+  const changed = next.filter((r) => getStored("receipts", storeKey("receipts", r)) !== r);
+
+  writeStore("receipts", changed, removed);
+  pruneReceipts(cluster, wallet);
+}
+
+export function upsertReceipt(next: TxReceipt) {
+  upsertReceipts([next]);
+}
+
+export function upsertReceipts(next: TxReceipt[]) {
+  writeStore("receipts", next);
+  const scopes = new Map(next.map((r) => [`${r.cluster}:${r.wallet}`, r]));
+  for (const r of scopes.values()) pruneReceipts(r.cluster, r.wallet);
+}
+
+/**
+ * Saves receipts rebuilt from on-chain history. What only this device knows about a
+ * transfer (its note, Solana Pay reference and schedule tag) is kept from the stored copy.
+ */
+export function mergeImportedReceipts(imported: TxReceipt[]) {
+  upsertReceipts(
+    imported.map((r) => {
+      const prev = getStored("receipts", storeKey("receipts", r));
+      if (!prev) return r;
+      return {
+        ...r,
+        reference: prev.reference,
+        schedule: prev.schedule,
+        note: prev.note ?? r.note,
+        noteUpdatedAt: prev.noteUpdatedAt,
+      };
+    })
+  );
+}
+
+/** Whether a receipt with the same cluster, wallet and id is already stored */
+export function receiptExists(r: TxReceipt): boolean {
+  return getStored("receipts", storeKey("receipts", r)) !== undefined;
+}
@@ -0,0 +1,199 @@
+// src/app/lib/rpc.ts
+import { Connection } from "@solana/web3.js";
+
+import { CLUSTERS, ClusterId, ClusterSettings, clusterEndpoint, isHttpUrl } from "./cluster";
+
+/**
+ * Prioritized RPC endpoints with health checks and failover.
+ *
+ * Order: in-app endpoints, then env (NEXT_PUBLIC_RPC_URLS_*), then the public
+ * cluster RPC as a last resort. Calls go to the active endpoint; a network
+ * error, 429 or 5xx marks it failed and moves to the next one.
+ */
+
+export type RpcEndpointHealth = {
+  url: string;
+  lastOkAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+};
+
+export type RpcPoolState = {
+  activeUrl: string;
+  endpoints: RpcEndpointHealth[];
+};
+
+export type RpcPool = {
+  /** Run an RPC call, failing over to the next endpoint on transport errors */
+  run<T>(fn: (connection: Connection) => Promise<T>): Promise<T>;
+  connection(): Connection;
+  getState(): RpcPoolState;
+  subscribe(cb: () => void): () => void;
+  checkHealth(): Promise<void>;
+};
+
+/** Anything balances/transfer helpers can talk to */
+export type RpcLike = Connection | RpcPool;
+
+const HEALTH_TIMEOUT_MS = 5000;
+
+// Next only inlines literal process.env.NEXT_PUBLIC_* reads
+const ENV_RPC_URLS: Partial<Record<ClusterId, string | undefined>> = {
+  "mainnet-beta": process.env.NEXT_PUBLIC_RPC_URLS_MAINNET,
+  devnet: process.env.NEXT_PUBLIC_RPC_URLS_DEVNET,
+};
+
+function splitUrls(raw: string | undefined): string[] {
+  return (raw ?? "")
+    .split(/[\s,]+/)
+    .map((u) => u.trim())
+    .filter(isHttpUrl);
+}
+
+export function rpcEndpointsFor(settings: ClusterSettings): string[] {
+  // Localnet is a single, explicitly chosen validator
+  if (settings.cluster === "localnet") return [clusterEndpoint(settings)];
+
+  const urls = [
+    ...(settings.rpcUrls[settings.cluster] ?? []),
+    ...splitUrls(ENV_RPC_URLS[settings.cluster]),
+    CLUSTERS[settings.cluster].defaultEndpoint,
+  ];
+  return Array.from(new Set(urls));
+}
+
+export function parseRpcUrlList(raw: string): string[] {
+  return splitUrls(raw);
+}
+
+export function isRetryableRpcError(e: unknown): boolean {
+  const msg = String((e as { message?: unknown })?.message ?? e ?? "").toLowerCase();
+  return (
+    msg.includes("failed to fetch") ||
+    msg.includes("fetch failed") ||
+    msg.includes("networkerror") ||
+    msg.includes("network request failed") ||
+    msg.includes("timeout") ||
+    msg.includes("timed out") ||
+    msg.includes("econn") ||
+    msg.includes("429") ||
+    msg.includes("too many requests") ||
+    /\b50[0-4]\b/.test(msg)
+  );
+}
+
+function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error("RPC health check timed out")), ms);
+    p.then(
+      (v) => {
+        clearTimeout(t);
+        resolve(v);
+      },
+      (e) => {
+        clearTimeout(t);
+        reject(e);
+      }
+    );
+  });
+}
+
+export function createRpcPool(candidates: string[]): RpcPool {
+  // Invalid URLs are skipped: a Connection for one throws, and pools are built during render
+  const urls = candidates.filter(isHttpUrl);
+  if (urls.length === 0) throw new Error("At least one RPC endpoint is required.");
+
+  const connections = urls.map((u) => new Connection(u, "confirmed"));
+  const health: RpcEndpointHealth[] = urls.map((url) => ({
+    url,
+    lastOkAt: null,
+    lastFailureAt: null,
+    lastError: null,
+  }));
+
+  let active = 0;
+  let state: RpcPoolState = { activeUrl: urls[0], endpoints: health };
+  const listeners = new Set<() => void>();
+
+  // New object on every change so useSyncExternalStore sees it
+  const emit = () => {
+    state = { activeUrl: urls[active], endpoints: health.map((h) => ({ ...h })) };
+    listeners.forEach((cb) => cb());
+  };
+
+  const markOk = (i: number) => {
+    health[i].lastOkAt = Date.now();
+  };
+
+  const markFailed = (i: number, e: unknown) => {
+    health[i].lastFailureAt = Date.now();
+    health[i].lastError = String((e as { message?: unknown })?.message ?? e);
+  };
+
+  async function run<T>(fn: (connection: Connection) => Promise<T>): Promise<T> {
+    let lastErr: unknown = null;
+
+    for (let attempt = 0; attempt < urls.length; attempt++) {
+      const i = (active + attempt) % urls.length;
+      try {
+        const out = await fn(connections[i]);
+        markOk(i);
+        if (i !== active) {
+          active = i;
+          emit();
+        }
+        return out;
+      } catch (e) {
+        if (!isRetryableRpcError(e)) throw e;
+        console.warn(`RPC ${urls[i]} failed, trying next endpoint:`, e);
+        markFailed(i, e);
+        lastErr = e;
+      }
+    }
+
+    emit();
+    throw lastErr;
+  }
+
+  /** Probe every endpoint and move back to the highest-priority healthy one */
+  async function checkHealth() {
+    const results = await Promise.all(
+      connections.map(async (c, i) => {
+        try {
+          await withTimeout(c.getSlot("confirmed"), HEALTH_TIMEOUT_MS);
+          markOk(i);
+          return true;
+        } catch (e) {
+          markFailed(i, e);
+          return false;
+        }
+      })
+    );
+
+    const firstHealthy = results.indexOf(true);
+    if (firstHealthy >= 0) active = firstHealthy;
+    emit();
+  }
+
+  return {
+    run,
+    connection: () => connections[active],
+    getState: () => state,
+    subscribe: (cb) => {
+      listeners.add(cb);
+      return () => listeners.delete(cb);
+    },
+    checkHealth,
+  };
+}
+
+export function isRpcPool(rpc: RpcLike): rpc is RpcPool {
+  return typeof (rpc as RpcPool).run === "function";
+}
+
+export function withRpc<T>(
+  rpc: RpcLike,
+  fn: (connection: Connection) => Promise<T>
+): Promise<T> {
+  return isRpcPool(rpc) ? rpc.run(fn) : fn(rpc);
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ScheduleReceipt,
+  ScheduledPayment,
+  occurrenceDate,
+  scheduleOccurrences,
+  scheduleReminders,
+} from "./schedules";
+
+const LANDLORD = "XGWCVbGGV5oXS4KSf1CsU6ZQzW2ZWeDL7fabKT3v2gH";
+
+// Dates are local calendar days; noon keeps these clear of any timezone edge
+const at = (key: string) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d, 12).getTime();
+};
+
+function schedule(over: Partial<ScheduledPayment> = {}): ScheduledPayment {
+  return {
+    id: "rent",
+    label: "Rent",
+    recipient: LANDLORD,
+    amountUi: "1200",
+    tokenSymbol: "USDC",
+    note: "",
+    cadence: "monthly",
+    startDate: "2026-01-31",
+    createdAt: at("2026-01-01"),
+    skipped: [],
+    ...over,
+  };
+}
+
+function sent(over: Partial<ScheduleReceipt>): ScheduleReceipt {
+  return {
+    sig: "sig",
+    createdAt: at("2026-01-31"),
+    status: "confirmed",
+    direction: "sent",
+    amountUi: "1200",
+    tokenSymbol: "USDC",
+    to: LANDLORD,
+    ...over,
+  };
+}
+
+describe("occurrenceDate", () => {
+  it("clamps month-end starts to short months without drifting", () => {
+    const s = schedule();
+    expect([0, 1, 2, 3, 12, 13].map((n) => occurrenceDate(s, n))).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+      "2026-04-30",
+      "2027-01-31",
+      "2027-02-28",
+    ]);
+    expect(occurrenceDate(schedule({ startDate: "2028-01-31" }), 1)).toBe("2028-02-29");
+    expect(occurrenceDate(schedule({ cadence: "quarterly", startDate: "2026-11-30" }), 1)).toBe(
+      "2027-02-28"
+    );
+  });
+});
+
+describe("scheduleOccurrences", () => {
+  it("keeps an unpaid occurrence due through the grace window, then calls it missed", () => {
+    const statusOf = (today: string) =>
+      scheduleOccurrences(schedule(), [], at(today)).find((o) => o.due === "2026-03-31")?.status;
+
+    expect(statusOf("2026-03-30")).toBe("upcoming");
+    expect(statusOf("2026-03-31")).toBe("due");
+    expect(statusOf("2026-04-03")).toBe("due");
+    expect(statusOf("2026-04-04")).toBe("missed");
+  });
+
+  it("lists newest first up to the next upcoming one, from when the schedule was created", () => {
+    const occ = scheduleOccurrences(schedule({ createdAt: at("2026-02-15") }), [], at("2026-04-10"));
+    expect(occ.map((o) => [o.due, o.status])).toEqual([
+      ["2026-04-30", "upcoming"],
+      ["2026-03-31", "missed"],
+      ["2026-02-28", "missed"],
+    ]);
+  });
+
+  it("settles an occurrence from a tagged receipt, or an untagged send in its window", () => {
+    const receipts = [
+      sent({ sig: "tagged", schedule: { id: "rent", due: "2026-02-28" }, amountUi: "1000" }),
+      // A week early still counts for March
+      sent({ sig: "early", createdAt: at("2026-03-24") }),
+      // Wrong amount: not rent
+      sent({ sig: "other", createdAt: at("2026-04-29"), amountUi: "50" }),
+    ];
+
+    const occ = scheduleOccurrences(schedule(), receipts, at("2026-04-30"));
+    expect(occ.map((o) => [o.due, o.status, o.sig])).toEqual([
+      ["2026-05-31", "upcoming", null],
+      ["2026-04-30", "due", null],
+      ["2026-03-31", "paid", "early"],
+      ["2026-02-28", "paid", "tagged"],
+      ["2026-01-31", "missed", null],
+    ]);
+  });
+
+  it("reports skipped occurrences", () => {
+    const occ = scheduleOccurrences(schedule({ skipped: ["2026-01-31"] }), [], at("2026-02-10"));
+    expect(occ.map((o) => o.status)).toEqual(["upcoming", "skipped"]);
+  });
+});
+
+describe("scheduleReminders", () => {
+  it("reminds of the oldest open occurrence, or the next one a day ahead", () => {
+    expect(scheduleReminders([schedule()], [], at("2026-01-29"))).toEqual([]);
+    expect(
+      scheduleReminders([schedule()], [], at("2026-01-30")).map((r) => r.occurrence.due)
+    ).toEqual(["2026-01-31"]);
+    expect(
+      scheduleReminders([schedule()], [], at("2026-03-31")).map((r) => r.occurrence.due)
+    ).toEqual(["2026-01-31"]);
+  });
+});
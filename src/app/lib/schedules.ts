@@ -0,0 +1,272 @@
+// src/app/lib/schedules.ts
+import { TokenSymbol, isTokenSymbol } from "./tokens";
+
+export type ScheduleCadence = "weekly" | "biweekly" | "monthly" | "quarterly" | "yearly";
+
+export const SCHEDULE_CADENCES: readonly { id: ScheduleCadence; label: string }[] = [
+  { id: "weekly", label: "Weekly" },
+  { id: "biweekly", label: "Every 2 weeks" },
+  { id: "monthly", label: "Monthly" },
+  { id: "quarterly", label: "Quarterly" },
+  { id: "yearly", label: "Yearly" },
+];
+
+/**
+ * A repeating payment the user signs by hand each time (nothing is auto-signed).
+ * Dates are local calendar days, "YYYY-MM-DD".
+ */
+export type ScheduledPayment = {
+  id: string;
+  label: string;
+  recipient: string;
+  amountUi: string;
+  tokenSymbol: TokenSymbol;
+  note: string;
+  cadence: ScheduleCadence;
+  startDate: string;
+  createdAt: number;
+  /** Occurrences the user chose not to pay */
+  skipped: string[];
+};
+
+/** Tag on a receipt sent via "Pay now", tying it to one occurrence */
+export type ScheduleTag = { id: string; due: string };
+
+export type OccurrenceStatus = "paid" | "skipped" | "due" | "missed" | "upcoming";
+
+export type Occurrence = {
+  due: string;
+  status: OccurrenceStatus;
+  sig: string | null;
+};
+
+/** The receipt fields matching needs (structurally a subset of the page's TxReceipt) */
+export type ScheduleReceipt = {
+  sig: string | null;
+  createdAt: number;
+  status: string;
+  direction: "sent" | "received";
+  amountUi: string;
+  tokenSymbol: string;
+  to: string;
+  schedule?: ScheduleTag;
+};
+
+const SCHEDULES_KEY = "uz_schedules_v1";
+
+// An unpaid occurrence stays "due" this many days before it counts as missed
+const GRACE_DAYS = 3;
+// Remind this many days ahead of the due date
+const REMIND_AHEAD_DAYS = 1;
+// Untagged payments up to this many days early still settle an occurrence
+const EARLY_MATCH_DAYS = 7;
+const DAY_MS = 86_400_000;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isCadence(v: unknown): v is ScheduleCadence {
+  return SCHEDULE_CADENCES.some((c) => c.id === v);
+}
+
+export function loadSchedules(): ScheduledPayment[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(SCHEDULES_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter(
+        (s) =>
+          s &&
+          typeof s.id === "string" &&
+          typeof s.recipient === "string" &&
+          typeof s.amountUi === "string" &&
+          isTokenSymbol(s.tokenSymbol) &&
+          isCadence(s.cadence) &&
+          typeof s.startDate === "string" &&
+          DATE_RE.test(s.startDate)
+      )
+      .map((s) => ({
+        id: s.id,
+        label: typeof s.label === "string" ? s.label : "",
+        recipient: s.recipient,
+        amountUi: s.amountUi,
+        tokenSymbol: s.tokenSymbol,
+        note: typeof s.note === "string" ? s.note : "",
+        cadence: s.cadence,
+        startDate: s.startDate,
+        createdAt: typeof s.createdAt === "number" ? s.createdAt : Date.now(),
+        skipped: Array.isArray(s.skipped)
+          ? s.skipped.filter((d: unknown) => typeof d === "string")
+          : [],
+      }));
+  } catch {
+    return [];
+  }
+}
+
+function saveSchedules(next: ScheduledPayment[]) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(SCHEDULES_KEY, JSON.stringify(next));
+  } catch {}
+}
+
+export function upsertSchedule(next: ScheduledPayment) {
+  const prev = loadSchedules();
+  const idx = prev.findIndex((s) => s.id === next.id);
+  saveSchedules(idx >= 0 ? prev.map((s) => (s.id === next.id ? next : s)) : [...prev, next]);
+}
+
+export function deleteSchedule(id: string) {
+  saveSchedules(loadSchedules().filter((s) => s.id !== id));
+}
+
+export function skipOccurrence(schedule: ScheduledPayment, due: string) {
+  if (schedule.skipped.includes(due)) return;
+  upsertSchedule({ ...schedule, skipped: [...schedule.skipped, due] });
+}
+
+// --------------------
+// Dates (local calendar days)
+// --------------------
+export function toDateKey(d: Date): string {
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${m}-${day}`;
+}
+
+function fromDateKey(key: string): Date {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function addDays(key: string, days: number): string {
+  const d = fromDateKey(key);
+  d.setDate(d.getDate() + days);
+  return toDateKey(d);
+}
+
+// Month-based cadences keep the start day, clamped to short months (31st -> 30th/28th)
+function addMonths(key: string, months: number): string {
+  const start = fromDateKey(key);
+  const y = start.getFullYear();
+  const m = start.getMonth() + months;
+  const lastDay = new Date(y, m + 1, 0).getDate();
+  return toDateKey(new Date(y, m, Math.min(start.getDate(), lastDay)));
+}
+
+/** Due date of the `n`th occurrence (0 = start date) */
+export function occurrenceDate(schedule: ScheduledPayment, n: number): string {
+  switch (schedule.cadence) {
+    case "weekly":
+      return addDays(schedule.startDate, 7 * n);
+    case "biweekly":
+      return addDays(schedule.startDate, 14 * n);
+    case "monthly":
+      return addMonths(schedule.startDate, n);
+    case "quarterly":
+      return addMonths(schedule.startDate, 3 * n);
+    case "yearly":
+      return addMonths(schedule.startDate, 12 * n);
+  }
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((fromDateKey(b).getTime() - fromDateKey(a).getTime()) / DAY_MS);
+}
+
+/**
+ * Occurrences from the schedule's creation up to the next upcoming one, newest
+ * first (at most `limit`). Paid comes from a receipt tagged with the occurrence,
+ * or failing that a confirmed send of the same amount to the recipient made
+ * between a week before the due date and the next due date.
+ */
+export function scheduleOccurrences(
+  schedule: ScheduledPayment,
+  receipts: ScheduleReceipt[],
+  now: number,
+  limit = 6
+): Occurrence[] {
+  const today = toDateKey(new Date(now));
+  // Occurrences before the schedule existed aren't tracked as missed
+  const firstTracked = toDateKey(new Date(schedule.createdAt));
+
+  const sends = receipts.filter(
+    (r) =>
+      r.direction === "sent" &&
+      r.status === "confirmed" &&
+      r.tokenSymbol === schedule.tokenSymbol &&
+      r.to === schedule.recipient
+  );
+  const used = new Set<ScheduleReceipt>();
+
+  const dues: { due: string; n: number }[] = [];
+  for (let n = 0; n < 10_000; n++) {
+    const due = occurrenceDate(schedule, n);
+    if (due >= firstTracked) dues.push({ due, n });
+    if (due > today) break;
+  }
+
+  const out = dues.map(({ due, n }): Occurrence => {
+    const next = occurrenceDate(schedule, n + 1);
+    const windowStart = fromDateKey(addDays(due, -EARLY_MATCH_DAYS)).getTime();
+    const windowEnd = fromDateKey(next).getTime();
+
+    const receipt =
+      sends.find((r) => r.schedule?.id === schedule.id && r.schedule.due === due) ??
+      sends.find(
+        (r) =>
+          !used.has(r) &&
+          !r.schedule &&
+          r.createdAt >= windowStart &&
+          r.createdAt < windowEnd &&
+          Number(r.amountUi) === Number(schedule.amountUi)
+      );
+    if (receipt) used.add(receipt);
+
+    let status: OccurrenceStatus;
+    if (receipt) status = "paid";
+    else if (schedule.skipped.includes(due)) status = "skipped";
+    else if (due > today) status = "upcoming";
+    else if (daysBetween(due, today) <= GRACE_DAYS) status = "due";
+    else status = "missed";
+
+    return { due, status, sig: receipt?.sig ?? null };
+  });
+
+  return out.reverse().slice(0, limit);
+}
+
+/**
+ * What to remind about right now: per schedule, the oldest occurrence that is
+ * due or missed, or the next one if it falls due within a day.
+ */
+export function scheduleReminders(
+  schedules: ScheduledPayment[],
+  receipts: ScheduleReceipt[],
+  now: number
+): { schedule: ScheduledPayment; occurrence: Occurrence }[] {
+  const today = toDateKey(new Date(now));
+  const out: { schedule: ScheduledPayment; occurrence: Occurrence }[] = [];
+
+  for (const schedule of schedules) {
+    const occ = scheduleOccurrences(schedule, receipts, now, Infinity).reverse();
+    const open =
+      occ.find((o) => o.status === "due" || o.status === "missed") ??
+      occ.find(
+        (o) => o.status === "upcoming" && daysBetween(today, o.due) <= REMIND_AHEAD_DAYS
+      );
+    if (open) out.push({ schedule, occurrence: open });
+  }
+
+  return out.sort((a, b) => a.occurrence.due.localeCompare(b.occurrence.due));
+}
+
+export function formatDueDate(key: string): string {
+  return fromDateKey(key).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
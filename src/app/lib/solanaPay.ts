@@ -0,0 +1,135 @@
+// src/app/lib/solanaPay.ts
+import { Keypair, PublicKey } from "@solana/web3.js";
+
+/**
+ * Solana Pay transfer requests
+ * https://docs.solanapay.com/spec#transfer-request
+ *
+ *   solana:<recipient>?amount=<amount>&spl-token=<mint>&reference=<ref>
+ *     &label=<label>&message=<message>&memo=<memo>
+ *
+ * Transaction requests (solana:https://...) are not supported here.
+ */
+export const SOLANA_PAY_PROTOCOL = "solana:";
+
+export type SolanaPayTransferRequest = {
+  recipient: PublicKey;
+  /** Decimal string in UI units, exactly as it appeared in the URI */
+  amount?: string;
+  splToken?: PublicKey;
+  reference: PublicKey[];
+  label?: string;
+  message?: string;
+  memo?: string;
+};
+
+export class SolanaPayParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SolanaPayParseError";
+  }
+}
+
+// Spec: non-negative integer or decimal, no scientific notation
+const AMOUNT_RE = /^\d+(\.\d+)?$/;
+
+function toPublicKey(value: string, field: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new SolanaPayParseError(`Invalid ${field}.`);
+  }
+}
+
+export function isSolanaPayUrl(raw: string): boolean {
+  return (raw ?? "").trim().toLowerCase().startsWith(SOLANA_PAY_PROTOCOL);
+}
+
+export function parseSolanaPayUrl(raw: string): SolanaPayTransferRequest {
+  const value = (raw ?? "").trim();
+  if (!isSolanaPayUrl(value)) throw new SolanaPayParseError("Not a solana: URL.");
+
+  const rest = value.slice(SOLANA_PAY_PROTOCOL.length);
+  const qIdx = rest.indexOf("?");
+  const path = decodeURIComponent(qIdx >= 0 ? rest.slice(0, qIdx) : rest).replace(
+    /^\/+/,
+    ""
+  );
+  const params = new URLSearchParams(qIdx >= 0 ? rest.slice(qIdx + 1) : "");
+
+  if (/^https?:/i.test(path)) {
+    throw new SolanaPayParseError("Solana Pay transaction requests are not supported.");
+  }
+
+  const out: SolanaPayTransferRequest = {
+    recipient: toPublicKey(path, "recipient"),
+    reference: params.getAll("reference").map((r) => toPublicKey(r, "reference")),
+  };
+
+  const amount = params.get("amount");
+  if (amount !== null) {
+    if (!AMOUNT_RE.test(amount)) throw new SolanaPayParseError("Invalid amount.");
+    out.amount = amount;
+  }
+
+  const splToken = params.get("spl-token");
+  if (splToken !== null) out.splToken = toPublicKey(splToken, "spl-token");
+
+  const label = params.get("label");
+  if (label) out.label = label;
+
+  const message = params.get("message");
+  if (message) out.message = message;
+
+  const memo = params.get("memo");
+  if (memo) out.memo = memo;
+
+  return out;
+}
+
+export function encodeSolanaPayUrl(req: {
+  recipient: PublicKey | string;
+  amount?: string;
+  splToken?: PublicKey | string;
+  reference?: (PublicKey | string)[];
+  label?: string;
+  message?: string;
+  memo?: string;
+}): string {
+  const recipient =
+    typeof req.recipient === "string" ? req.recipient : req.recipient.toBase58();
+
+  const params = new URLSearchParams();
+
+  const amount = (req.amount ?? "").trim();
+  if (amount) {
+    if (!AMOUNT_RE.test(amount)) throw new SolanaPayParseError("Invalid amount.");
+    params.set("amount", amount);
+  }
+
+  if (req.splToken) {
+    params.set(
+      "spl-token",
+      typeof req.splToken === "string" ? req.splToken : req.splToken.toBase58()
+    );
+  }
+
+  for (const r of req.reference ?? []) {
+    params.append("reference", typeof r === "string" ? r : r.toBase58());
+  }
+
+  if (req.label) params.set("label", req.label);
+  if (req.message) params.set("message", req.message);
+  if (req.memo) params.set("memo", req.memo);
+
+  const query = params.toString();
+  return `${SOLANA_PAY_PROTOCOL}${recipient}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * A reference is just a random public key nobody holds the secret for.
+ * It is attached to the transfer so the payee can find the payment on-chain.
+ */
+export function createReference(): PublicKey {
+  return Keypair.generate().publicKey;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { Split, SplitReceipt, matchSplitShares, splitAmounts } from "./splits";
+
+const PAYEE = "AEew4ph6kXRa29f9fwqrUkAnYrV6ywhphyJ7zYcev9iM";
+const BOB = "XGWCVbGGV5oXS4KSf1CsU6ZQzW2ZWeDL7fabKT3v2gH";
+const CAROL = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin";
+const STRANGER = "So11111111111111111111111111111111111111112";
+
+const split: Split = {
+  id: "s1",
+  createdAt: 1_000,
+  cluster: "mainnet-beta",
+  payee: PAYEE,
+  tokenSymbol: "USDC",
+  totalUi: "30",
+  note: "Dinner",
+  selfShareUi: "10",
+  shares: [
+    { id: "bob", name: "Bob", address: BOB, amountUi: "10", reference: "ref-bob" },
+    { id: "carol", name: "Carol", address: CAROL, amountUi: "10", reference: "ref-carol" },
+  ],
+};
+
+function incoming(over: Partial<SplitReceipt>): SplitReceipt {
+  return {
+    sig: "sig",
+    createdAt: 2_000,
+    status: "confirmed",
+    direction: "received",
+    amountUi: "10",
+    tokenSymbol: "USDC",
+    from: STRANGER,
+    to: PAYEE,
+    ...over,
+  };
+}
+
+const paidSigs = (receipts: SplitReceipt[]) =>
+  matchSplitShares(split, receipts).map((s) => s.sig);
+
+describe("matchSplitShares", () => {
+  it("matches by reference, whoever paid and whatever the amount", () => {
+    expect(paidSigs([incoming({ sig: "a", reference: "ref-carol", amountUi: "1" })])).toEqual([
+      null,
+      "a",
+    ]);
+  });
+
+  it("falls back to a payment from the participant's address", () => {
+    expect(paidSigs([incoming({ sig: "a", from: BOB })])).toEqual(["a", null]);
+  });
+
+  it("doesn't count address matches that are too small, too early or from someone else", () => {
+    expect(
+      paidSigs([
+        incoming({ from: BOB, amountUi: "9.99" }),
+        incoming({ from: BOB, createdAt: 999 }),
+        incoming({ from: STRANGER }),
+        incoming({ from: BOB, status: "failed" }),
+        incoming({ from: BOB, tokenSymbol: "EURC" }),
+      ])
+    ).toEqual([null, null]);
+  });
+
+  it("lets a receipt pay one share, preferring the reference match", () => {
+    // Bob paid Carol's share with its reference; it can't also count as Bob's
+    expect(paidSigs([incoming({ sig: "a", from: BOB, reference: "ref-carol" })])).toEqual([
+      null,
+      "a",
+    ]);
+    expect(
+      paidSigs([
+        incoming({ sig: "late", from: BOB, createdAt: 3_000 }),
+        incoming({ sig: "early", from: BOB, createdAt: 2_000 }),
+      ])
+    ).toEqual(["early", null]);
+  });
+});
+
+describe("splitAmounts", () => {
+  it("hands leftover base units to the first shares", () => {
+    expect(splitAmounts("10", 3, 6)).toEqual(["3.333334", "3.333333", "3.333333"]);
+    expect(splitAmounts("10", 0, 6)).toEqual([]);
+  });
+});
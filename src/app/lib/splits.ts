@@ -0,0 +1,262 @@
+// src/app/lib/splits.ts
+import type { ClusterId } from "./cluster";
+import { baseToUi } from "./paymentWatch";
+import { createReference, encodeSolanaPayUrl } from "./solanaPay";
+import { DEFAULT_TOKEN, TokenInfo, TokenSymbol, isTokenSymbol } from "./tokens";
+import { uiToBaseUnits } from "./transfer";
+
+/** One participant's part of a split, requested from them with its own reference key */
+export type SplitShare = {
+  id: string;
+  name: string;
+  address: string;
+  amountUi: string;
+  reference: string;
+  remindedAt?: number;
+};
+
+export type Split = {
+  id: string;
+  createdAt: number;
+  cluster: ClusterId;
+  /** Wallet the shares are paid to (the one that created the split) */
+  payee: string;
+  tokenSymbol: TokenSymbol;
+  totalUi: string;
+  note: string;
+  /** Payee's own share, if they counted themselves in (never requested) */
+  selfShareUi: string | null;
+  shares: SplitShare[];
+};
+
+/** The receipt fields matching needs (structurally a subset of the page's TxReceipt) */
+export type SplitReceipt = {
+  sig: string | null;
+  createdAt: number;
+  status: string;
+  direction: "sent" | "received";
+  amountUi: string;
+  tokenSymbol: string;
+  from: string;
+  to: string;
+  reference?: string;
+};
+
+export type SplitShareStatus = {
+  share: SplitShare;
+  paid: boolean;
+  sig: string | null;
+  paidAt: number | null;
+};
+
+const SPLITS_KEY = "uz_splits_v1";
+
+function isShare(s: unknown): s is SplitShare {
+  const v = s as Record<string, unknown> | null;
+  return (
+    !!v &&
+    typeof v.id === "string" &&
+    typeof v.name === "string" &&
+    typeof v.address === "string" &&
+    typeof v.amountUi === "string" &&
+    typeof v.reference === "string"
+  );
+}
+
+function loadAllSplits(): Split[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(SPLITS_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter(
+        (s) =>
+          s &&
+          typeof s.id === "string" &&
+          typeof s.createdAt === "number" &&
+          typeof s.cluster === "string" &&
+          typeof s.payee === "string" &&
+          isTokenSymbol(s.tokenSymbol) &&
+          typeof s.totalUi === "string" &&
+          Array.isArray(s.shares)
+      )
+      .map((s) => ({
+        id: s.id,
+        createdAt: s.createdAt,
+        cluster: s.cluster,
+        payee: s.payee,
+        tokenSymbol: s.tokenSymbol,
+        totalUi: s.totalUi,
+        note: typeof s.note === "string" ? s.note : "",
+        selfShareUi: typeof s.selfShareUi === "string" ? s.selfShareUi : null,
+        shares: s.shares.filter(isShare).map((x: SplitShare) => ({
+          id: x.id,
+          name: x.name,
+          address: x.address,
+          amountUi: x.amountUi,
+          reference: x.reference,
+          remindedAt: typeof x.remindedAt === "number" ? x.remindedAt : undefined,
+        })),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+function saveAllSplits(next: Split[]) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(SPLITS_KEY, JSON.stringify(next));
+  } catch {}
+}
+
+/** Splits created by `payee` on `cluster`, newest first */
+export function loadSplits(cluster: ClusterId, payee: string): Split[] {
+  return loadAllSplits()
+    .filter((s) => s.cluster === cluster && s.payee === payee)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function upsertSplit(next: Split) {
+  saveAllSplits([next, ...loadAllSplits().filter((s) => s.id !== next.id)]);
+}
+
+export function deleteSplit(id: string) {
+  saveAllSplits(loadAllSplits().filter((s) => s.id !== id));
+}
+
+/**
+ * Divide `totalUi` into `count` shares in base units. Leftover units go one each
+ * to the first shares, so the parts always add up to the total exactly.
+ */
+export function splitAmounts(totalUi: string, count: number, decimals: number): string[] {
+  if (count <= 0) return [];
+  const total = uiToBaseUnits(totalUi, decimals);
+  const n = BigInt(count);
+  const base = total / n;
+  const rest = Number(total % n);
+
+  return Array.from({ length: count }, (_, i) =>
+    baseToUi(base + (i < rest ? BigInt(1) : BigInt(0)), decimals)
+  );
+}
+
+/**
+ * Build a split: one share per participant (plus the payee's own, if `includeSelf`),
+ * each with a fresh Solana Pay reference.
+ */
+export function createSplit(params: {
+  id: string;
+  cluster: ClusterId;
+  payee: string;
+  token: TokenInfo;
+  totalUi: string;
+  note: string;
+  includeSelf: boolean;
+  participants: { id: string; name: string; address: string }[];
+}): Split {
+  const { participants, includeSelf, token } = params;
+  const amounts = splitAmounts(
+    params.totalUi,
+    participants.length + (includeSelf ? 1 : 0),
+    token.decimals
+  );
+
+  return {
+    id: params.id,
+    createdAt: Date.now(),
+    cluster: params.cluster,
+    payee: params.payee,
+    tokenSymbol: token.symbol,
+    totalUi: params.totalUi,
+    note: params.note,
+    // The payee takes the last (never larger) share
+    selfShareUi: includeSelf ? amounts[amounts.length - 1] : null,
+    shares: participants.map((p, i) => ({
+      id: p.id,
+      name: p.name,
+      address: p.address,
+      amountUi: amounts[i],
+      reference: createReference().toBase58(),
+    })),
+  };
+}
+
+/** Solana Pay URL and UTILIZAP web link requesting one share */
+export function splitShareLinks(
+  split: Split,
+  share: SplitShare,
+  origin: string,
+  token: TokenInfo = DEFAULT_TOKEN
+): { solanaPayUrl: string; webLink: string } {
+  const note = split.note.trim().slice(0, 140);
+
+  const solanaPayUrl = encodeSolanaPayUrl({
+    recipient: split.payee,
+    amount: share.amountUi,
+    splToken: token.mint,
+    reference: [share.reference],
+    label: "UTILIZAP",
+    message: note || undefined,
+    memo: note || undefined,
+  });
+
+  const params = new URLSearchParams();
+  params.set("to", split.payee);
+  params.set("amount", share.amountUi);
+  if (note) params.set("note", note);
+  params.set("reference", share.reference);
+  if (token.symbol !== DEFAULT_TOKEN.symbol) params.set("token", token.symbol);
+
+  return { solanaPayUrl, webLink: origin ? `${origin}/?${params.toString()}` : "" };
+}
+
+/**
+ * Mark each share paid or outstanding from the wallet's receipts. A receipt carrying
+ * the share's reference wins; otherwise a confirmed incoming payment of at least the
+ * share amount from the participant's address, made after the split, counts.
+ * Each receipt pays at most one share.
+ */
+export function matchSplitShares(split: Split, receipts: SplitReceipt[]): SplitShareStatus[] {
+  const incoming = receipts.filter(
+    (r) =>
+      r.direction === "received" &&
+      r.status === "confirmed" &&
+      r.tokenSymbol === split.tokenSymbol &&
+      r.to === split.payee
+  );
+  const used = new Set<SplitReceipt>();
+
+  const take = (r: SplitReceipt | undefined) => {
+    if (r) used.add(r);
+    return r;
+  };
+
+  const byReference = split.shares.map((share) =>
+    take(incoming.find((r) => !used.has(r) && r.reference === share.reference))
+  );
+
+  return split.shares.map((share, i) => {
+    const receipt =
+      byReference[i] ??
+      take(
+        incoming
+          .filter(
+            (r) =>
+              !used.has(r) &&
+              r.from === share.address &&
+              r.createdAt >= split.createdAt &&
+              Number(r.amountUi) >= Number(share.amountUi)
+          )
+          .sort((a, b) => a.createdAt - b.createdAt)[0]
+      );
+
+    return {
+      share,
+      paid: !!receipt,
+      sig: receipt?.sig ?? null,
+      paidAt: receipt?.createdAt ?? null,
+    };
+  });
+}
@@ -0,0 +1,379 @@
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { TxReceipt } from "./receipts";
+import type { StorageAdapter } from "./storage";
+
+const ALICE = "AEew4ph6kXRa29f9fwqrUkAnYrV6ywhphyJ7zYcev9iM";
+const BOB = "XGWCVbGGV5oXS4KSf1CsU6ZQzW2ZWeDL7fabKT3v2gH";
+
+function receipt(over: Partial<TxReceipt> = {}): TxReceipt {
+  return {
+    id: "r1",
+    sig: "sig-1",
+    createdAt: 1_700_000_000_000,
+    cluster: "mainnet-beta",
+    wallet: ALICE,
+    status: "confirmed",
+    direction: "sent",
+    amountUi: "12.5",
+    tokenSymbol: "USDC",
+    from: ALICE,
+    to: BOB,
+    explorerUrl: null,
+    ...over,
+  };
+}
+
+// storage.ts keeps one cache per module instance, so every test gets fresh modules
+async function freshModules() {
+  vi.resetModules();
+  return {
+    storage: await import("./storage"),
+    receipts: await import("./receipts"),
+    contacts: await import("./contacts"),
+  };
+}
+
+describe("createMemoryAdapter", () => {
+  let adapter: StorageAdapter;
+
+  beforeEach(async () => {
+    adapter = (await freshModules()).storage.createMemoryAdapter();
+  });
+
+  it("applies puts and deletes per store", async () => {
+    await adapter.write({
+      contacts: {
+        puts: [
+          { id: "c1", name: "Bob", address: BOB },
+          { id: "c2", name: "Carol", address: ALICE },
+        ],
+        deletes: [],
+      },
+      meta: { puts: [{ id: "m", value: 1 }], deletes: [] },
+    });
+    await adapter.write({ contacts: { puts: [], deletes: ["c1"] } });
+
+    expect(await adapter.getAll("contacts")).toEqual([
+      { id: "c2", name: "Carol", address: ALICE },
+    ]);
+    expect(await adapter.getAll("meta")).toEqual([{ id: "m", value: 1 }]);
+    expect(await adapter.getAll("wallets")).toEqual([]);
+  });
+
+  it("keys records by the store's key path", async () => {
+    const r = { ...receipt(), key: `mainnet-beta:${ALICE}:r1` };
+    await adapter.write({ receipts: { puts: [r, { ...r, amountUi: "13" }], deletes: [] } });
+
+    expect(await adapter.getAll("receipts")).toEqual([{ ...r, amountUi: "13" }]);
+  });
+
+  it("queries by index", async () => {
+    const a = { ...receipt(), key: "a" };
+    const b = { ...receipt({ id: "r2", wallet: BOB, direction: "received" }), key: "b" };
+    await adapter.write({ receipts: { puts: [a, b], deletes: [] } });
+
+    expect(await adapter.getAllByIndex("receipts", "wallet", BOB)).toEqual([b]);
+    expect(await adapter.getAllByIndex("receipts", "direction", "sent")).toEqual([a]);
+    expect(await adapter.getAllByIndex("receipts", "sig", "nope")).toEqual([]);
+    await expect(adapter.getAllByIndex("receipts", "amountUi", "12.5")).rejects.toThrow(
+      "Unknown index receipts.amountUi"
+    );
+  });
+
+  it("stores copies, like IndexedDB", async () => {
+    const c = { id: "c1", name: "Bob", address: BOB };
+    await adapter.write({ contacts: { puts: [c], deletes: [] } });
+    c.name = "Changed";
+
+    const [stored] = await adapter.getAll("contacts");
+    expect(stored.name).toBe("Bob");
+    stored.name = "Changed again";
+    expect((await adapter.getAll("contacts"))[0].name).toBe("Bob");
+  });
+});
+
+describe("openStorage", () => {
+  it("persists cached writes and hydrates them in the next session", async () => {
+    const first = await freshModules();
+    const adapter = first.storage.createMemoryAdapter();
+    await first.storage.openStorage({ adapter });
+
+    first.receipts.upsertReceipt(receipt());
+    first.contacts.addContacts([{ id: "c1", name: "Bob", address: BOB }]);
+    await first.storage.flushStorage();
+
+    expect(await adapter.getAll("receipts")).toEqual([
+      { ...receipt(), key: `mainnet-beta:${ALICE}:r1` },
+    ]);
+
+    const second = await freshModules();
+    await second.storage.openStorage({ adapter });
+    expect(second.receipts.loadReceipts("mainnet-beta", ALICE)).toEqual([receipt()]);
+    expect(second.contacts.loadContacts()).toEqual([{ id: "c1", name: "Bob", address: BOB }]);
+  });
+
+  it("keeps writes made before hydration finished", async () => {
+    const first = await freshModules();
+    const adapter = first.storage.createMemoryAdapter();
+    await first.storage.openStorage({ adapter });
+    first.receipts.upsertReceipt(receipt({ note: "old" }));
+    await first.storage.flushStorage();
+
+    const second = await freshModules();
+    const opening = second.storage.openStorage({ adapter });
+    second.receipts.upsertReceipt(receipt({ note: "new" }));
+    await opening;
+    await second.storage.flushStorage();
+
+    expect(second.receipts.loadReceipts("mainnet-beta", ALICE)[0].note).toBe("new");
+    expect((await adapter.getAll("receipts"))[0].note).toBe("new");
+  });
+
+  it("falls back to memory when the adapter can't open", async () => {
+    const { storage, contacts } = await freshModules();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const broken: StorageAdapter = {
+      kind: "indexeddb",
+      getAll: () => Promise.reject(new Error("blocked")),
+      getAllByIndex: () => Promise.reject(new Error("blocked")),
+      write: () => Promise.reject(new Error("blocked")),
+    };
+
+    await storage.openStorage({ adapter: broken });
+    contacts.addContacts([{ id: "c1", name: "Bob", address: BOB }]);
+    await storage.flushStorage();
+
+    expect(storage.isStorageReady()).toBe(true);
+    expect(contacts.loadContacts()).toHaveLength(1);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe("cached indexes", () => {
+  it("follow puts, updates and deletes", async () => {
+    const { storage, receipts } = await freshModules();
+    await storage.openStorage({ adapter: storage.createMemoryAdapter() });
+
+    receipts.upsertReceipts([
+      receipt(),
+      receipt({ id: "r2", sig: "sig-2", createdAt: 1_700_000_000_500 }),
+      receipt({ id: "r3", sig: "sig-3", cluster: "devnet" }),
+    ]);
+    expect(receipts.loadReceipts("mainnet-beta", ALICE).map((r) => r.id)).toEqual(["r2", "r1"]);
+    expect(receipts.loadClusterReceipts("devnet").map((r) => r.id)).toEqual(["r3"]);
+
+    // Same key, new sig: the old sig must stop matching
+    receipts.upsertReceipt(receipt({ sig: "sig-1b" }));
+    expect(receipts.loadReceiptsBySig("sig-1")).toEqual([]);
+    expect(receipts.loadReceiptsBySig("sig-1b")).toHaveLength(1);
+
+    receipts.saveReceipts("mainnet-beta", ALICE, []);
+    expect(receipts.loadReceipts("mainnet-beta", ALICE)).toEqual([]);
+    expect(receipts.loadReceipts("devnet", ALICE)).toHaveLength(1);
+    expect(storage.countStoreBy("receipts", "wallet", ALICE)).toBe(1);
+    expect(() => storage.readStoreBy("receipts", "amountUi", "12.5")).toThrow();
+  });
+
+  it("prune only the oldest receipts of a wallet over the cap", async () => {
+    const { storage, receipts } = await freshModules();
+    await storage.openStorage({ adapter: storage.createMemoryAdapter() });
+
+    const many = Array.from({ length: receipts.RECEIPTS_CAP + 2 }, (_, i) =>
+      receipt({ id: `r${i}`, sig: `sig-${i}`, createdAt: 1_700_000_000_000 + i })
+    );
+    receipts.upsertReceipts(many);
+    receipts.upsertReceipt(receipt({ id: "bob", wallet: BOB, to: ALICE, direction: "received" }));
+
+    const kept = receipts.loadReceipts("mainnet-beta", ALICE);
+    expect(kept).toHaveLength(receipts.RECEIPTS_CAP);
+    expect(kept.at(-1)!.id).toBe("r2");
+    expect(receipts.loadReceipts("mainnet-beta", BOB)).toHaveLength(1);
+  });
+});
+
+describe("legacy localStorage migration", () => {
+  let local: Map<string, string>;
+
+  beforeEach(() => {
+    local = new Map();
+    vi.stubGlobal("window", {
+      localStorage: {
+        getItem: (k: string) => local.get(k) ?? null,
+        setItem: (k: string, v: string) => local.set(k, v),
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Receipts from before per-wallet scoping have no wallet field
+  function withoutWallet(r: TxReceipt): Partial<TxReceipt> {
+    const copy: Partial<TxReceipt> = { ...r };
+    delete copy.wallet;
+    return copy;
+  }
+
+  function legacySeed(m: Awaited<ReturnType<typeof freshModules>>) {
+    return () => ({
+      receipts: m.receipts.readLegacyReceipts(),
+      contacts: m.contacts.readLegacyContacts(),
+      contactsMeta: m.contacts.readLegacyContactsMeta(),
+    });
+  }
+
+  it("imports uz_receipts_v2 and uz_contacts_v1 once, leaving the old keys", async () => {
+    const sent = withoutWallet(receipt());
+    const received = withoutWallet(
+      receipt({ id: "r2", cluster: "devnet", direction: "received", from: BOB, to: ALICE })
+    );
+    local.set("uz_receipts_v2", JSON.stringify([sent, { id: "broken" }]));
+    local.set("uz_receipts_v2:devnet", JSON.stringify([received]));
+    local.set("uz_contacts_v1", JSON.stringify([{ id: "c1", name: " Bob ", address: BOB }]));
+    local.set("uz_contacts_meta_v1", JSON.stringify({ c1: { lastUsedAt: 42 }, c2: {} }));
+
+    const m = await freshModules();
+    const adapter = m.storage.createMemoryAdapter();
+    await m.storage.openStorage({ adapter, legacy: legacySeed(m) });
+
+    expect(m.receipts.loadReceipts("mainnet-beta", ALICE)).toEqual([receipt()]);
+    expect(m.receipts.loadReceipts("devnet", ALICE)).toEqual([
+      receipt({ id: "r2", cluster: "devnet", direction: "received", from: BOB, to: ALICE }),
+    ]);
+    expect(m.contacts.loadContacts()).toEqual([{ id: "c1", name: "Bob", address: BOB }]);
+    // Usage recorded before scoping counts for every wallet
+    expect(m.contacts.loadContactsMeta(ALICE)).toEqual({ c1: { lastUsedAt: 42 } });
+    expect(m.contacts.loadContactsMeta(BOB)).toEqual({ c1: { lastUsedAt: 42 } });
+    expect(local.get("uz_contacts_v1")).toBeDefined();
+
+    // A later session must not re-import (e.g. receipts deleted since then)
+    m.receipts.saveReceipts("mainnet-beta", ALICE, []);
+    await m.storage.flushStorage();
+
+    const next = await freshModules();
+    await next.storage.openStorage({ adapter, legacy: legacySeed(next) });
+    expect(next.receipts.loadReceipts("mainnet-beta", ALICE)).toEqual([]);
+    expect(next.contacts.loadContacts()).toHaveLength(1);
+  });
+
+  it("records the import even when there was nothing to copy", async () => {
+    const m = await freshModules();
+    const adapter = m.storage.createMemoryAdapter();
+    await m.storage.openStorage({ adapter, legacy: legacySeed(m) });
+
+    expect((await adapter.getAll("meta")).map((r) => r.id)).toContain(
+      "legacy-localstorage-import"
+    );
+  });
+});
+
+describe("createIndexedDbAdapter", () => {
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function openRaw(version: number): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const r = indexedDB.open("test", version);
+      r.onsuccess = () => resolve(r.result);
+      r.onerror = () => reject(r.error);
+    });
+  }
+
+  it("steps aside when another tab upgrades, and flags this tab as outdated", async () => {
+    const { storage } = await freshModules();
+    await storage.openStorage({ adapter: storage.createIndexedDbAdapter("test") });
+    const changed = vi.fn();
+    storage.subscribeStorage(changed);
+
+    // Would stay blocked if this tab kept its connection open
+    const newer = await openRaw(storage.DB_VERSION + 1);
+    newer.close();
+
+    expect(storage.getStorageIssue()).toBe("outdated");
+    expect(changed).toHaveBeenCalled();
+  });
+
+  it("reopens after the database was deleted elsewhere", async () => {
+    const { storage, contacts } = await freshModules();
+    const adapter = storage.createIndexedDbAdapter("test");
+    await storage.openStorage({ adapter });
+
+    await new Promise<void>((resolve, reject) => {
+      const r = indexedDB.deleteDatabase("test");
+      r.onsuccess = () => resolve();
+      r.onerror = () => reject(r.error);
+    });
+
+    contacts.addContacts([{ id: "c1", name: "Bob", address: BOB }]);
+    await storage.flushStorage();
+
+    expect(storage.getStorageIssue()).toBeNull();
+    expect(await adapter.getAll("contacts")).toEqual([{ id: "c1", name: "Bob", address: BOB }]);
+  });
+
+  it("upgrades a version 1 database to per-wallet scoping", async () => {
+    // Schema and records as version 1 wrote them
+    await new Promise<void>((resolve, reject) => {
+      const r = indexedDB.open("test", 1);
+      r.onupgradeneeded = () => {
+        const d = r.result;
+        const receipts = d.createObjectStore("receipts", { keyPath: "key" });
+        for (const f of ["wallet", "sig", "createdAt", "direction", "cluster"]) {
+          receipts.createIndex(f, f);
+        }
+        d.createObjectStore("contacts", { keyPath: "id" }).createIndex("address", "address");
+        d.createObjectStore("contactsMeta", { keyPath: "id" });
+        d.createObjectStore("meta", { keyPath: "id" });
+
+        receipts.put({ ...receipt(), key: "mainnet-beta:r1" });
+        r.transaction!.objectStore("contactsMeta").put({ id: "c1", lastUsedAt: 42 });
+        r.transaction!.objectStore("meta").put({ id: "legacy-localstorage-import", value: 1 });
+      };
+      r.onsuccess = () => {
+        r.result.close();
+        resolve();
+      };
+      r.onerror = () => reject(r.error);
+    });
+
+    const { storage, receipts, contacts } = await freshModules();
+    const adapter = storage.createIndexedDbAdapter("test");
+    await storage.openStorage({ adapter });
+
+    expect(storage.getStorageIssue()).toBeNull();
+    expect(receipts.loadReceipts("mainnet-beta", ALICE)).toEqual([receipt()]);
+    expect((await adapter.getAll("receipts")).map((r) => r.key)).toEqual([
+      `mainnet-beta:${ALICE}:r1`,
+    ]);
+    expect(contacts.loadContactsMeta(BOB)).toEqual({ c1: { lastUsedAt: 42 } });
+    expect(await adapter.getAllByIndex("contacts", "wallet", ALICE)).toEqual([]);
+
+    const { rememberWallet } = await import("./wallets");
+    rememberWallet(ALICE, "Phantom");
+    await storage.flushStorage();
+    expect((await adapter.getAll("wallets")).map((w) => w.address)).toEqual([ALICE]);
+  });
+
+  it("reports the memory fallback when an older tab blocks the upgrade", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    // An old connection that ignores versionchange
+    const old = await openRaw(1);
+
+    const { storage } = await freshModules();
+    await storage.openStorage({ adapter: storage.createIndexedDbAdapter("test") });
+
+    expect(storage.isStorageReady()).toBe(true);
+    expect(storage.getStorageIssue()).toBe("memory");
+    old.close();
+  });
+});
@@ -0,0 +1,566 @@
+// src/app/lib/storage.ts
+// Typed persistence on IndexedDB. Stores are hydrated into an in-memory cache once,
+// so reads stay synchronous; writes update the cache and are flushed per record.
+import type { Contact } from "./contacts";
+import type { TxReceipt } from "./receipts";
+import type { KnownWallet } from "./wallets";
+
+/** When a contact was last used from a wallet ("" = recorded before per-wallet scoping) */
+export type ContactMetaRecord = { contactId: string; wallet: string; lastUsedAt: number };
+export type MetaRecord = { id: string; value: unknown };
+
+/** Receipts as persisted: keyed per cluster and wallet */
+export type StoredReceipt = TxReceipt & { key: string };
+export type StoredContactMeta = ContactMetaRecord & { key: string };
+
+type Schema = {
+  receipts: { value: TxReceipt; record: StoredReceipt };
+  contacts: { value: Contact; record: Contact };
+  contactsMeta: { value: ContactMetaRecord; record: StoredContactMeta };
+  wallets: { value: KnownWallet; record: KnownWallet };
+  meta: { value: MetaRecord; record: MetaRecord };
+};
+
+export type StoreName = keyof Schema;
+export type StoreValue<S extends StoreName> = Schema[S]["value"];
+export type StoreRecord<S extends StoreName> = Schema[S]["record"];
+
+export type StoreChanges = {
+  [S in StoreName]?: { puts: StoreRecord<S>[]; deletes: string[] };
+};
+
+/** Where records live; IndexedDB in the browser, memory in tests or as a fallback */
+export type StorageAdapter = {
+  kind: "indexeddb" | "memory";
+  getAll: <S extends StoreName>(store: S) => Promise<StoreRecord<S>[]>;
+  getAllByIndex: <S extends StoreName>(
+    store: S,
+    index: string,
+    value: IDBValidKey
+  ) => Promise<StoreRecord<S>[]>;
+  /** Applied atomically */
+  write: (changes: StoreChanges) => Promise<void>;
+};
+
+/** Data to import the first time storage opens (the old localStorage keys) */
+export type LegacySeed = {
+  [S in Exclude<StoreName, "meta" | "wallets">]?: StoreValue<S>[];
+};
+
+export const DB_NAME = "utilizap";
+export const DB_VERSION = 2;
+
+const LEGACY_IMPORT_ID = "legacy-localstorage-import";
+
+type StoreDef<S extends StoreName> = {
+  keyPath: string;
+  /** index name -> record field */
+  indexes: Record<string, string>;
+  key: (value: StoreValue<S>) => string;
+  toRecord: (value: StoreValue<S>) => StoreRecord<S>;
+  fromRecord: (record: StoreRecord<S>) => StoreValue<S>;
+};
+
+const identity = <T>(v: T) => v;
+
+function withoutKey<T extends { key: string }>(record: T): Omit<T, "key"> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { key, ...value } = record;
+  return value;
+}
+
+// The same signature is "sent" for one wallet and "received" for another
+const receiptKey = (r: TxReceipt) => `${r.cluster}:${r.wallet}:${r.id}`;
+const contactMetaKey = (m: ContactMetaRecord) => `${m.wallet}:${m.contactId}`;
+
+const STORES: { [S in StoreName]: StoreDef<S> } = {
+  receipts: {
+    keyPath: "key",
+    indexes: {
+      wallet: "wallet",
+      sig: "sig",
+      createdAt: "createdAt",
+      direction: "direction",
+      cluster: "cluster",
+    },
+    key: receiptKey,
+    toRecord: (r) => ({ ...r, key: receiptKey(r) }),
+    fromRecord: withoutKey,
+  },
+  contacts: {
+    keyPath: "id",
+    indexes: { address: "address", wallet: "wallet" },
+    key: (c) => c.id,
+    toRecord: identity,
+    fromRecord: identity,
+  },
+  contactsMeta: {
+    keyPath: "key",
+    indexes: { wallet: "wallet" },
+    key: contactMetaKey,
+    toRecord: (m) => ({ ...m, key: contactMetaKey(m) }),
+    fromRecord: withoutKey,
+  },
+  wallets: {
+    keyPath: "address",
+    indexes: {},
+    key: (w) => w.address,
+    toRecord: identity,
+    fromRecord: identity,
+  },
+  meta: {
+    keyPath: "id",
+    indexes: {},
+    key: (m) => m.id,
+    toRecord: identity,
+    fromRecord: identity,
+  },
+};
+
+const STORE_NAMES = Object.keys(STORES) as StoreName[];
+
+/**
+ * STORES as version 1 shipped them. Upgrades must not read STORES, which moves on
+ * with the current schema.
+ */
+const V1_STORES: Record<string, Pick<StoreDef<StoreName>, "keyPath" | "indexes">> = {
+  receipts: {
+    keyPath: "key",
+    indexes: {
+      wallet: "wallet",
+      sig: "sig",
+      createdAt: "createdAt",
+      direction: "direction",
+      cluster: "cluster",
+    },
+  },
+  contacts: { keyPath: "id", indexes: { address: "address" } },
+  contactsMeta: { keyPath: "id", indexes: {} },
+  meta: { keyPath: "id", indexes: {} },
+};
+
+/**
+ * Schema upgrades, by the version they upgrade to. Add a new entry (and bump
+ * DB_VERSION) for every schema change; never edit a shipped one.
+ */
+const UPGRADES: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    for (const name of Object.keys(V1_STORES)) {
+      const def = V1_STORES[name];
+      const os = db.createObjectStore(name, { keyPath: def.keyPath });
+      for (const [index, field] of Object.entries(def.indexes)) os.createIndex(index, field);
+    }
+  },
+  // Per-wallet scoping: receipts re-keyed by wallet, contact usage per wallet, known wallets
+  2: (db, tx) => {
+    const receipts = tx.objectStore("receipts");
+    receipts.openCursor().onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const r = cursor.value;
+      const key = `${r.cluster}:${r.wallet}:${r.id}`;
+      if (cursor.key !== key) {
+        cursor.delete();
+        receipts.put({ ...r, key });
+      }
+      cursor.continue();
+    };
+
+    tx.objectStore("contacts").createIndex("wallet", "wallet");
+
+    const oldMeta = tx.objectStore("contactsMeta").getAll();
+    oldMeta.onsuccess = () => {
+      db.deleteObjectStore("contactsMeta");
+      const meta = db.createObjectStore("contactsMeta", { keyPath: "key" });
+      meta.createIndex("wallet", "wallet");
+      // Usage from before scoping can't be attributed, so it counts for every wallet
+      for (const m of oldMeta.result) {
+        meta.put({ key: `:${m.id}`, contactId: m.id, wallet: "", lastUsedAt: m.lastUsedAt });
+      }
+    };
+
+    db.createObjectStore("wallets", { keyPath: "address" });
+  },
+};
+
+// --------------------
+// IndexedDB adapter
+// --------------------
+function request<T>(r: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+export function createIndexedDbAdapter(name = DB_NAME): StorageAdapter {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const open = () =>
+    (db ??= new Promise((resolve, reject) => {
+      let gaveUp = false;
+      const r = indexedDB.open(name, DB_VERSION);
+      r.onupgradeneeded = (e) => {
+        for (let v = e.oldVersion + 1; v <= DB_VERSION; v++) {
+          UPGRADES[v]?.(r.result, r.transaction!);
+        }
+      };
+      r.onsuccess = () => {
+        const d = r.result;
+        // Opened after we fell back to memory; don't hold a connection nobody uses
+        if (gaveUp) {
+          d.close();
+          return;
+        }
+        d.onversionchange = (e) => {
+          // Let the other tab upgrade (or delete) the database. The next call reopens;
+          // if it was upgraded, this tab's code is outdated and has to reload.
+          d.close();
+          db = null;
+          if (e.newVersion !== null) reportIssue("outdated");
+        };
+        resolve(d);
+      };
+      r.onerror = () => reject(r.error);
+      r.onblocked = () => {
+        gaveUp = true;
+        db = null;
+        reject(new Error("IndexedDB upgrade blocked by another tab"));
+      };
+    }));
+
+  return {
+    kind: "indexeddb",
+    getAll: async (store) => {
+      const d = await open();
+      return request(d.transaction(store).objectStore(store).getAll());
+    },
+    getAllByIndex: async (store, index, value) => {
+      const d = await open();
+      return request(d.transaction(store).objectStore(store).index(index).getAll(value));
+    },
+    write: async (changes) => {
+      const names = Object.keys(changes) as StoreName[];
+      if (names.length === 0) return;
+      const d = await open();
+      const tx = d.transaction(names, "readwrite");
+      for (const name of names) {
+        const os = tx.objectStore(name);
+        const c = changes[name]!;
+        for (const key of c.deletes) os.delete(key);
+        for (const record of c.puts) os.put(record);
+      }
+      await transactionDone(tx);
+    },
+  };
+}
+
+// --------------------
+// In-memory adapter (tests, and the fallback when IndexedDB can't open)
+// --------------------
+export function createMemoryAdapter(): StorageAdapter {
+  const data = new Map<StoreName, Map<string, unknown>>(
+    STORE_NAMES.map((n) => [n, new Map()])
+  );
+  const keyOf = (store: StoreName, record: unknown) =>
+    String((record as Record<string, unknown>)[STORES[store].keyPath]);
+
+  // Reads hand out copies too, as IndexedDB does
+  return {
+    kind: "memory",
+    getAll: async <S extends StoreName>(store: S) =>
+      structuredClone([...data.get(store)!.values()]) as StoreRecord<S>[],
+    getAllByIndex: async <S extends StoreName>(store: S, index: string, value: IDBValidKey) => {
+      const field = STORES[store].indexes[index];
+      if (!field) throw new Error(`Unknown index ${store}.${index}`);
+      return structuredClone(
+        [...data.get(store)!.values()].filter((r) => (r as Record<string, unknown>)[field] === value)
+      ) as StoreRecord<S>[];
+    },
+    write: async (changes) => {
+      for (const name of Object.keys(changes) as StoreName[]) {
+        const c = changes[name]!;
+        const map = data.get(name)!;
+        for (const key of c.deletes) map.delete(key);
+        for (const record of c.puts) map.set(keyOf(name, record), structuredClone(record));
+      }
+    },
+  };
+}
+
+// --------------------
+// Cache + write queue
+// --------------------
+type Cache = { [S in StoreName]: Map<string, StoreValue<S>> };
+
+function emptyCache(): Cache {
+  return {
+    receipts: new Map(),
+    contacts: new Map(),
+    contactsMeta: new Map(),
+    wallets: new Map(),
+    meta: new Map(),
+  };
+}
+
+/** index name -> field value -> keys; the cache's copy of each store's IndexedDB indexes */
+type CacheIndexes = { [S in StoreName]: Map<string, Map<unknown, Set<string>>> };
+
+function emptyIndexes(): CacheIndexes {
+  const out = {} as CacheIndexes;
+  for (const name of STORE_NAMES) {
+    out[name] = new Map(Object.keys(STORES[name].indexes).map((index) => [index, new Map()]));
+  }
+  return out;
+}
+
+const cache: Cache = emptyCache();
+const indexes: CacheIndexes = emptyIndexes();
+// Writes not yet persisted (null = delete); they also win over hydration
+const pending: { [S in StoreName]: Map<string, StoreValue<S> | null> } = {
+  receipts: new Map(),
+  contacts: new Map(),
+  contactsMeta: new Map(),
+  wallets: new Map(),
+  meta: new Map(),
+};
+
+/**
+ * Why changes aren't being saved: "memory" when IndexedDB couldn't open (another tab
+ * blocking an upgrade, private mode), "outdated" when a newer version of the app
+ * upgraded the database from another tab.
+ */
+export type StorageIssue = "memory" | "outdated";
+
+let adapter: StorageAdapter | null = null;
+let opening: Promise<void> | null = null;
+let ready = false;
+let issue: StorageIssue | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> = Promise.resolve();
+const listeners = new Set<() => void>();
+
+function indexedFields(store: StoreName, value: unknown): [string, unknown][] {
+  return Object.entries(STORES[store].indexes)
+    .map(([index, field]): [string, unknown] => [index, (value as Record<string, unknown>)[field]])
+    .filter(([, v]) => v !== undefined);
+}
+
+function cacheDelete(store: StoreName, key: string) {
+  const c = cache[store] as Map<string, unknown>;
+  const prev = c.get(key);
+  if (prev === undefined) return;
+  c.delete(key);
+  for (const [index, v] of indexedFields(store, prev)) {
+    const byValue = indexes[store].get(index)!;
+    const keys = byValue.get(v);
+    keys?.delete(key);
+    if (keys?.size === 0) byValue.delete(v);
+  }
+}
+
+function cachePut(store: StoreName, key: string, value: unknown) {
+  cacheDelete(store, key);
+  (cache[store] as Map<string, unknown>).set(key, value);
+  // Like IndexedDB, records without the field stay out of that index
+  for (const [index, v] of indexedFields(store, value)) {
+    const byValue = indexes[store].get(index)!;
+    let keys = byValue.get(v);
+    if (!keys) byValue.set(v, (keys = new Set()));
+    keys.add(key);
+  }
+}
+
+function indexKeys(store: StoreName, index: string, value: unknown): Set<string> | undefined {
+  const byValue = indexes[store].get(index);
+  if (!byValue) throw new Error(`Unknown index ${store}.${index}`);
+  return byValue.get(value);
+}
+
+export function readStore<S extends StoreName>(store: S): StoreValue<S>[] {
+  return [...cache[store].values()] as StoreValue<S>[];
+}
+
+/** Values whose `index` field equals `value`, looked up through the cached index */
+export function readStoreBy<S extends StoreName>(
+  store: S,
+  index: string,
+  value: unknown
+): StoreValue<S>[] {
+  const c = cache[store] as Map<string, StoreValue<S>>;
+  return [...(indexKeys(store, index, value) ?? [])].map((key) => c.get(key)!);
+}
+
+export function countStoreBy(store: StoreName, index: string, value: unknown): number {
+  return indexKeys(store, index, value)?.size ?? 0;
+}
+
+export function getStored<S extends StoreName>(store: S, key: string): StoreValue<S> | undefined {
+  return cache[store].get(key) as StoreValue<S> | undefined;
+}
+
+export function storeKey<S extends StoreName>(store: S, value: StoreValue<S>): string {
+  return STORES[store].key(value);
+}
+
+export function writeStore<S extends StoreName>(
+  store: S,
+  puts: StoreValue<S>[],
+  deletes: string[] = []
+) {
+  const p = pending[store] as Map<string, StoreValue<S> | null>;
+  for (const key of deletes) {
+    cacheDelete(store, key);
+    p.set(key, null);
+  }
+  for (const value of puts) {
+    const key = STORES[store].key(value);
+    cachePut(store, key, value);
+    p.set(key, value);
+  }
+  scheduleFlush();
+}
+
+function scheduleFlush() {
+  if (!adapter || flushTimer) return;
+  // Coalesce a burst of writes (e.g. a page of imported history) into one transaction
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushing = flushing.then(flush);
+  }, 0);
+}
+
+async function flush() {
+  if (!adapter) return;
+  const changes: StoreChanges = {};
+
+  for (const name of STORE_NAMES) {
+    const p = pending[name];
+    if (p.size === 0) continue;
+    const puts: unknown[] = [];
+    const deletes: string[] = [];
+    for (const [key, value] of p) {
+      if (value === null) deletes.push(key);
+      else puts.push((STORES[name].toRecord as (v: unknown) => unknown)(value));
+    }
+    (changes as Record<string, unknown>)[name] = { puts, deletes };
+    p.clear();
+  }
+
+  if (Object.keys(changes).length === 0) return;
+  try {
+    await adapter.write(changes);
+  } catch (e) {
+    console.error("Storage write failed:", e);
+  }
+}
+
+/** Resolves once pending writes reach the adapter (tests, before unload) */
+export function flushStorage(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+    flushing = flushing.then(flush);
+  }
+  return flushing;
+}
+
+/** Query an index directly on the adapter (bypasses the cache) */
+export async function queryStore<S extends StoreName>(
+  store: S,
+  index: string,
+  value: IDBValidKey
+): Promise<StoreValue<S>[]> {
+  if (!adapter) return [];
+  const records = await adapter.getAllByIndex(store, index, value);
+  return records.map((r) => STORES[store].fromRecord(r as never) as StoreValue<S>);
+}
+
+async function hydrate(a: StorageAdapter, legacy?: () => LegacySeed) {
+  const loaded = {} as { [S in StoreName]: StoreRecord<S>[] };
+  for (const name of STORE_NAMES) {
+    (loaded as Record<string, unknown>)[name] = await a.getAll(name);
+  }
+
+  // One-time copy of the old localStorage data. The old keys are left in place.
+  if (legacy && !loaded.meta.some((m) => m.id === LEGACY_IMPORT_ID)) {
+    const seed = legacy();
+    const changes: StoreChanges = {
+      meta: { puts: [{ id: LEGACY_IMPORT_ID, value: Date.now() }], deletes: [] },
+    };
+    for (const name of Object.keys(seed) as (keyof LegacySeed)[]) {
+      const def = STORES[name] as StoreDef<typeof name>;
+      const puts = (seed[name] ?? []).map((v) => def.toRecord(v as never));
+      (changes as Record<string, unknown>)[name] = { puts, deletes: [] };
+      (loaded as Record<string, unknown[]>)[name].push(...puts);
+    }
+    await a.write(changes);
+    loaded.meta.push({ id: LEGACY_IMPORT_ID, value: Date.now() });
+  }
+
+  for (const name of STORE_NAMES) {
+    const def = STORES[name] as StoreDef<typeof name>;
+    for (const record of loaded[name]) {
+      const value = def.fromRecord(record as never);
+      const key = def.key(value as never);
+      // Anything written before hydration finished is newer
+      if (!pending[name].has(key)) cachePut(name, key, value);
+    }
+  }
+}
+
+/**
+ * Open storage once: hydrate the cache from `adapter` (importing `legacy` data the first
+ * time). Falls back to memory if the adapter can't open, so the app still works.
+ */
+export function openStorage(opts: {
+  adapter: StorageAdapter;
+  legacy?: () => LegacySeed;
+}): Promise<void> {
+  opening ??= (async () => {
+    try {
+      await hydrate(opts.adapter, opts.legacy);
+      adapter = opts.adapter;
+    } catch (e) {
+      console.warn("Persistent storage unavailable, keeping data in memory:", e);
+      const fallback = createMemoryAdapter();
+      await hydrate(fallback, opts.legacy);
+      adapter = fallback;
+      issue = "memory";
+    }
+    ready = true;
+    scheduleFlush();
+    listeners.forEach((l) => l());
+  })();
+  return opening;
+}
+
+export function isStorageReady(): boolean {
+  return ready;
+}
+
+/** Null while changes are being persisted; see StorageIssue */
+export function getStorageIssue(): StorageIssue | null {
+  return issue;
+}
+
+function reportIssue(next: StorageIssue) {
+  if (issue === next) return;
+  issue = next;
+  listeners.forEach((l) => l());
+}
+
+export function subscribeStorage(cb: () => void) {
+  listeners.add(cb);
+  return () => {
+    listeners.delete(cb);
+  };
+}
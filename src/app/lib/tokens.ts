@@ -0,0 +1,119 @@
+// src/app/lib/tokens.ts
+import { PublicKey } from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+
+import { USDC_DECIMALS, USDC_MINT, USDC_MINT_DEVNET } from "./constants";
+import type { ClusterId } from "./cluster";
+
+export type TokenSymbol = "USDC" | "USDT" | "PYUSD" | "EURC";
+
+export type TokenInfo = {
+  symbol: TokenSymbol;
+  name: string;
+  mint: PublicKey;
+  decimals: number;
+  /** SPL Token or Token-2022; decides ATA derivation and the transfer instruction */
+  programId: PublicKey;
+  /** Fiat the token tracks, for display formatting */
+  currency: "USD" | "EUR";
+};
+
+/**
+ * ✅ MAINNET stablecoins we settle in
+ */
+export const TOKENS: readonly TokenInfo[] = [
+  {
+    symbol: "USDC",
+    name: "USD Coin",
+    mint: USDC_MINT,
+    decimals: USDC_DECIMALS,
+    programId: TOKEN_PROGRAM_ID,
+    currency: "USD",
+  },
+  {
+    symbol: "USDT",
+    name: "Tether USD",
+    mint: new PublicKey("Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB"),
+    decimals: 6,
+    programId: TOKEN_PROGRAM_ID,
+    currency: "USD",
+  },
+  {
+    symbol: "PYUSD",
+    name: "PayPal USD",
+    mint: new PublicKey("2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo"),
+    decimals: 6,
+    programId: TOKEN_2022_PROGRAM_ID,
+    currency: "USD",
+  },
+  {
+    symbol: "EURC",
+    name: "Euro Coin",
+    mint: new PublicKey("HzwqbKZw8HxMN6bF2yFZNrht3c2iXXzpKcFu7uBEDKtr"),
+    decimals: 6,
+    programId: TOKEN_PROGRAM_ID,
+    currency: "EUR",
+  },
+];
+
+export const DEFAULT_TOKEN: TokenInfo = TOKENS[0];
+
+function localnetUsdcMint(): PublicKey {
+  const raw = process.env.NEXT_PUBLIC_LOCALNET_USDC_MINT?.trim();
+  if (!raw) return USDC_MINT_DEVNET;
+  try {
+    return new PublicKey(raw);
+  } catch {
+    return USDC_MINT_DEVNET;
+  }
+}
+
+/**
+ * Test clusters only carry the tokens that have a known mint there.
+ */
+const TOKENS_BY_CLUSTER: Record<ClusterId, readonly TokenInfo[]> = {
+  "mainnet-beta": TOKENS,
+  devnet: [
+    { ...DEFAULT_TOKEN, mint: USDC_MINT_DEVNET },
+    {
+      symbol: "PYUSD",
+      name: "PayPal USD",
+      mint: new PublicKey("CXk2AMBfi3TwaEL2468s6zP8xq9NxTXjp9gjMgzeUynM"),
+      decimals: 6,
+      programId: TOKEN_2022_PROGRAM_ID,
+      currency: "USD",
+    },
+  ],
+  localnet: [{ ...DEFAULT_TOKEN, mint: localnetUsdcMint() }],
+};
+
+export function getTokens(cluster: ClusterId = "mainnet-beta"): readonly TokenInfo[] {
+  return TOKENS_BY_CLUSTER[cluster];
+}
+
+export function isTokenSymbol(value: unknown): value is TokenSymbol {
+  return TOKENS.some((t) => t.symbol === value);
+}
+
+export function getTokenBySymbol(
+  symbol: string,
+  cluster: ClusterId = "mainnet-beta"
+): TokenInfo | null {
+  return getTokens(cluster).find((t) => t.symbol === symbol) ?? null;
+}
+
+export function getTokenByMint(
+  mint: PublicKey | string,
+  cluster: ClusterId = "mainnet-beta"
+): TokenInfo | null {
+  const m = typeof mint === "string" ? mint : mint.toBase58();
+  return getTokens(cluster).find((t) => t.mint.toBase58() === m) ?? null;
+}
+
+export function formatTokenAmount(n: number, token: TokenInfo): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: token.currency,
+    maximumFractionDigits: 2,
+  }).format(n);
+}
@@ -0,0 +1,139 @@
+import { Keypair, SystemProgram, Transaction, type Connection } from "@solana/web3.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  TxExpiredError,
+  TxOnChainError,
+  TxOutcomeUnknownError,
+  confirmWithRebroadcast,
+  pollTxOutcome,
+  transactionSignature,
+} from "./transfer";
+
+type Status = { err: unknown; confirmationStatus: string } | null;
+
+/** Answers from `script`, one entry per getSignatureStatuses call ("down" = RPC error) */
+function fakeConnection(script: (Status | "down")[], blockHeight = 100) {
+  let i = 0;
+  return {
+    getSignatureStatuses: vi.fn(async () => {
+      const next = script[Math.min(i++, script.length - 1)];
+      if (next === "down") throw new Error("fetch failed");
+      return { context: { slot: 1 }, value: [next] };
+    }),
+    getBlockHeight: vi.fn(async () => blockHeight),
+    sendRawTransaction: vi.fn(async () => "sig"),
+  };
+}
+
+const asConnection = (c: ReturnType<typeof fakeConnection>) => c as unknown as Connection;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("confirmWithRebroadcast", () => {
+  it("reports an unknown outcome, not a failure, when the RPC stays down", async () => {
+    const conn = fakeConnection(["down"]);
+    const done = confirmWithRebroadcast({
+      connection: asConnection(conn),
+      signature: "sig-1",
+      raw: new Uint8Array(),
+      lastValidBlockHeight: 200,
+      intervalMs: 10,
+    });
+    const settled = expect(done).rejects.toBeInstanceOf(TxOutcomeUnknownError);
+
+    await vi.runAllTimersAsync();
+    await settled;
+    await expect(done).rejects.toMatchObject({ signature: "sig-1" });
+  });
+});
+
+describe("pollTxOutcome", () => {
+  it("rides out an outage and resolves once the tx confirms", async () => {
+    const conn = fakeConnection([
+      "down",
+      "down",
+      null,
+      { err: null, confirmationStatus: "confirmed" },
+    ]);
+    const done = pollTxOutcome({
+      connection: asConnection(conn),
+      signature: "sig-1",
+      lastValidBlockHeight: 200,
+      intervalMs: 10,
+    });
+
+    await vi.runAllTimersAsync();
+    await expect(done).resolves.toBeUndefined();
+    expect(conn.getSignatureStatuses).toHaveBeenCalledTimes(4);
+  });
+
+  it("reports expiry once the blockhash is past and the tx never landed", async () => {
+    const conn = fakeConnection([null], 201);
+    const done = pollTxOutcome({
+      connection: asConnection(conn),
+      signature: "sig-1",
+      lastValidBlockHeight: 200,
+      intervalMs: 10,
+    });
+    const settled = expect(done).rejects.toBeInstanceOf(TxExpiredError);
+
+    await vi.runAllTimersAsync();
+    await settled;
+  });
+
+  it("reports an on-chain failure", async () => {
+    const conn = fakeConnection([
+      { err: { InstructionError: [1, "Custom"] }, confirmationStatus: "confirmed" },
+    ]);
+    const done = pollTxOutcome({
+      connection: asConnection(conn),
+      signature: "sig-1",
+      intervalMs: 10,
+    });
+    const settled = expect(done).rejects.toBeInstanceOf(TxOnChainError);
+
+    await vi.runAllTimersAsync();
+    await settled;
+  });
+
+  it("never calls it expired without a block height to compare", async () => {
+    const finalized = { err: null, confirmationStatus: "finalized" };
+    const conn = fakeConnection([null, null, null, finalized], 999);
+    const done = pollTxOutcome({
+      connection: asConnection(conn),
+      signature: "sig-1",
+      intervalMs: 10,
+    });
+
+    await vi.runAllTimersAsync();
+    await expect(done).resolves.toBeUndefined();
+    expect(conn.getBlockHeight).not.toHaveBeenCalled();
+  });
+});
+
+describe("transactionSignature", () => {
+  it("is the id the RPC will report, known before sending", () => {
+    const payer = Keypair.generate();
+    const tx = new Transaction({
+      feePayer: payer.publicKey,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    }).add(
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: Keypair.generate().publicKey,
+        lamports: 1,
+      })
+    );
+
+    expect(() => transactionSignature(tx)).toThrow("not signed");
+    tx.sign(payer);
+    expect(transactionSignature(tx)).toMatch(/^[1-9A-HJ-NP-Za-km-z]{64,88}$/);
+  });
+});
@@ -1,12 +1,34 @@
 // src/app/lib/transfer.ts
-import { Connection, PublicKey, Transaction } from "@solana/web3.js";
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  PublicKey,
+  SendTransactionError,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  TransactionVersion,
+  VersionedMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
 import {
   getAssociatedTokenAddress,
   createAssociatedTokenAccountInstruction,
   createTransferCheckedInstruction,
 } from "@solana/spl-token";
+import bs58 from "bs58";
 
-import { USDC_MINT, USDC_DECIMALS } from "./constants";
+import type { ClusterId } from "./cluster";
+import { createMemoInstruction } from "./memo";
+import { DEFAULT_TOKEN, TokenInfo } from "./tokens";
+import { RpcLike, withRpc } from "./rpc";
+import {
+  DEFAULT_PRIORITY_LEVEL,
+  PriorityLevel,
+  estimateComputeUnits,
+  getPriorityFeeMicroLamports,
+  priorityFeeLamports,
+} from "./priorityFee";
 
 export function isValidSolanaAddress(value: string) {
   try {
@@ -17,7 +39,7 @@ export function isValidSolanaAddress(value: string) {
   }
 }
 
-function uiToBaseUnits(amountUi: number | string, decimals: number): bigint {
+export function uiToBaseUnits(amountUi: number | string, decimals: number): bigint {
   const s = String(amountUi).trim();
   if (!/^\d+(\.\d+)?$/.test(s)) throw new Error("Invalid amount");
 
@@ -30,70 +52,432 @@ function uiToBaseUnits(amountUi: number | string, decimals: number): bigint {
   );
 }
 
-/**
- * ✅ Network-agnostic USDC sender (works on mainnet or devnet depending on provider endpoint)
- */
-export async function sendUsdc(params: {
-  connection: Connection;
+export type TransferParams = {
+  connection: RpcLike;
   sender: PublicKey;
   recipient: PublicKey;
   amountUi: number | string;
-  signTransaction: (tx: Transaction) => Promise<Transaction>;
+  token?: TokenInfo;
+  /** Optional note written on-chain as an SPL Memo instruction */
+  memo?: string;
+  /** Solana Pay reference keys, attached read-only to the transfer instruction */
+  references?: PublicKey[];
+  /** Priority fee preset; the CU limit always comes from simulation */
+  priority?: PriorityLevel;
+  /** 0 builds a VersionedTransaction (v0 message); "legacy" a classic Transaction */
+  version?: TransactionVersion;
+  /** Address lookup tables for v0 messages (ignored for legacy) */
+  lookupTables?: AddressLookupTableAccount[];
+};
+
+export type AnyTransaction = Transaction | VersionedTransaction;
+
+/** Same shape as the wallet adapter's signTransaction */
+export type SignTransaction = <T extends AnyTransaction>(tx: T) => Promise<T>;
+
+export type TransferFee = {
+  computeUnitLimit: number;
+  microLamportsPerCu: number;
+  priorityLamports: number;
+  /** Base + priority, as the network will charge it */
+  totalLamports: number;
+};
+
+// Fallback when getFeeForMessage is unavailable
+const LAMPORTS_PER_SIGNATURE = 5000;
+
+export function transactionMessage(tx: AnyTransaction): VersionedMessage {
+  return tx instanceof VersionedTransaction ? tx.message : tx.compileMessage();
+}
+
+/** The fee payer's signature, i.e. the tx id, known as soon as it is signed */
+export function transactionSignature(tx: AnyTransaction): string {
+  const sig = tx instanceof VersionedTransaction ? tx.signatures[0] : tx.signature;
+  if (!sig) throw new Error("Transaction is not signed.");
+  return bs58.encode(sig);
+}
+
+/** v0 when the wallet signs versioned messages, legacy otherwise */
+export function pickTransactionVersion(
+  supported: ReadonlySet<TransactionVersion> | null | undefined
+): TransactionVersion {
+  return supported?.has(0) ? 0 : "legacy";
+}
+
+// Next only inlines literal process.env.NEXT_PUBLIC_* reads
+const ENV_LOOKUP_TABLES: Partial<Record<ClusterId, string | undefined>> = {
+  "mainnet-beta": process.env.NEXT_PUBLIC_LOOKUP_TABLES_MAINNET,
+  devnet: process.env.NEXT_PUBLIC_LOOKUP_TABLES_DEVNET,
+};
+
+/**
+ * Address lookup tables configured for `cluster` (comma/space separated env list).
+ * Tables that fail to load are skipped; the tx just carries those keys inline.
+ */
+export async function fetchLookupTables(
+  connection: RpcLike,
+  cluster: ClusterId
+): Promise<AddressLookupTableAccount[]> {
+  const addresses = (ENV_LOOKUP_TABLES[cluster] ?? "")
+    .split(/[\s,]+/)
+    .filter((a) => a && isValidSolanaAddress(a));
+  if (addresses.length === 0) return [];
+
+  const tables = await Promise.all(
+    addresses.map((a) =>
+      withRpc(connection, (c) => c.getAddressLookupTable(new PublicKey(a)))
+        .then((r) => r.value)
+        .catch(() => null)
+    )
+  );
+  return tables.filter((t): t is AddressLookupTableAccount => t !== null && t.isActive());
+}
+
+/**
+ * Prepend ComputeBudget instructions (CU limit from simulation, priority fee from
+ * recent fees on `writableAccounts`) and compile as legacy or v0.
+ */
+export async function finalizeTransaction(params: {
+  connection: RpcLike;
+  payer: PublicKey;
+  instructions: TransactionInstruction[];
+  writableAccounts: PublicKey[];
+  priority?: PriorityLevel;
+  version?: TransactionVersion;
+  lookupTables?: AddressLookupTableAccount[];
 }) {
-  const { connection, sender, recipient, amountUi, signTransaction } = params;
+  const {
+    connection,
+    payer,
+    instructions,
+    writableAccounts,
+    priority = DEFAULT_PRIORITY_LEVEL,
+    version = "legacy",
+    lookupTables = [],
+  } = params;
+  const useV0 = version === 0;
+
+  const { blockhash, lastValidBlockHeight } = await withRpc(connection, (c) =>
+    c.getLatestBlockhash("confirmed")
+  );
+
+  const [computeUnitLimit, microLamportsPerCu] = await Promise.all([
+    estimateComputeUnits(
+      connection,
+      payer,
+      instructions,
+      blockhash,
+      useV0 ? lookupTables : undefined
+    ),
+    getPriorityFeeMicroLamports(connection, priority, writableAccounts),
+  ]);
+
+  const budgetIx = [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }),
+    ...(microLamportsPerCu > 0
+      ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports: microLamportsPerCu })]
+      : []),
+  ];
 
-  const amountBase = uiToBaseUnits(amountUi, USDC_DECIMALS);
+  let tx: AnyTransaction;
+  if (useV0) {
+    tx = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: blockhash,
+        instructions: [...budgetIx, ...instructions],
+      }).compileToV0Message(lookupTables)
+    );
+  } else {
+    const legacy = new Transaction().add(...budgetIx, ...instructions);
+    legacy.feePayer = payer;
+    legacy.recentBlockhash = blockhash;
+    tx = legacy;
+  }
+
+  const priorityLamports = priorityFeeLamports(computeUnitLimit, microLamportsPerCu);
+  const quoted = await withRpc(connection, (c) =>
+    c.getFeeForMessage(transactionMessage(tx), "confirmed")
+  ).catch(() => null);
+
+  const fee: TransferFee = {
+    computeUnitLimit,
+    microLamportsPerCu,
+    priorityLamports,
+    totalLamports:
+      typeof quoted?.value === "number"
+        ? quoted.value
+        : LAMPORTS_PER_SIGNATURE + priorityLamports,
+  };
+
+  return { tx, blockhash, lastValidBlockHeight, fee };
+}
 
-  const senderAta = await getAssociatedTokenAddress(USDC_MINT, sender, false);
+/**
+ * Build (but don't sign) the exact transfer `sendUsdc` would submit, with
+ * ComputeBudget instructions sized from a simulation and a priority fee
+ * picked from recent fees on the accounts it writes.
+ */
+export async function buildTransferTransaction(params: TransferParams) {
+  const {
+    connection,
+    sender,
+    recipient,
+    amountUi,
+    token = DEFAULT_TOKEN,
+    memo,
+    references = [],
+    priority,
+    version,
+    lookupTables,
+  } = params;
+
+  const { mint, decimals, programId } = token;
+  const amountBase = uiToBaseUnits(amountUi, decimals);
+
+  const senderAta = await getAssociatedTokenAddress(mint, sender, false, programId);
   const recipientAta = await getAssociatedTokenAddress(
-    USDC_MINT,
+    mint,
     recipient,
-    false
+    false,
+    programId
   );
 
-  const senderAtaInfo = await connection.getAccountInfo(senderAta);
+  const senderAtaInfo = await withRpc(connection, (c) => c.getAccountInfo(senderAta));
   if (!senderAtaInfo) {
-    throw new Error("Sender does not have a USDC token account (ATA).");
+    throw new Error(`Sender does not have a ${token.symbol} token account (ATA).`);
   }
 
-  const ix = [];
+  const ix: TransactionInstruction[] = [];
 
-  const recipientAtaInfo = await connection.getAccountInfo(recipientAta);
-  if (!recipientAtaInfo) {
+  const recipientAtaInfo = await withRpc(connection, (c) =>
+    c.getAccountInfo(recipientAta)
+  );
+  const createsRecipientAta = !recipientAtaInfo;
+  if (createsRecipientAta) {
     ix.push(
       createAssociatedTokenAccountInstruction(
         sender,
         recipientAta,
         recipient,
-        USDC_MINT
+        mint,
+        programId
       )
     );
   }
 
-  ix.push(
-    createTransferCheckedInstruction(
-      senderAta,
-      USDC_MINT,
-      recipientAta,
-      sender,
-      amountBase,
-      USDC_DECIMALS
-    )
+  const transferIx = createTransferCheckedInstruction(
+    senderAta,
+    mint,
+    recipientAta,
+    sender,
+    amountBase,
+    decimals,
+    [],
+    programId
   );
 
-  const tx = new Transaction().add(...ix);
-  tx.feePayer = sender;
+  for (const ref of references) {
+    transferIx.keys.push({ pubkey: ref, isSigner: false, isWritable: false });
+  }
+
+  // Solana Pay validation expects the memo right before the transfer, and the transfer last
+  const memoText = (memo ?? "").trim();
+  if (memoText) ix.push(createMemoInstruction(memoText, sender));
+
+  ix.push(transferIx);
+
+  const built = await finalizeTransaction({
+    connection,
+    payer: sender,
+    instructions: ix,
+    writableAccounts: [senderAta, recipientAta],
+    priority,
+    version,
+    lookupTables,
+  });
+
+  return { ...built, createsRecipientAta };
+}
 
-  const { blockhash, lastValidBlockHeight } =
-    await connection.getLatestBlockhash("confirmed");
+/**
+ * ✅ Network-agnostic token sender (works on mainnet or devnet depending on provider endpoint)
+ * Defaults to USDC; pass `token` for any registry mint, including Token-2022.
+ * Pass an RpcPool as `connection` to fail over between endpoints; signing happens once.
+ * Throws the RPC's SendTransactionError if it rejected the tx (e.g. preflight), and
+ * TxOutcomeUnknownError if the send errored out in a way that may still have submitted it.
+ */
+export async function sendUsdc(
+  params: TransferParams & {
+    signTransaction: SignTransaction;
+    /** Called with the tx id once signed, before sending, so it can be saved first */
+    onSigned?: (signature: string, lastValidBlockHeight: number) => void;
+  }
+) {
+  const { connection, signTransaction, onSigned } = params;
 
-  tx.recentBlockhash = blockhash;
+  const { tx, blockhash, lastValidBlockHeight, fee } = await buildTransferTransaction(params);
 
   const signed = await signTransaction(tx);
+  const signature = transactionSignature(signed);
+  onSigned?.(signature, lastValidBlockHeight);
 
-  const signature = await connection.sendRawTransaction(signed.serialize(), {
-    skipPreflight: false,
-  });
+  // Same signed bytes on every endpoint, so a failover resend can't double-pay
+  const raw = signed.serialize();
+  try {
+    await withRpc(connection, (c) => c.sendRawTransaction(raw, { skipPreflight: false }));
+  } catch (e) {
+    if (e instanceof SendTransactionError) throw e;
+    throw new TxOutcomeUnknownError(signature);
+  }
+
+  return { signature, blockhash, lastValidBlockHeight, raw, fee };
+}
+
+// --------------------
+// CONFIRM + REBROADCAST
+// --------------------
+/** The blockhash expired before the tx landed; it can never land now, so re-signing is safe. */
+export class TxExpiredError extends Error {
+  constructor(message = "Transaction expired before it was confirmed. Safe to retry.") {
+    super(message);
+    this.name = "TxExpiredError";
+  }
+}
+
+/** The tx landed but the program returned an error; do NOT blindly retry. */
+export class TxOnChainError extends Error {
+  err: unknown;
+  constructor(err: unknown) {
+    super(`Transaction failed on-chain: ${JSON.stringify(err)}`);
+    this.name = "TxOnChainError";
+    this.err = err;
+  }
+}
+
+/**
+ * Every RPC call failed for too long to tell whether the tx landed. It may still
+ * confirm, so it is neither failed nor safe to re-sign; poll it with pollTxOutcome.
+ */
+export class TxOutcomeUnknownError extends Error {
+  signature: string;
+  constructor(signature: string) {
+    super("Lost contact with the network before the transaction confirmed. It may still land.");
+    this.name = "TxOutcomeUnknownError";
+    this.signature = signature;
+  }
+}
+
+const MAX_CONFIRM_RPC_FAILURES = 15;
 
-  return { signature, blockhash, lastValidBlockHeight };
+/**
+ * Resend the same signed bytes every `intervalMs` until the tx confirms or the
+ * network passes `lastValidBlockHeight`. Resolves on success, throws TxExpiredError
+ * or TxOnChainError otherwise. RPC hiccups are retried; if they never stop, throws
+ * TxOutcomeUnknownError.
+ */
+export async function confirmWithRebroadcast(params: {
+  connection: RpcLike;
+  signature: string;
+  raw: Uint8Array;
+  lastValidBlockHeight: number;
+  intervalMs?: number;
+  onRebroadcast?: (attempt: number) => void;
+}): Promise<void> {
+  const { connection, signature, raw, lastValidBlockHeight, onRebroadcast } = params;
+  const intervalMs = params.intervalMs ?? 2000;
+
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  const landed = async () => {
+    const { value } = await withRpc(connection, (c) =>
+      c.getSignatureStatuses([signature], { searchTransactionHistory: false })
+    );
+    const st = value[0];
+    if (!st) return null;
+    if (st.err) throw new TxOnChainError(st.err);
+    return st.confirmationStatus === "confirmed" || st.confirmationStatus === "finalized";
+  };
+
+  let attempt = 0;
+  let rpcFailures = 0;
+
+  for (;;) {
+    await sleep(intervalMs);
+
+    try {
+      if (await landed()) return;
+      rpcFailures = 0;
+
+      const height = await withRpc(connection, (c) => c.getBlockHeight("confirmed"));
+      if (height > lastValidBlockHeight) {
+        // One last look: it may have landed right at the edge
+        if (await landed()) return;
+        throw new TxExpiredError();
+      }
+
+      attempt += 1;
+      onRebroadcast?.(attempt);
+      await withRpc(connection, (c) =>
+        c.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+      ).catch(() => {});
+    } catch (e) {
+      if (e instanceof TxExpiredError || e instanceof TxOnChainError) throw e;
+      // Transient RPC error: keep going until the block height says otherwise
+      rpcFailures += 1;
+      if (rpcFailures >= MAX_CONFIRM_RPC_FAILURES) throw new TxOutcomeUnknownError(signature);
+    }
+  }
+}
+
+const MAX_POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Settle a tx whose outcome is unknown: check its status (backing off while the RPC
+ * is down) until it confirms, fails on-chain, or can no longer land. Resolves on
+ * confirmation, throws TxOnChainError or TxExpiredError. Without `lastValidBlockHeight`
+ * (e.g. after a reload) it keeps checking until the signature shows up.
+ */
+export async function pollTxOutcome(params: {
+  connection: RpcLike;
+  signature: string;
+  lastValidBlockHeight?: number;
+  intervalMs?: number;
+}): Promise<void> {
+  const { connection, signature, lastValidBlockHeight } = params;
+  const baseMs = params.intervalMs ?? 5000;
+  let waitMs = baseMs;
+
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  // Expired txs drop out of the recent status cache, so search history too
+  const status = async () => {
+    const { value } = await withRpc(connection, (c) =>
+      c.getSignatureStatuses([signature], { searchTransactionHistory: true })
+    );
+    const st = value[0];
+    if (st?.err) throw new TxOnChainError(st.err);
+    return st?.confirmationStatus ?? null;
+  };
+
+  for (;;) {
+    await sleep(waitMs);
+
+    try {
+      const seen = await status();
+      waitMs = baseMs;
+      if (seen === "confirmed" || seen === "finalized") return;
+      if (seen || lastValidBlockHeight === undefined) continue;
+
+      const height = await withRpc(connection, (c) => c.getBlockHeight("confirmed"));
+      if (height > lastValidBlockHeight) {
+        const last = await status();
+        if (last === "confirmed" || last === "finalized") return;
+        if (!last) throw new TxExpiredError();
+      }
+    } catch (e) {
+      if (e instanceof TxExpiredError || e instanceof TxOnChainError) throw e;
+      waitMs = Math.min(waitMs * 2, MAX_POLL_INTERVAL_MS);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+// src/app/lib/transferPreview.ts
+import { Connection, LAMPORTS_PER_SOL, VersionedTransaction } from "@solana/web3.js";
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  getAccountLen,
+  getAccountTypeOfMintType,
+  getAssociatedTokenAddressSync,
+  getExtensionTypes,
+  getMint,
+} from "@solana/spl-token";
+
+import { baseToUi } from "./paymentWatch";
+import { withRpc } from "./rpc";
+import { DEFAULT_TOKEN, TokenInfo } from "./tokens";
+import {
+  TransferFee,
+  TransferParams,
+  buildTransferTransaction,
+  transactionMessage,
+  uiToBaseUnits,
+} from "./transfer";
+
+export type PreviewWarning = {
+  message: string;
+  /** Blocking warnings disable "Continue" in the preview */
+  blocking: boolean;
+};
+
+export type TransferPreview = {
+  fee: TransferFee;
+  /** Rent for the recipient's token account, paid by the sender (0 if it exists) */
+  rentLamports: number;
+  createsRecipientAta: boolean;
+  solBeforeLamports: number;
+  solAfterLamports: number;
+  tokenBeforeUi: string;
+  tokenAfterUi: string;
+  simError: string | null;
+  logs: string[];
+  warnings: PreviewWarning[];
+};
+
+function lamportsToSol(lamports: number) {
+  const sol = lamports / LAMPORTS_PER_SOL;
+  return sol === 0 ? "0" : sol < 0.0001 ? sol.toFixed(6) : sol.toFixed(4);
+}
+
+// ATA size: classic accounts are fixed; Token-2022 ATAs carry ImmutableOwner plus
+// whatever account extensions the mint requires (e.g. TransferFeeAmount)
+async function tokenAccountSize(connection: Connection, token: TokenInfo) {
+  if (!token.programId.equals(TOKEN_2022_PROGRAM_ID)) return ACCOUNT_SIZE;
+
+  const mint = await getMint(connection, token.mint, "confirmed", token.programId);
+  const accountTypes = getExtensionTypes(mint.tlvData).map(getAccountTypeOfMintType);
+  return getAccountLen([
+    ...new Set([...accountTypes, ExtensionType.ImmutableOwner]),
+  ]);
+}
+
+function decodeTokenAmount(data: string | undefined): bigint | null {
+  if (!data) return null;
+  const buf = Buffer.from(data, "base64");
+  if (buf.length < ACCOUNT_SIZE) return null;
+  return AccountLayout.decode(buf.subarray(0, ACCOUNT_SIZE)).amount;
+}
+
+function simErrorText(err: unknown): string {
+  if (typeof err === "string") return err;
+  try {
+    return JSON.stringify(err);
+  } catch {
+    return "Simulation failed";
+  }
+}
+
+/**
+ * Build the exact transaction `sendUsdc` would send (same instructions, ComputeBudget
+ * and priority fee), simulate it, and report fee, rent, post-balances and warnings.
+ */
+export async function previewTransfer(params: TransferParams): Promise<TransferPreview> {
+  const { connection, sender, amountUi, token = DEFAULT_TOKEN } = params;
+
+  const { tx, fee, createsRecipientAta } = await buildTransferTransaction(params);
+
+  const senderAta = getAssociatedTokenAddressSync(
+    token.mint,
+    sender,
+    false,
+    token.programId
+  );
+
+  const [solBeforeLamports, tokenBefore, rentLamports] = await Promise.all([
+    withRpc(connection, (c) => c.getBalance(sender, "confirmed")),
+    withRpc(connection, (c) => c.getTokenAccountBalance(senderAta, "confirmed")),
+    createsRecipientAta
+      ? withRpc(connection, async (c) =>
+          c.getMinimumBalanceForRentExemption(await tokenAccountSize(c, token))
+        )
+      : Promise.resolve(0),
+  ]);
+
+  const tokenBeforeBase = BigInt(tokenBefore.value.amount);
+  const amountBase = uiToBaseUnits(amountUi, token.decimals);
+
+  const sim = await withRpc(connection, (c) =>
+    c.simulateTransaction(new VersionedTransaction(transactionMessage(tx)), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: "confirmed",
+      accounts: { encoding: "base64", addresses: [sender.toBase58(), senderAta.toBase58()] },
+    })
+  );
+
+  const simError = sim.value.err ? simErrorText(sim.value.err) : null;
+  const [solAcc, ataAcc] = sim.value.accounts ?? [];
+
+  // Prefer simulated post-state; fall back to arithmetic when the sim failed
+  const solAfterLamports =
+    !simError && solAcc ? solAcc.lamports : solBeforeLamports - fee.totalLamports - rentLamports;
+  const tokenAfterBase =
+    (!simError ? decodeTokenAmount(ataAcc?.data?.[0]) : null) ?? tokenBeforeBase - amountBase;
+
+  const warnings: PreviewWarning[] = [];
+
+  if (amountBase > tokenBeforeBase) {
+    warnings.push({
+      message: `Amount exceeds your ${token.symbol} balance (${baseToUi(tokenBeforeBase, token.decimals)} ${token.symbol}).`,
+      blocking: true,
+    });
+  }
+
+  const solNeeded = fee.totalLamports + rentLamports;
+  if (solBeforeLamports < solNeeded) {
+    warnings.push({
+      message: `Insufficient SOL for fees${rentLamports ? " and account rent" : ""}: need ${lamportsToSol(solNeeded)} SOL, have ${lamportsToSol(solBeforeLamports)} SOL.`,
+      blocking: true,
+    });
+  }
+
+  if (simError) {
+    warnings.push({ message: `Simulation failed: ${simError}`, blocking: true });
+  }
+
+  if (createsRecipientAta) {
+    warnings.push({
+      message: `Recipient has no ${token.symbol} account yet. You'll pay ~${lamportsToSol(rentLamports)} SOL rent to create it.`,
+      blocking: false,
+    });
+  }
+
+  return {
+    fee,
+    rentLamports,
+    createsRecipientAta,
+    solBeforeLamports,
+    solAfterLamports,
+    tokenBeforeUi: baseToUi(tokenBeforeBase, token.decimals),
+    tokenAfterUi: baseToUi(tokenAfterBase, token.decimals),
+    simError,
+    logs: sim.value.logs ?? [],
+    warnings,
+  };
+}
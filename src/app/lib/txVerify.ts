@@ -0,0 +1,117 @@
+// src/app/lib/txVerify.ts
+import { ParsedTransactionWithMeta } from "@solana/web3.js";
+import bs58 from "bs58";
+
+import { ClusterId, explorerTxUrl } from "./cluster";
+import { extractParsedMemo } from "./memo";
+import { baseToUi, ownerDeltas } from "./paymentWatch";
+import { RpcLike, withRpc } from "./rpc";
+import { TokenInfo, getTokens } from "./tokens";
+
+/** One registry-token movement, rebuilt from the transaction's balance changes */
+export type VerifiedTransfer = {
+  token: TokenInfo;
+  amountUi: string;
+  from: string;
+  to: string;
+};
+
+/** A receipt built only from chain data, so anyone can check it */
+export type VerifiedTx = {
+  signature: string;
+  cluster: ClusterId;
+  slot: number;
+  /** Unix seconds */
+  blockTime: number | null;
+  confirmation: "processed" | "confirmed" | "finalized" | null;
+  failed: boolean;
+  feePayer: string;
+  memo: string | null;
+  transfers: VerifiedTransfer[];
+  explorerUrl: string;
+};
+
+export function isTxSignature(value: string): boolean {
+  try {
+    return bs58.decode(value).length === 64;
+  } catch {
+    return false;
+  }
+}
+
+/** Public `/tx/[signature]` link; mainnet links carry no cluster param */
+export function verifiedReceiptUrl(signature: string, cluster: ClusterId, origin = ""): string {
+  const base = `${origin}/tx/${encodeURIComponent(signature)}`;
+  return cluster === "mainnet-beta" ? base : `${base}?cluster=${cluster}`;
+}
+
+/**
+ * Per registry mint: every owner whose balance went up is a recipient, paid by
+ * the owner whose balance dropped the most (batch payouts yield one row per payee).
+ */
+export function decodeTokenTransfers(
+  tx: ParsedTransactionWithMeta,
+  cluster: ClusterId
+): VerifiedTransfer[] {
+  const out: VerifiedTransfer[] = [];
+
+  for (const token of getTokens(cluster)) {
+    const deltas = [
+      ...ownerDeltas(
+        tx.meta?.preTokenBalances,
+        tx.meta?.postTokenBalances,
+        token.mint.toBase58()
+      ),
+    ];
+
+    const sender = deltas
+      .filter(([, d]) => d < BigInt(0))
+      .sort((a, b) => (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0))[0];
+
+    const receivers = deltas
+      .filter(([, d]) => d > BigInt(0))
+      .sort((a, b) => (a[1] > b[1] ? -1 : a[1] < b[1] ? 1 : 0));
+
+    for (const [to, d] of receivers) {
+      out.push({ token, amountUi: baseToUi(d, token.decimals), from: sender?.[0] ?? "", to });
+    }
+  }
+
+  return out;
+}
+
+/** Fetch and decode `signature`; null when the cluster doesn't know it */
+export async function fetchVerifiedTx(
+  rpc: RpcLike,
+  signature: string,
+  cluster: ClusterId,
+  endpoint?: string
+): Promise<VerifiedTx | null> {
+  const [tx, statuses] = await Promise.all([
+    withRpc(rpc, (c) =>
+      c.getParsedTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      })
+    ),
+    withRpc(rpc, (c) =>
+      c.getSignatureStatuses([signature], { searchTransactionHistory: true })
+    ),
+  ]);
+  if (!tx) return null;
+
+  const feePayer = tx.transaction.message.accountKeys.find((k) => k.signer);
+
+  return {
+    signature,
+    cluster,
+    slot: tx.slot,
+    blockTime: tx.blockTime ?? null,
+    confirmation: statuses.value[0]?.confirmationStatus ?? null,
+    failed: Boolean(tx.meta?.err),
+    feePayer: feePayer ? feePayer.pubkey.toBase58() : "",
+    memo: extractParsedMemo(tx),
+    transfers: decodeTokenTransfers(tx, cluster),
+    explorerUrl: explorerTxUrl(signature, cluster, endpoint),
+  };
+}
@@ -0,0 +1,65 @@
+// src/app/lib/wallets.ts
+// Wallets connected in this browser, with their last seen balances (for the switcher)
+import type { ClusterId } from "./cluster";
+import { getStored, readStore, writeStore } from "./storage";
+import type { TokenSymbol } from "./tokens";
+
+export type CachedBalance = {
+  sol: number;
+  tokens: Partial<Record<TokenSymbol, number>>;
+  updatedAt: number;
+};
+
+export type KnownWallet = {
+  address: string;
+  /** Wallet-adapter name it was connected with, to reconnect from the switcher */
+  adapter: string | null;
+  lastConnectedAt: number;
+  balances: Partial<Record<ClusterId, CachedBalance>>;
+};
+
+/** Most recently connected first */
+export function loadKnownWallets(): KnownWallet[] {
+  return readStore("wallets").sort((a, b) => b.lastConnectedAt - a.lastConnectedAt);
+}
+
+export function rememberWallet(address: string, adapter: string | null) {
+  const prev = getStored("wallets", address);
+  writeStore("wallets", [
+    {
+      address,
+      adapter: adapter ?? prev?.adapter ?? null,
+      lastConnectedAt: Date.now(),
+      balances: prev?.balances ?? {},
+    },
+  ]);
+}
+
+export function cacheWalletBalance(
+  address: string,
+  cluster: ClusterId,
+  sol: number,
+  tokens: Partial<Record<TokenSymbol, number>>
+) {
+  const prev = getStored("wallets", address);
+  if (!prev) return;
+  writeStore("wallets", [
+    {
+      ...prev,
+      balances: {
+        ...prev.balances,
+        [cluster]: {
+          sol,
+          // Balances are fetched one token at a time; keep the others from earlier
+          tokens: { ...prev.balances[cluster]?.tokens, ...tokens },
+          updatedAt: Date.now(),
+        },
+      },
+    },
+  ]);
+}
+
+/** Drops the wallet from the switcher (its receipts stay until cleared) */
+export function forgetWallet(address: string) {
+  writeStore("wallets", [], [address]);
+}
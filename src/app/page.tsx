@@ -1,24 +1,113 @@
 "use client";
 
-import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { useWallet } from "@solana/wallet-adapter-react";
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
-import {
-  PublicKey,
-  SystemProgram,
-  Transaction,
-  LAMPORTS_PER_SOL,
-} from "@solana/web3.js";
-import { Suspense, useEffect, useMemo, useRef, useState } from "react";
+import type { WalletName } from "@solana/wallet-adapter-base";
+import { PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { Suspense, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import { useSearchParams } from "next/navigation";
 import QRCode from "qrcode";
 
 import { getSolBalance, getSplTokenBalance } from "./lib/balances";
-import { sendUsdc, isValidSolanaAddress } from "./lib/transfer";
-import { heliusAddressTransactions } from "./lib/helius";
-import { CLUSTER } from "./lib/constants";
+import {
+  TxExpiredError,
+  TxOutcomeUnknownError,
+  confirmWithRebroadcast,
+  fetchLookupTables,
+  isValidSolanaAddress,
+  pickTransactionVersion,
+  pollTxOutcome,
+  sendUsdc,
+} from "./lib/transfer";
+import { TransferPreview, previewTransfer } from "./lib/transferPreview";
+import {
+  DEFAULT_PRIORITY_LEVEL,
+  PRIORITY_LEVELS,
+  PriorityLevel,
+} from "./lib/priorityFee";
+import type { HistoryTx } from "./lib/helius";
+import { tokenNetsForWallet } from "./lib/historyImport";
+import { createHistoryProvider } from "./lib/historyProviders";
+import {
+  HistorySyncState,
+  clearSyncState,
+  fetchNewHistory,
+  fetchOlderHistory,
+  loadSyncState,
+  saveSyncState,
+} from "./lib/historySync";
+import { MEMO_MAX_BYTES, isMemoWithinLimit } from "./lib/memo";
+import { CLUSTER_IDS, ClusterId, explorerTxUrl } from "./lib/cluster";
+import {
+  DEFAULT_TOKEN,
+  TokenSymbol,
+  formatTokenAmount,
+  getTokenByMint,
+  getTokenBySymbol,
+  getTokens,
+  isTokenSymbol,
+} from "./lib/tokens";
+import { useCluster } from "./providers";
+import {
+  createReference,
+  encodeSolanaPayUrl,
+  isSolanaPayUrl,
+  parseSolanaPayUrl,
+} from "./lib/solanaPay";
 
 import QrScanButton from "./components/QrScanButton";
 import ReceiveQr from "./components/ReceiveQr";
+import PaymentWatchModal from "./components/PaymentWatchModal";
+import BatchPayout from "./components/BatchPayout";
+import SplitBill from "./components/SplitBill";
+import ScheduledPayments from "./components/ScheduledPayments";
+import Invoices from "./components/Invoices";
+import ReceiptExport from "./components/ReceiptExport";
+import BackupSync from "./components/BackupSync";
+import WalletSwitcher from "./components/WalletSwitcher";
+import { getStorageIssue, isStorageReady, subscribeAppStorage } from "./lib/appStorage";
+import { settleInvoices } from "./lib/invoices";
+import { KnownWallet, cacheWalletBalance, loadKnownWallets, rememberWallet } from "./lib/wallets";
+import {
+  TxReceipt,
+  TxReceiptDirection,
+  TxReceiptStatus,
+  loadReceipts,
+  mergeImportedReceipts,
+  receiptExists,
+  safeParseReceipts,
+  saveReceipts,
+  upsertReceipt,
+  upsertReceipts,
+} from "./lib/receipts";
+import {
+  Contact,
+  addContacts,
+  loadContacts,
+  loadContactsMeta,
+  makeContact,
+  removeContact,
+  touchContactMeta,
+} from "./lib/contacts";
+import {
+  downloadReceiptPdf,
+  receiptDetails,
+  receiptPageUrl,
+  receiptStatusText,
+} from "./lib/receiptPdf";
+import { verifiedReceiptUrl } from "./lib/txVerify";
+import {
+  ScheduleTag,
+  ScheduledPayment,
+  formatDueDate,
+  loadSchedules,
+  scheduleReminders,
+} from "./lib/schedules";
+import type { PayoutRow } from "./lib/batchPayout";
+import ClusterSelect from "./components/ClusterSelect";
+import RpcSettings from "./components/RpcSettings";
+import type { DetectedPayment } from "./lib/paymentWatch";
+import { IncomingWatchStatus, watchIncomingPayments } from "./lib/incomingWatch";
 
 // ✅ QR scanner auto-fill channels (optional support)
 const UZ_QR_AMOUNT_EVENT = "uz:qr:amount";
@@ -40,213 +129,73 @@ type TxStage =
   | "signing"
   | "submitted"
   | "confirming"
+  // Still unconfirmed; resending the same signed tx until its blockhash expires
+  | "rebroadcasting"
   | "confirmed"
-  | "failed";
-
-// --------------------
-// RECEIPTS (local + helius)
-// --------------------
-type TxReceiptStatus = "submitted" | "confirming" | "confirmed" | "failed";
-type TxReceiptDirection = "sent" | "received";
-
-type TxReceipt = {
-  id: string;
-  sig: string | null;
-  createdAt: number;
-
-  cluster: "mainnet-beta";
-  status: TxReceiptStatus;
-
-  direction: TxReceiptDirection;
-
-  amountUi: string;
-  tokenSymbol: "USDC";
-
-  from: string;
-  to: string;
-
-  explorerUrl: string | null;
-  note?: string;
-};
-
-const RECEIPTS_KEY = "uz_receipts_v2";
-
-function ensureReceiptsStore() {
-  if (typeof window === "undefined") return;
-  try {
-    const existing = window.localStorage.getItem(RECEIPTS_KEY);
-    if (existing === null) window.localStorage.setItem(RECEIPTS_KEY, "[]");
-  } catch {}
-}
-
-function safeParseReceipts(raw: string | null): TxReceipt[] {
-  if (!raw) return [];
-  try {
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-
-    return parsed
-      .filter(
-        (r) =>
-          r &&
-          typeof r.id === "string" &&
-          typeof r.createdAt === "number" &&
-          (r.sig === null || typeof r.sig === "string") &&
-          r.cluster === "mainnet-beta" &&
-          (r.status === "submitted" ||
-            r.status === "confirming" ||
-            r.status === "confirmed" ||
-            r.status === "failed") &&
-          typeof r.amountUi === "string" &&
-          r.tokenSymbol === "USDC" &&
-          typeof r.from === "string" &&
-          typeof r.to === "string"
-      )
-      .map((r) => {
-        const dir: TxReceiptDirection =
-          r.direction === "received" || r.direction === "sent"
-            ? r.direction
-            : "sent";
-
-        return {
-          id: r.id,
-          sig: r.sig ?? null,
-          createdAt: r.createdAt,
-          cluster: "mainnet-beta" as const,
-          status: r.status,
-          direction: dir,
-          amountUi: String(r.amountUi ?? "").trim(),
-          tokenSymbol: "USDC" as const,
-          from: String(r.from ?? "").trim(),
-          to: String(r.to ?? "").trim(),
-          explorerUrl: typeof r.explorerUrl === "string" ? r.explorerUrl : null,
-          note: typeof r.note === "string" ? r.note : undefined,
-        };
-      });
-  } catch {
-    return [];
-  }
-}
-
-function loadReceipts(): TxReceipt[] {
-  if (typeof window === "undefined") return [];
-  try {
-    ensureReceiptsStore();
-    return safeParseReceipts(window.localStorage.getItem(RECEIPTS_KEY));
-  } catch {
-    return [];
-  }
-}
-
-function saveReceipts(next: TxReceipt[]) {
-  if (typeof window === "undefined") return;
-  try {
-    window.localStorage.setItem(RECEIPTS_KEY, JSON.stringify(next));
-  } catch {}
-}
-
-function upsertReceipt(next: TxReceipt) {
-  try {
-    ensureReceiptsStore();
-    const prev = loadReceipts();
-    const idx = prev.findIndex((r) => r.id === next.id);
-    const merged =
-      idx >= 0
-        ? [next, ...prev.filter((r) => r.id !== next.id)]
-        : [next, ...prev];
-    saveReceipts(merged);
-  } catch {}
-}
-
-// Premium currency formatting (USDC as "cash")
-const formatUsd = (n: number) =>
-  new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    maximumFractionDigits: 2,
-  }).format(n);
-
-// --------------------
-// CONTACTS (local-only)
-// --------------------
-type Contact = {
-  id: string;
-  name: string;
-  address: string;
-};
-
-const CONTACTS_KEY = "uz_contacts_v1";
-type ContactMetaStore = Record<string, { lastUsedAt: number }>;
-const CONTACTS_META_KEY = "uz_contacts_meta_v1";
-
-function safeParseContacts(raw: string | null): Contact[] {
-  if (!raw) return [];
-  try {
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed
-      .filter(
-        (c) =>
-          c &&
-          typeof c.id === "string" &&
-          typeof c.name === "string" &&
-          typeof c.address === "string"
-      )
-      .map((c) => ({
-        id: c.id,
-        name: c.name.trim(),
-        address: c.address.trim(),
-      }));
-  } catch {
-    return [];
-  }
-}
-
-function loadContacts(): Contact[] {
-  if (typeof window === "undefined") return [];
-  return safeParseContacts(window.localStorage.getItem(CONTACTS_KEY));
-}
-
-function saveContacts(next: Contact[]) {
-  if (typeof window === "undefined") return;
-  window.localStorage.setItem(CONTACTS_KEY, JSON.stringify(next));
-}
-
-function safeParseMeta(raw: string | null): ContactMetaStore {
-  if (!raw) return {};
-  try {
-    const parsed = JSON.parse(raw);
-    if (!parsed || typeof parsed !== "object") return {};
-    const out: ContactMetaStore = {};
-    for (const [k, v] of Object.entries(parsed)) {
-      const lastUsedAt = (v as any)?.lastUsedAt;
-      if (typeof lastUsedAt === "number" && Number.isFinite(lastUsedAt)) {
-        out[k] = { lastUsedAt };
-      }
-    }
-    return out;
-  } catch {
-    return {};
-  }
-}
-
-function loadContactsMeta(): ContactMetaStore {
-  if (typeof window === "undefined") return {};
-  return safeParseMeta(window.localStorage.getItem(CONTACTS_META_KEY));
+  // Blockhash expired without landing: nothing was paid, safe to re-sign
+  | "expired"
+  // Landed with an error (or send was rejected)
+  | "failed"
+  // Lost the RPC before it confirmed; still polling its signature, do NOT re-sign
+  | "unknown";
+
+const EXPIRED_TEXT =
+  "The network didn't confirm this payment in time and it expired. No funds moved — you can re-sign it with a fresh blockhash.";
+const UNKNOWN_TEXT =
+  "Lost contact with the network before this payment confirmed. It may still go through, so don't send it again — UTILIZAP keeps checking and will update the receipt.";
+
+const RECEIPTS_PAGE = 10;
+
+// Browser notification opt-in for incoming payments
+const NOTIFY_KEY = "uz_notify_v1";
+const PAID_TOAST_MS = 6000;
+
+// Imported history tx -> receipts from the wallet's point of view, one per registry
+// token it moved (a USDC -> PYUSD swap yields two). Unknown mints are ignored.
+function historyTxToReceipts(
+  tx: HistoryTx,
+  walletAddr: string,
+  cluster: ClusterId,
+  endpoint: string
+): TxReceipt[] {
+  const sig = tx.signature;
+  if (!sig) return [];
+
+  const nets = tokenNetsForWallet(tx, walletAddr, cluster);
+
+  const createdAt = tx.timestamp ? tx.timestamp * 1000 : Date.now();
+  const status: TxReceiptStatus = tx.failed ? "failed" : "confirmed";
+  const memo = tx.memo;
+
+  return nets.map((n, i) => {
+    const direction: TxReceiptDirection = n.net > 0 ? "received" : "sent";
+    const amountAbs = n.selfTransfer ? n.selfAmount : Math.abs(n.net);
+
+    return {
+      // First token keeps the plain id so existing receipts/dedupe still line up
+      id: i === 0 ? `h_${sig}` : `h_${sig}:${n.token.symbol}`,
+      sig,
+      createdAt,
+      cluster,
+      wallet: walletAddr,
+      status,
+      direction,
+      amountUi: String(amountAbs),
+      tokenSymbol: n.token.symbol,
+      from: direction === "received" ? n.counterparty : walletAddr,
+      to: direction === "received" ? walletAddr : n.counterparty,
+      explorerUrl: explorerTxUrl(sig, cluster, endpoint),
+      // Memo is the sender's note; surface it on payments we received
+      note: direction === "received" && memo ? memo : undefined,
+    };
+  });
 }
 
-function saveContactsMeta(next: ContactMetaStore) {
-  if (typeof window === "undefined") return;
-  try {
-    window.localStorage.setItem(CONTACTS_META_KEY, JSON.stringify(next));
-  } catch {}
+// Premium currency formatting (stablecoins as "cash")
+function formatTokenCash(n: number, symbol: TokenSymbol) {
+  return formatTokenAmount(n, getTokenBySymbol(symbol) ?? DEFAULT_TOKEN);
 }
 
-function touchContactMeta(id: string) {
-  const meta = loadContactsMeta();
-  meta[id] = { lastUsedAt: Date.now() };
-  saveContactsMeta(meta);
-}
 
 function makeId() {
   if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
@@ -256,27 +205,55 @@ function makeId() {
   return `${Date.now()}_${Math.random().toString(16).slice(2)}`;
 }
 
-// Helius error detection helper
-function heliusHasError(tx: unknown): boolean {
-  const t = tx as any;
-  return Boolean(t?.transactionError || t?.err || t?.meta?.err);
-}
-
 function HomeInner() {
-  const { connection } = useConnection();
-  const { publicKey, connected, signTransaction, disconnect } = useWallet();
+  const {
+    publicKey,
+    connected,
+    connecting,
+    signTransaction,
+    signMessage,
+    select,
+    connect,
+    disconnect,
+    wallet,
+    wallets,
+  } = useWallet();
+  // Receipts, contact usage and sync cursors are all scoped to this
+  const walletAddress = useMemo(() => publicKey?.toBase58() ?? null, [publicKey]);
+  // `rpc` fails over between the configured endpoints; use it for every RPC call
+  const { cluster, config: clusterConfig, endpoint, rpc, rpcState } = useCluster();
+  // Contacts/receipts live in IndexedDB; reads are empty until it has hydrated
+  const storageReady = useSyncExternalStore(subscribeAppStorage, isStorageReady, () => false);
+  const storageIssue = useSyncExternalStore(subscribeAppStorage, getStorageIssue, () => null);
 
   const [solBalance, setSolBalance] = useState<number>(0);
-  const [usdcBalance, setUsdcBalance] = useState<number>(0);
+  const [tokenBalance, setTokenBalance] = useState<number>(0);
+
+  // Token used by the send form, balance card and request generator
+  const [tokenSymbol, setTokenSymbol] = useState<TokenSymbol>(DEFAULT_TOKEN.symbol);
+  const clusterTokens = useMemo(() => getTokens(cluster), [cluster]);
+  // Not every token exists on test clusters; fall back to that cluster's USDC
+  const token = useMemo(
+    () => getTokenBySymbol(tokenSymbol, cluster) ?? clusterTokens[0],
+    [tokenSymbol, cluster, clusterTokens]
+  );
 
   const [recipient, setRecipient] = useState("");
   const [amount, setAmount] = useState("");
   const [txNote, setTxNote] = useState("");
+  // Solana Pay request context (reference keys + label) for the current payment
+  const [txReferences, setTxReferences] = useState<string[]>([]);
+  const [txRequestLabel, setTxRequestLabel] = useState("");
+  const [txRequestWarn, setTxRequestWarn] = useState<string | null>(null);
+  // Scheduled occurrence the current send form was prefilled for
+  const [txSchedule, setTxSchedule] = useState<ScheduleTag | null>(null);
   const [isSending, setIsSending] = useState(false);
 
   const [txStage, setTxStage] = useState<TxStage>("idle");
   const [txSig, setTxSig] = useState<string | null>(null);
   const [txError, setTxError] = useState<string | null>(null);
+  // Receipt of an expired send; "Re-sign" replaces it instead of adding a new one
+  const [retryReceiptId, setRetryReceiptId] = useState<string | null>(null);
 
   // Receipts
   const [receipts, setReceipts] = useState<TxReceipt[]>([]);
@@ -285,6 +262,7 @@ function HomeInner() {
   // Receipt UI
   const [showReceipt, setShowReceipt] = useState(false);
   const [receiptCopied, setReceiptCopied] = useState(false);
+  const [receiptShared, setReceiptShared] = useState(false);
   const [sigCopied, setSigCopied] = useState(false);
 
   const [receiptNoteDraft, setReceiptNoteDraft] = useState<string>("");
@@ -299,11 +277,48 @@ function HomeInner() {
     "all"
   );
 
+  const [showReceiptExport, setShowReceiptExport] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showWallets, setShowWallets] = useState(false);
+  // Adapter to reconnect with after a switch from the wallet list
+  const [pendingConnect, setPendingConnect] = useState<WalletName | null>(null);
+
   const [isHeliusSyncing, setIsHeliusSyncing] = useState(false);
   const lastHeliusSyncRef = useRef<string>("");
 
+  // Live incoming payments (account subscriptions)
+  const [incomingStatus, setIncomingStatus] = useState<IncomingWatchStatus | null>(null);
+  const [paidToast, setPaidToast] = useState<string | null>(null);
+  const [notifyEnabled, setNotifyEnabled] = useState(false);
+  // Read after mount so the server render and hydration agree
+  useEffect(() => {
+    try {
+      setNotifyEnabled(window.localStorage.getItem(NOTIFY_KEY) === "1");
+    } catch {}
+  }, []);
+  const onIncomingRef = useRef<((symbol: TokenSymbol, amountUi: string) => void) | null>(
+    null
+  );
+  // Receipts with an "unknown" outcome being polled, and what to do once one settles
+  const settlingRef = useRef<Set<string>>(new Set());
+  const onReceiptSettledRef = useRef<((r: TxReceipt) => void) | null>(null);
+
+  // Helius when the server has a key, otherwise rebuilt from plain RPC
+  const historyProvider = useMemo(() => createHistoryProvider(cluster, rpc), [cluster, rpc]);
+
+  // History pagination (list size + on-chain import cursor for this wallet)
+  const [receiptLimit, setReceiptLimit] = useState(RECEIPTS_PAGE);
+  const [historySync, setHistorySync] = useState<HistorySyncState | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+
   // Contacts
   const [contacts, setContacts] = useState<Contact[]>([]);
+
+  // Scheduled payments (reminders only; every payment is still signed by hand)
+  const [schedules, setSchedules] = useState<ScheduledPayment[]>(() => loadSchedules());
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [scheduleNow, setScheduleNow] = useState(() => Date.now());
+  const scheduleNotifiedRef = useRef<Set<string>>(new Set());
   const [contactName, setContactName] = useState("");
 
   // Picker
@@ -313,12 +328,16 @@ function HomeInner() {
   // Preview Transaction
   const [showPreview, setShowPreview] = useState(false);
   const [previewAck, setPreviewAck] = useState(false);
-  const [previewFeeText, setPreviewFeeText] = useState<string>("—");
+  // Simulation of the exact transaction; blocking warnings disable "Continue"
+  const [transferPreview, setTransferPreview] = useState<TransferPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
   const [previewFeeLoading, setPreviewFeeLoading] = useState(false);
+  const [priorityLevel, setPriorityLevel] = useState<PriorityLevel>(DEFAULT_PRIORITY_LEVEL);
   const [previewWarn, setPreviewWarn] = useState<string | null>(null);
+  const [previewMemoOnChain, setPreviewMemoOnChain] = useState(true);
 
   const explorerUrl = txSig
-    ? `https://explorer.solana.com/tx/${txSig}?cluster=${CLUSTER}`
+    ? explorerTxUrl(txSig, cluster, endpoint)
     : null;
 
   // Hydration-safe gate
@@ -347,7 +366,20 @@ function HomeInner() {
     return s;
   }
 
-  type ParsedRequest = { to?: string; amount?: string; note?: string };
+  type ParsedRequest = {
+    to?: string;
+    amount?: string;
+    note?: string;
+    references?: string[];
+    label?: string;
+    tokenSymbol?: TokenSymbol;
+    /** Set when the request can't be paid with a supported token (other mint, or native SOL) */
+    warn?: string;
+  };
+
+  function cleanReferences(values: string[]) {
+    return values.map((v) => v.trim()).filter((v) => isValidSolanaAddress(v));
+  }
 
   function parsePaymentRequest(rawInput: string): ParsedRequest {
     const raw0 = (rawInput ?? "").trim();
@@ -358,34 +390,32 @@ function HomeInner() {
     // 1) Plain address
     if (isValidSolanaAddress(raw)) return { to: raw };
 
-    // 2) solana:<address>?amount=...&memo=... (Solana Pay-ish)
-    if (/^solana:/i.test(raw)) {
+    // 2) Solana Pay transfer request
+    if (isSolanaPayUrl(raw)) {
       try {
-        const normalized = raw.replace(/^solana:/i, "solana://");
-        const u = new URL(normalized);
-
-        const addr =
-          (u.hostname && u.hostname !== "solana" ? u.hostname : "") ||
-          u.pathname.replace(/^\/+/, "");
-
-        const to = addr?.trim();
-        const amount = (u.searchParams.get("amount") ?? "").trim();
-        const note = (
-          u.searchParams.get("memo") ??
-          u.searchParams.get("note") ??
-          u.searchParams.get("message") ??
-          ""
-        ).trim();
-
-        const out: ParsedRequest = {};
-        if (to && isValidSolanaAddress(to)) out.to = to;
-
-        if (amount) {
-          const n = Number(amount);
-          if (Number.isFinite(n) && n > 0) out.amount = amount;
+        const req = parseSolanaPayUrl(raw);
+        const out: ParsedRequest = { to: req.recipient.toBase58() };
+
+        if (req.reference.length) {
+          out.references = req.reference.map((r) => r.toBase58());
         }
+        if (req.label) out.label = req.label.slice(0, 60);
 
+        const note = (req.memo ?? req.message ?? "").trim();
         if (note) out.note = note.slice(0, 140);
+
+        const reqToken = req.splToken ? getTokenByMint(req.splToken, cluster) : null;
+        if (reqToken) out.tokenSymbol = reqToken.symbol;
+
+        if (req.splToken && !reqToken) {
+          out.warn = "This request asks for a token UTILIZAP doesn't support. Amount was not filled in.";
+        } else if (!req.splToken && req.amount) {
+          out.warn = "This request asks for SOL, not a stablecoin. Amount was not filled in.";
+        } else if (req.amount) {
+          const n = Number(req.amount);
+          if (Number.isFinite(n) && n > 0) out.amount = req.amount;
+        }
+
         return out;
       } catch {
         return {};
@@ -413,6 +443,13 @@ function HomeInner() {
       }
 
       if (note) out.note = note.slice(0, 140);
+
+      const references = cleanReferences(u.searchParams.getAll("reference"));
+      if (references.length) out.references = references;
+
+      const sym = (u.searchParams.get("token") ?? "").trim().toUpperCase();
+      if (isTokenSymbol(sym)) out.tokenSymbol = sym;
+
       return out;
     } catch {
       return {};
@@ -484,6 +521,11 @@ function HomeInner() {
     }
 
     if (parsed.note) setTxNote(parsed.note);
+    if (parsed.tokenSymbol) setTokenSymbol(parsed.tokenSymbol);
+
+    setTxReferences(parsed.references ?? []);
+    setTxRequestLabel(parsed.label ?? "");
+    setTxRequestWarn(parsed.warn ?? null);
 
     if (!parsed.to && isValidSolanaAddress(raw)) setRecipient(raw);
   }
@@ -505,29 +547,72 @@ function HomeInner() {
     }
   }
 
+  // Public /tx/[signature] link: rebuilt from the chain, so it doesn't need our storage
+  async function shareVerifiedReceipt(r: TxReceipt) {
+    if (!r.sig) return;
+    const url = verifiedReceiptUrl(r.sig, r.cluster, window.location.origin);
+    if (typeof navigator.share === "function") {
+      try {
+        await navigator.share({ title: "UTILIZAP receipt", url });
+        return;
+      } catch (e) {
+        // User closed the share sheet; anything else falls back to the clipboard
+        if (e instanceof Error && e.name === "AbortError") return;
+      }
+    }
+    if (await copyText(url)) {
+      setReceiptShared(true);
+      window.setTimeout(() => setReceiptShared(false), 1200);
+    }
+  }
+
   function refreshReceiptsFromStorage() {
-    setReceipts(loadReceipts());
+    setReceipts(loadReceipts(cluster, walletAddress));
   }
 
   function clearReceiptsHistory() {
-    saveReceipts([]);
+    if (!walletAddress) return;
+    saveReceipts(cluster, walletAddress, []);
+    // Otherwise the next sync would stop at the old cursor and re-import nothing
+    clearSyncState(cluster, walletAddress);
+    lastHeliusSyncRef.current = "";
+    setHistorySync(null);
     setReceipts([]);
     setActiveReceipt(null);
     setShowReceipt(false);
   }
 
+  // Restore from a JSON export: each receipt goes to its own cluster and wallet,
+  // and receipts already on this device win over the file's copy
+  function importReceipts(raw: unknown[]): number {
+    const json = JSON.stringify(raw);
+    let added = 0;
+
+    for (const c of CLUSTER_IDS) {
+      const fresh = safeParseReceipts(json, c).filter((r) => !receiptExists(r));
+      if (fresh.length === 0) continue;
+
+      upsertReceipts(fresh);
+      added += fresh.length;
+    }
+
+    if (added > 0) setReceipts(loadReceipts(cluster, walletAddress));
+    return added;
+  }
+
   function updateReceiptNote(receiptId: string, note: string) {
-    const all = loadReceipts();
+    const all = loadReceipts(cluster, walletAddress);
     const idx = all.findIndex((r) => r.id === receiptId);
     if (idx < 0) return;
 
     const updated: TxReceipt = {
       ...all[idx],
       note: note.trim() ? note.trim() : undefined,
+      noteUpdatedAt: Date.now(),
     };
 
     upsertReceipt(updated);
-    setReceipts(loadReceipts());
+    setReceipts(loadReceipts(cluster, walletAddress));
     setActiveReceipt((prev) => (prev?.id === receiptId ? updated : prev));
   }
 
@@ -535,25 +620,33 @@ function HomeInner() {
     setRecipient("");
     setAmount("");
     setTxNote("");
+    setTxReferences([]);
+    setTxRequestLabel("");
+    setTxRequestWarn(null);
+    setTxSchedule(null);
 
     setTxStage("idle");
     setTxSig(null);
     setTxError(null);
+    setRetryReceiptId(null);
     setIsSending(false);
 
     setShowReceipt(false);
     setActiveReceipt(null);
 
     setReceiptCopied(false);
+    setReceiptShared(false);
     setSigCopied(false);
     setReceiptNoteDraft("");
     setNoteSavedTick(false);
 
     setShowPreview(false);
     setPreviewAck(false);
-    setPreviewFeeText("—");
+    setTransferPreview(null);
+    setPreviewError(null);
     setPreviewFeeLoading(false);
     setPreviewWarn(null);
+    setPreviewMemoOnChain(true);
   }
 
   const receiptAmountDisplay = useMemo(() => {
@@ -561,7 +654,7 @@ function HomeInner() {
     const s = (activeReceipt.amountUi ?? "").trim();
     if (!s) return "—";
     const n = Number(s);
-    if (Number.isFinite(n) && n > 0) return formatUsd(n);
+    if (Number.isFinite(n) && n > 0) return formatTokenCash(n, activeReceipt.tokenSymbol);
     return s;
   }, [activeReceipt]);
 
@@ -574,8 +667,38 @@ function HomeInner() {
 
   const [showRequestQr, setShowRequestQr] = useState(false);
   const [requestQr, setRequestQr] = useState<string>("");
+  const [showPaymentWatch, setShowPaymentWatch] = useState(false);
+  const [showBatchPayout, setShowBatchPayout] = useState(false);
+  const [showSplit, setShowSplit] = useState(false);
+  const [showInvoices, setShowInvoices] = useState(false);
+
+  // Fresh Solana Pay reference per request, so the payment can be found on-chain
+  const [requestReference, setRequestReference] = useState(() => createReference());
 
   const requestLink = useMemo(() => {
+    if (!publicKey) return "";
+
+    const a = requestAmount.trim();
+    const n = Number(a);
+    const note = requestNote.trim().slice(0, 140);
+
+    try {
+      return encodeSolanaPayUrl({
+        recipient: publicKey,
+        amount: a && Number.isFinite(n) && n > 0 ? a : undefined,
+        splToken: token.mint,
+        reference: [requestReference],
+        label: "UTILIZAP",
+        message: note || undefined,
+        memo: note || undefined,
+      });
+    } catch {
+      return "";
+    }
+  }, [publicKey, requestAmount, requestNote, requestReference, token]);
+
+  // Same request as a browser link that opens UTILIZAP pre-filled
+  const requestWebLink = useMemo(() => {
     if (!origin || !publicKey) return "";
     const to = publicKey.toBase58();
 
@@ -591,8 +714,103 @@ function HomeInner() {
     const note = requestNote.trim();
     if (note) params.set("note", note.slice(0, 140));
 
+    params.set("reference", requestReference.toBase58());
+    if (token.symbol !== DEFAULT_TOKEN.symbol) params.set("token", token.symbol);
+
     return `${origin}/?${params.toString()}`;
-  }, [origin, publicKey, requestAmount, requestNote]);
+  }, [origin, publicKey, requestAmount, requestNote, requestReference, token]);
+
+  const [webLinkCopied, setWebLinkCopied] = useState(false);
+
+  async function copyRequestWebLink() {
+    if (!requestWebLink) return;
+    const ok = await copyText(requestWebLink);
+    if (ok) {
+      setWebLinkCopied(true);
+      window.setTimeout(() => setWebLinkCopied(false), 1400);
+    }
+  }
+
+  function saveDetectedPayment(p: DetectedPayment, reference: string, note?: string) {
+    if (!publicKey) return;
+    const walletAddr = publicKey.toBase58();
+
+    // Same id as the Helius importer, so a later sync merges instead of duplicating
+    const r: TxReceipt = {
+      id: `h_${p.signature}`,
+      sig: p.signature,
+      createdAt: p.blockTime ? p.blockTime * 1000 : Date.now(),
+      cluster,
+      wallet: walletAddr,
+      status: "confirmed",
+      direction: "received",
+      amountUi: p.amountUi,
+      tokenSymbol: p.tokenSymbol,
+      from: p.from,
+      to: walletAddr,
+      explorerUrl: explorerTxUrl(p.signature, cluster, endpoint),
+      note: p.memo ?? note,
+      reference,
+    };
+
+    upsertReceipt(r);
+    setReceipts(loadReceipts(cluster, walletAddress));
+    refreshBalances();
+
+    // Still counts as paid, but the payer sent more than asked
+    if (p.overpaidUi) {
+      const text = `Overpaid by ${formatTokenCash(Number(p.overpaidUi), p.tokenSymbol)} ${
+        p.tokenSymbol
+      } (${shortAddr(p.from || p.signature)})`;
+      setPaidToast(text);
+      window.setTimeout(() => setPaidToast((prev) => (prev === text ? null : prev)), PAID_TOAST_MS);
+    }
+  }
+
+  // Invoices flip to paid once a matching received receipt shows up
+  useEffect(() => {
+    if (!publicKey) return;
+    settleInvoices(cluster, publicKey.toBase58(), receipts, (sym) =>
+      getTokenBySymbol(sym, cluster)
+    );
+  }, [receipts, cluster, publicKey]);
+
+  function onRequestPaid(p: DetectedPayment) {
+    saveDetectedPayment(p, requestReference.toBase58(), requestNote.trim() || undefined);
+  }
+
+  // One receipt per batch row, written as each row confirms or fails
+  function onBatchRowSettled(row: PayoutRow) {
+    if (!publicKey) return;
+
+    const r: TxReceipt = {
+      id: `batch_${row.id}`,
+      sig: row.sig ?? null,
+      createdAt: Date.now(),
+      cluster,
+      wallet: publicKey.toBase58(),
+      status: row.status === "confirmed" || row.status === "unknown" ? row.status : "failed",
+      direction: "sent",
+      amountUi: row.amountUi,
+      tokenSymbol: token.symbol,
+      from: publicKey.toBase58(),
+      to: row.address,
+      explorerUrl: row.sig ? explorerTxUrl(row.sig, cluster, endpoint) : null,
+      note: row.note || undefined,
+      // Lets the unknown-receipt watcher tell when it can no longer land
+      lastValidBlockHeight: row.lastValidBlockHeight,
+    };
+
+    upsertReceipt(r);
+    setReceipts(loadReceipts(cluster, walletAddress));
+    if (row.status === "confirmed") refreshBalances();
+  }
+
+  function closePaymentWatch() {
+    setShowPaymentWatch(false);
+    // A reference identifies one payment; the next request gets a new one
+    setRequestReference(createReference());
+  }
 
   async function copyRequestLink() {
     if (!requestLink) return;
@@ -643,6 +861,9 @@ function HomeInner() {
     const to = searchParams.get("to");
     const amt = searchParams.get("amount");
     const note = searchParams.get("note");
+    const references = cleanReferences(searchParams.getAll("reference"));
+    const sym = (searchParams.get("token") ?? "").trim().toUpperCase();
+    const label = (searchParams.get("label") ?? "").trim();
 
     let didAnything = false;
 
@@ -668,15 +889,50 @@ function HomeInner() {
       }
     }
 
+    if (references.length) {
+      setTxReferences(references);
+      didAnything = true;
+    }
+
+    if (label) {
+      setTxRequestLabel(label.slice(0, 80));
+      didAnything = true;
+    }
+
+    if (isTokenSymbol(sym)) {
+      setTokenSymbol(sym);
+      didAnything = true;
+    }
+
     if (didAnything) setPrefillDone(true);
   }, [mounted, prefillDone, searchParams]);
 
-  // Load contacts + receipts
-  useEffect(() => setContacts(loadContacts()), []);
+  // Load contacts + receipts (again once IndexedDB has hydrated)
+  useEffect(() => setContacts(loadContacts(walletAddress)), [storageReady, walletAddress]);
   useEffect(() => {
-    ensureReceiptsStore();
-    setReceipts(loadReceipts());
-  }, []);
+    setReceipts(loadReceipts(cluster, walletAddress));
+    setActiveReceipt(null);
+    setShowReceipt(false);
+  }, [cluster, storageReady, walletAddress]);
+
+  // Remember the wallet for the switcher (after hydration, so its cached balances are kept)
+  useEffect(() => {
+    if (!walletAddress || !storageReady) return;
+    rememberWallet(walletAddress, wallet?.adapter.name ?? null);
+  }, [walletAddress, storageReady, wallet]);
+
+  // Switching from the wallet list: once the old one has disconnected, select the saved
+  // adapter and connect (the provider drops the selection on disconnect)
+  useEffect(() => {
+    if (!pendingConnect || connected || connecting) return;
+    if (wallet?.adapter.name !== pendingConnect) {
+      select(pendingConnect);
+      return;
+    }
+    connect()
+      .catch((e) => console.warn("Wallet switch failed:", e))
+      .finally(() => setPendingConnect(null));
+  }, [pendingConnect, wallet, connected, connecting, select, connect]);
 
   // Keep note draft in sync
   useEffect(() => {
@@ -690,35 +946,174 @@ function HomeInner() {
 
   useEffect(() => {
     if (!activeReceipt) return;
-    if (activeReceipt.status === "confirmed" || activeReceipt.status === "failed")
+    if (
+      activeReceipt.status === "confirmed" ||
+      activeReceipt.status === "failed" ||
+      activeReceipt.status === "expired"
+    )
       setShowReceipt(true);
   }, [activeReceipt]);
 
-  // ✅ BALANCES (mainnet) — don’t leave as "—"
+  // ✅ "You got paid": toast, optional browser notification, then balances + history
+  function onIncomingPayment(symbol: TokenSymbol, amountUi: string) {
+    const n = Number(amountUi);
+    const text = `You got paid ${
+      Number.isFinite(n) ? formatTokenCash(n, symbol) : amountUi
+    } ${symbol}`;
+
+    setPaidToast(text);
+    window.setTimeout(() => setPaidToast((prev) => (prev === text ? null : prev)), PAID_TOAST_MS);
+
+    if (
+      notifyEnabled &&
+      typeof Notification !== "undefined" &&
+      Notification.permission === "granted"
+    ) {
+      try {
+        new Notification("UTILIZAP", { body: text });
+      } catch {}
+    }
+
+    refreshBalances();
+
+    // Give the indexer a moment before importing the receipt
+    const walletAddr = publicKey?.toBase58();
+    if (!walletAddr) return;
+    window.setTimeout(() => {
+      lastHeliusSyncRef.current = "";
+      syncHeliusUsdcReceipts(walletAddr).catch(() => {});
+    }, 3000);
+  }
+
+  async function toggleNotifications() {
+    if (notifyEnabled) {
+      setNotifyEnabled(false);
+      try {
+        window.localStorage.setItem(NOTIFY_KEY, "0");
+      } catch {}
+      return;
+    }
+
+    if (typeof Notification === "undefined") return;
+    const permission =
+      Notification.permission === "default"
+        ? await Notification.requestPermission()
+        : Notification.permission;
+    if (permission !== "granted") return;
+
+    setNotifyEnabled(true);
+    try {
+      window.localStorage.setItem(NOTIFY_KEY, "1");
+    } catch {}
+  }
+
+  useEffect(() => {
+    onIncomingRef.current = onIncomingPayment;
+  });
+
+  // --------------------
+  // UNKNOWN OUTCOMES (RPC went away while confirming)
+  // --------------------
+  function onReceiptSettled(r: TxReceipt) {
+    setReceipts(loadReceipts(cluster, walletAddress));
+    setActiveReceipt((prev) => (prev?.id === r.id && prev.wallet === r.wallet ? r : prev));
+    if (r.status === "confirmed") refreshBalances();
+
+    // Only the send form's current payment drives its stage
+    if (!r.sig || r.sig !== txSig || txStage !== "unknown") return;
+    if (r.status === "confirmed") {
+      setTxStage("confirmed");
+      setTxError(null);
+      setTxSchedule(null);
+    } else if (r.status === "expired") {
+      setTxStage("expired");
+      setTxError(EXPIRED_TEXT);
+      setRetryReceiptId(r.id);
+    } else {
+      setTxStage("failed");
+      setTxError("The payment landed but failed on-chain.");
+    }
+  }
+
+  useEffect(() => {
+    onReceiptSettledRef.current = onReceiptSettled;
+  });
+
+  /** Keep checking the receipt's signature until it confirms, fails or expires */
+  function watchUnknownReceipt(r: TxReceipt) {
+    const key = `${r.cluster}:${r.wallet}:${r.id}`;
+    if (!r.sig || settlingRef.current.has(key)) return;
+    settlingRef.current.add(key);
+
+    pollTxOutcome({
+      connection: rpc,
+      signature: r.sig,
+      lastValidBlockHeight: r.lastValidBlockHeight,
+    })
+      .then((): TxReceiptStatus => "confirmed")
+      .catch((e): TxReceiptStatus => (e instanceof TxExpiredError ? "expired" : "failed"))
+      .then((status) => {
+        settlingRef.current.delete(key);
+        // Re-read so a note edited meanwhile isn't lost
+        const latest = loadReceipts(r.cluster, r.wallet).find((x) => x.id === r.id) ?? r;
+        const settled: TxReceipt = { ...latest, status };
+        upsertReceipt(settled);
+        onReceiptSettledRef.current?.(settled);
+      });
+  }
+
+  // Also picks up payments left unknown when the tab was closed
+  useEffect(() => {
+    for (const r of receipts) if (r.status === "unknown") watchUnknownReceipt(r);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [receipts]);
+
+  useEffect(() => {
+    if (!publicKey || !connected) return;
+
+    const stop = watchIncomingPayments({
+      endpoint: rpcState.activeUrl,
+      owner: publicKey,
+      tokens: clusterTokens,
+      onIncoming: (t, amountUi) => onIncomingRef.current?.(t.symbol, amountUi),
+      onStatus: setIncomingStatus,
+      onError: (e) => console.warn("Incoming payment watch error:", e),
+    });
+
+    return () => {
+      stop();
+      setIncomingStatus(null);
+    };
+  }, [publicKey, connected, rpcState.activeUrl, clusterTokens]);
+
+  // ✅ BALANCES (active cluster) — don’t leave as "—"
   const refreshBalances = async () => {
     if (!publicKey) {
       setSolBalance(0);
-      setUsdcBalance(0);
+      setTokenBalance(0);
       return;
     }
 
     try {
-      const sol = await getSolBalance(connection, publicKey);
-      const usdc = await getSplTokenBalance(connection, publicKey);
+      const sol = await getSolBalance(rpc, publicKey);
+      const tokenBal = await getSplTokenBalance(rpc, publicKey, token);
 
       setSolBalance(Number.isFinite(sol) ? sol : 0);
-      setUsdcBalance(Number.isFinite(usdc) ? usdc : 0);
+      setTokenBalance(Number.isFinite(tokenBal) ? tokenBal : 0);
+      if (Number.isFinite(sol) && Number.isFinite(tokenBal)) {
+        cacheWalletBalance(publicKey.toBase58(), cluster, sol, { [token.symbol]: tokenBal });
+      }
     } catch (e) {
       console.error("refreshBalances failed:", e);
       setSolBalance(0);
-      setUsdcBalance(0);
+      setTokenBalance(0);
     }
   };
 
   useEffect(() => {
     refreshBalances();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [publicKey, connection]);
+  }, [publicKey, rpc, token]);
 
   const canSend = useMemo(() => {
     if (!publicKey || !connected || !signTransaction) return false;
@@ -735,7 +1130,7 @@ function HomeInner() {
   }, [contacts, recipient]);
 
   const contactsSorted = useMemo(() => {
-    const meta = loadContactsMeta();
+    const meta = walletAddress ? loadContactsMeta(walletAddress) : {};
     const collator = new Intl.Collator(undefined, {
       numeric: true,
       sensitivity: "base",
@@ -749,7 +1144,7 @@ function HomeInner() {
       return collator.compare(a.name, b.name);
     });
     return list;
-  }, [contacts]);
+  }, [contacts, walletAddress]);
 
   const contactsFiltered = useMemo(() => {
     const q = contactSearchQuery.trim().toLowerCase();
@@ -768,8 +1163,12 @@ function HomeInner() {
       return "border-emerald-400/30 bg-emerald-400/10 text-emerald-200";
     if (status === "failed")
       return "border-red-400/30 bg-red-400/10 text-red-200";
+    if (status === "expired")
+      return "border-amber-400/30 bg-amber-400/10 text-amber-200";
     if (status === "confirming")
       return "border-white/15 bg-white/5 text-zinc-200";
+    if (status === "unknown")
+      return "border-amber-400/30 bg-amber-400/10 text-amber-200";
     return "border-white/10 bg-white/5 text-zinc-300";
   }
 
@@ -779,152 +1178,86 @@ function HomeInner() {
     return "border-amber-400/30 bg-amber-400/10 text-amber-200";
   }
 
-  function receiptStatusLabel(status: TxReceiptStatus) {
-    if (status === "confirmed") return "Confirmed";
-    if (status === "failed") return "Failed";
-    if (status === "confirming") return "Confirming";
-    return "Submitted";
-  }
-
-  function receiptAmountPretty(amountUi: string) {
+  function receiptAmountPretty(amountUi: string, symbol: TokenSymbol) {
     const s = (amountUi ?? "").trim();
     const n = Number(s);
-    if (Number.isFinite(n) && n > 0) return formatUsd(n);
+    if (Number.isFinite(n) && n > 0) return formatTokenCash(n, symbol);
     return s || "—";
   }
 
+  // Persist imported receipts; a locally edited note always wins over the on-chain memo
+  function mergeImportedTxs(walletAddr: string, txs: HistoryTx[]) {
+    const imported = txs.flatMap((tx) => historyTxToReceipts(tx, walletAddr, cluster, endpoint));
+    mergeImportedReceipts(imported);
+    if (imported.length > 0) setReceipts(loadReceipts(cluster, walletAddress));
+  }
+
   /**
-   * ✅ Helius import:
-   * NOTE: This depends on your lib/helius.ts being configured for MAINNET + correct API key.
-   * We'll keep the logic, but label cluster mainnet.
+   * ✅ On-chain import (Helius via /api/history, or the RPC fallback):
+   * Incremental — only pulls transactions newer than the last synced signature.
+   * Runs against the active cluster (localnet always uses the RPC provider).
    */
   async function syncHeliusUsdcReceipts(walletAddr: string) {
     if (!walletAddr) return;
 
-    const syncKey = `${walletAddr}`;
+    const syncKey = `${cluster}:${walletAddr}`;
     if (lastHeliusSyncRef.current === syncKey) return;
 
     setIsHeliusSyncing(true);
     lastHeliusSyncRef.current = syncKey;
 
     try {
-      const txs = await heliusAddressTransactions(walletAddr, { limit: 80 });
-      const walletLower = walletAddr.toLowerCase();
-
-      const bySig = new Map<string, TxReceipt>();
-
-      for (const tx of Array.isArray(txs) ? txs : []) {
-        const sig: string | undefined = (tx as any)?.signature;
-        if (!sig) continue;
-
-        const tokenTransfers = (tx as any)?.tokenTransfers || [];
-        if (!Array.isArray(tokenTransfers) || tokenTransfers.length === 0) continue;
-
-        let net = 0;
-        let involved = false;
-
-        let bestFrom = "";
-        let bestTo = "";
-
-        for (const t of tokenTransfers) {
-          // If your Helius returns mint filtering internally, this may be fine.
-          // Otherwise your helius.ts should filter by USDC mint.
-          const raw = (t as any)?.tokenAmount ?? (t as any)?.amount ?? 0;
-
-          let amt = 0;
-          if (typeof raw === "number") amt = raw;
-          else if (typeof raw === "string") amt = Number(raw);
-          else if (raw && typeof raw === "object") {
-            if (typeof raw.uiAmount === "number") amt = raw.uiAmount;
-            else if (typeof raw.uiAmountString === "string")
-              amt = Number(raw.uiAmountString);
-            else if (typeof raw.amount === "string") {
-              const decimals = typeof raw.decimals === "number" ? raw.decimals : 0;
-              const intVal = Number(raw.amount);
-              if (Number.isFinite(intVal)) amt = intVal / Math.pow(10, decimals);
-            }
-          }
+      const { txs, state } = await fetchNewHistory({
+        provider: historyProvider,
+        address: walletAddr,
+        cluster,
+        state: loadSyncState(cluster, walletAddr),
+      });
 
-          if (!Number.isFinite(amt) || amt <= 0) continue;
-
-          const fromAny = String(
-            t?.fromUserAccount || t?.fromAccount || t?.fromTokenAccount || ""
-          ).toLowerCase();
-
-          const toAny = String(
-            t?.toUserAccount || t?.toAccount || t?.toTokenAccount || ""
-          ).toLowerCase();
-
-          const looksOut = fromAny === walletLower;
-          const looksIn = toAny === walletLower;
-
-          if (looksIn || looksOut) involved = true;
-
-          if (looksIn) {
-            net += amt;
-            bestFrom = String(
-              t?.fromUserAccount || t?.fromAccount || t?.fromTokenAccount || ""
-            );
-            bestTo = walletAddr;
-          } else if (looksOut) {
-            net -= amt;
-            bestFrom = walletAddr;
-            bestTo = String(
-              t?.toUserAccount || t?.toAccount || t?.toTokenAccount || ""
-            );
-          }
-        }
+      mergeImportedTxs(walletAddr, txs);
+      saveSyncState(cluster, walletAddr, state);
+      setHistorySync(state);
+    } catch (e) {
+      console.error("Helius sync failed:", e);
+      // Allow a retry on the next refresh
+      lastHeliusSyncRef.current = "";
+    } finally {
+      setIsHeliusSyncing(false);
+    }
+  }
 
-        if (!involved) continue;
-
-        const direction: TxReceiptDirection = net >= 0 ? "received" : "sent";
-        const amountAbs = Math.abs(net);
-
-        const tsSeconds = (tx as any)?.timestamp ?? (tx as any)?.blockTime ?? null;
-        const createdAt =
-          typeof tsSeconds === "number" && tsSeconds > 0 ? tsSeconds * 1000 : Date.now();
-
-        const status: TxReceiptStatus = heliusHasError(tx) ? "failed" : "confirmed";
-
-        const id = `h_${sig}`;
-        const r: TxReceipt = {
-          id,
-          sig,
-          createdAt,
-          cluster: "mainnet-beta",
-          status,
-          direction,
-          amountUi: String(Number.isFinite(amountAbs) ? amountAbs : 0),
-          tokenSymbol: "USDC",
-          from: direction === "received" ? bestFrom || "" : walletAddr,
-          to: direction === "received" ? walletAddr : bestTo || "",
-          explorerUrl: `https://explorer.solana.com/tx/${sig}?cluster=${CLUSTER}`,
-        };
-
-        bySig.set(sig, r);
-      }
+  // "Load older": show more local receipts, and pull the next page back from the cursor
+  async function loadOlderReceipts() {
+    setReceiptLimit((n) => n + RECEIPTS_PAGE);
 
-      if (bySig.size === 0) return;
+    const walletAddr = publicKey?.toBase58();
+    if (!walletAddr || isLoadingOlder) return;
 
-      const existing = loadReceipts();
-      const existingById = new Map(existing.map((r) => [r.id, r]));
+    const current = loadSyncState(cluster, walletAddr);
+    if (current.reachedEnd) return;
 
-      for (const r of bySig.values()) {
-        const prev = existingById.get(r.id);
-        const merged: TxReceipt = prev?.note ? { ...r, note: prev.note } : r;
-        upsertReceipt(merged);
-      }
+    setIsLoadingOlder(true);
+    try {
+      const { txs, state } = await fetchOlderHistory({
+        provider: historyProvider,
+        address: walletAddr,
+        cluster,
+        state: current,
+      });
 
-      setReceipts(loadReceipts());
+      mergeImportedTxs(walletAddr, txs);
+      saveSyncState(cluster, walletAddr, state);
+      setHistorySync(state);
     } catch (e) {
-      console.error("Helius sync failed:", e);
+      console.error("Loading older history failed:", e);
     } finally {
-      setIsHeliusSyncing(false);
+      setIsLoadingOlder(false);
     }
   }
 
   useEffect(() => {
-    if (!publicKey || !connected) return;
+    // Wait for stored receipts, so synced history keeps their notes
+    if (!publicKey || !connected || !storageReady) return;
 
     (async () => {
       try {
@@ -934,7 +1267,7 @@ function HomeInner() {
       }
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [publicKey, connected]);
+  }, [publicKey, connected, cluster, storageReady]);
 
   const filteredReceipts = useMemo(() => {
     const q = receiptSearch.trim().toLowerCase();
@@ -942,8 +1275,8 @@ function HomeInner() {
     function matchesFilter(r: TxReceipt) {
       if (receiptFilter === "all") return true;
       if (receiptFilter === "confirmed") return r.status === "confirmed";
-      if (receiptFilter === "failed") return r.status === "failed";
-      return r.status === "submitted" || r.status === "confirming";
+      if (receiptFilter === "failed") return r.status === "failed" || r.status === "expired";
+      return r.status === "submitted" || r.status === "confirming" || r.status === "unknown";
     }
 
     function matchesTab(r: TxReceipt) {
@@ -973,90 +1306,128 @@ function HomeInner() {
   }, [receipts, receiptSearch, receiptFilter, receiptTab]);
 
   const recentReceipts = useMemo(
-    () => filteredReceipts.slice(0, 10),
-    [filteredReceipts]
+    () => filteredReceipts.slice(0, receiptLimit),
+    [filteredReceipts, receiptLimit]
   );
 
-  const onSendUsdc = async () => {
+  // v0 messages (with any configured lookup tables) when the wallet can sign them
+  const txVersion = pickTransactionVersion(wallet?.adapter.supportedTransactionVersions);
+
+  async function txFormat() {
+    return {
+      version: txVersion,
+      lookupTables: txVersion === 0 ? await fetchLookupTables(rpc, cluster) : [],
+    };
+  }
+
+  const onSendUsdc = async (retryOf?: string) => {
     const from = publicKey?.toBase58() ?? "";
     const to = recipient.trim();
     const amountUi = amount.trim();
     const note = txNote.trim();
+    const memo = previewMemoOnChain && isMemoWithinLimit(note) ? note : "";
 
-    const receiptId = makeId();
+    const receiptId = retryOf ?? makeId();
     const receiptDraft: TxReceipt = {
       id: receiptId,
       sig: null,
       createdAt: Date.now(),
-      cluster: "mainnet-beta",
+      cluster,
+      wallet: from,
       status: "submitted",
       direction: "sent",
       amountUi,
-      tokenSymbol: "USDC",
+      tokenSymbol: token.symbol,
       from,
       to,
       explorerUrl: null,
       note: note ? note : undefined,
+      reference: txReferences[0],
+      schedule: txSchedule ?? undefined,
     };
 
     try {
       setTxError(null);
       setTxSig(null);
+      setRetryReceiptId(null);
       setTxStage("signing");
       setIsSending(true);
 
       upsertReceipt(receiptDraft);
-      setReceipts(loadReceipts());
+      setReceipts(loadReceipts(cluster, walletAddress));
       setActiveReceipt(receiptDraft);
 
-      const { signature, blockhash, lastValidBlockHeight } = await sendUsdc({
-        connection,
+      let withSig = receiptDraft;
+      const { signature, lastValidBlockHeight, raw } = await sendUsdc({
+        ...(await txFormat()),
+        connection: rpc,
         sender: publicKey!,
         recipient: new PublicKey(to),
         amountUi,
+        token,
+        memo,
+        references: txReferences.map((r) => new PublicKey(r)),
+        priority: priorityLevel,
         signTransaction: signTransaction!,
+        // Saved before sending, so a send that errors out can still be looked up on-chain
+        onSigned: (sig, lastValidBlockHeight) => {
+          withSig = {
+            ...receiptDraft,
+            sig,
+            explorerUrl: explorerTxUrl(sig, cluster, endpoint),
+            lastValidBlockHeight,
+          };
+          upsertReceipt(withSig);
+          setActiveReceipt(withSig);
+          setTxSig(sig);
+          setTxStage("submitted");
+        },
       });
 
-      setTxSig(signature);
       setTxStage("confirming");
 
-      const withSig: TxReceipt = {
-        ...receiptDraft,
-        sig: signature,
-        status: "confirming",
-        explorerUrl: `https://explorer.solana.com/tx/${signature}?cluster=${CLUSTER}`,
-      };
-
+      withSig = { ...withSig, status: "confirming" };
       upsertReceipt(withSig);
-      setReceipts(loadReceipts());
+      setReceipts(loadReceipts(cluster, walletAddress));
       setActiveReceipt(withSig);
 
-      const conf = await connection.confirmTransaction(
-        { signature, blockhash, lastValidBlockHeight },
-        "confirmed"
-      );
-
-      if (conf.value.err) throw new Error("Transaction failed");
+      await confirmWithRebroadcast({
+        connection: rpc,
+        signature,
+        raw,
+        lastValidBlockHeight,
+        onRebroadcast: () => setTxStage("rebroadcasting"),
+      });
 
       const confirmed: TxReceipt = { ...withSig, status: "confirmed" };
 
       upsertReceipt(confirmed);
-      setReceipts(loadReceipts());
+      setReceipts(loadReceipts(cluster, walletAddress));
       setActiveReceipt(confirmed);
 
       setTxStage("confirmed");
+      setTxSchedule(null);
       await refreshBalances();
 
       lastHeliusSyncRef.current = "";
     } catch (e: any) {
-      setTxStage("failed");
-      setTxError(e?.message ?? "Send failed");
-
-      const failed: TxReceipt = { ...receiptDraft, status: "failed" };
+      const expired = e instanceof TxExpiredError;
+      const unknown = e instanceof TxOutcomeUnknownError;
+      setTxStage(expired ? "expired" : unknown ? "unknown" : "failed");
+      setTxError(expired ? EXPIRED_TEXT : unknown ? UNKNOWN_TEXT : e?.message ?? "Send failed");
+      if (expired) setRetryReceiptId(receiptId);
+
+      // Keep the signature on the receipt so a landed-with-error tx can be inspected
+      const prev = loadReceipts(cluster, walletAddress).find((r) => r.id === receiptId) ?? receiptDraft;
+      const settled: TxReceipt = {
+        ...prev,
+        status: expired ? "expired" : unknown ? "unknown" : "failed",
+      };
 
-      upsertReceipt(failed);
-      setReceipts(loadReceipts());
-      setActiveReceipt(failed);
+      upsertReceipt(settled);
+      setReceipts(loadReceipts(cluster, walletAddress));
+      setActiveReceipt(settled);
+      if (unknown) watchUnknownReceipt(settled);
     } finally {
       setIsSending(false);
     }
@@ -1066,33 +1437,100 @@ function HomeInner() {
     isSending ||
     txStage === "signing" ||
     txStage === "submitted" ||
-    txStage === "confirming";
+    txStage === "confirming" ||
+    txStage === "rebroadcasting";
 
   const isConfirmed = txStage === "confirmed";
 
-  const usdcCash = formatUsd(usdcBalance);
+  const balanceCash = formatTokenAmount(tokenBalance, token);
+
+  // Balance card: which RPC is serving us, and when it last failed
+  const activeRpc = rpcState.endpoints.find((h) => h.url === rpcState.activeUrl);
+  const activeRpcHost = (() => {
+    try {
+      return new URL(rpcState.activeUrl).host;
+    } catch {
+      return rpcState.activeUrl;
+    }
+  })();
   const solPrecise = solBalance.toFixed(4);
 
+  // --------------------
+  // ✅ SCHEDULED PAYMENTS
+  // --------------------
+  const scheduleDue = useMemo(
+    () => scheduleReminders(schedules, receipts, scheduleNow),
+    [schedules, receipts, scheduleNow]
+  );
+
+  // Re-evaluate due dates while the app stays open
+  useEffect(() => {
+    const id = window.setInterval(() => setScheduleNow(Date.now()), 60_000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  // One browser notification per occurrence and status per session
+  useEffect(() => {
+    if (
+      !notifyEnabled ||
+      typeof Notification === "undefined" ||
+      Notification.permission !== "granted"
+    ) {
+      return;
+    }
+
+    for (const { schedule, occurrence } of scheduleDue) {
+      const key = `${schedule.id}:${occurrence.due}:${occurrence.status}`;
+      if (scheduleNotifiedRef.current.has(key)) continue;
+      scheduleNotifiedRef.current.add(key);
+
+      const when =
+        occurrence.status === "missed"
+          ? `was due ${formatDueDate(occurrence.due)}`
+          : `is due ${formatDueDate(occurrence.due)}`;
+      try {
+        new Notification("UTILIZAP", {
+          body: `${schedule.label}: ${schedule.amountUi} ${schedule.tokenSymbol} ${when}`,
+        });
+      } catch {}
+    }
+  }, [scheduleDue, notifyEnabled]);
+
+  // Prefill the send form; the payment then goes through the normal preview
+  function payScheduled(s: ScheduledPayment, due: string) {
+    setRecipient(s.recipient);
+    setAmount(s.amountUi);
+    setTxNote(s.note);
+    setTokenSymbol(s.tokenSymbol);
+    setTxReferences([]);
+    setTxRequestLabel("");
+    setTxRequestWarn(null);
+    setTxSchedule({ id: s.id, due });
+    setShowSchedules(false);
+  }
+
+  async function switchWallet(w: KnownWallet) {
+    setShowWallets(false);
+    const target = wallets.find((x) => x.adapter.name === w.adapter);
+    try {
+      if (connected) await disconnect();
+    } catch (e) {
+      console.warn("Disconnect failed:", e);
+    }
+    // Adapter no longer installed: the user picks a wallet from the connect button
+    if (target) setPendingConnect(target.adapter.name);
+  }
+
   function chooseContact(c: Contact) {
     setRecipient(c.address);
-    touchContactMeta(c.id);
+    if (walletAddress) touchContactMeta(walletAddress, c.id);
     setContactsOpen(false);
     setContactSearchQuery("");
   }
 
   function deleteContact(id: string) {
-    setContacts((prev) => {
-      const next = prev.filter((c) => c.id !== id);
-      saveContacts(next);
-
-      const meta = loadContactsMeta();
-      if (meta[id]) {
-        delete meta[id];
-        saveContactsMeta(meta);
-      }
-
-      return next;
-    });
+    removeContact(id);
+    setContacts(loadContacts(walletAddress));
   }
 
   function addContactFromRecipient() {
@@ -1101,20 +1539,17 @@ function HomeInner() {
 
     if (!name) return;
     if (!address) return;
-    if (!isValidSolanaAddress(address)) return;
-
-    const newContact: Contact = { id: makeId(), name, address };
-
-    setContacts((prev) => {
-      const addrLower = address.toLowerCase();
-      const exists = prev.some((c) => c.address.toLowerCase() === addrLower);
-
-      const next = exists ? prev : [newContact, ...prev];
-      saveContacts(next);
-      return next;
-    });
+    if (!isValidSolanaAddress(address) || !walletAddress) return;
+
+    const addrLower = address.toLowerCase();
+    const exists = contacts.some((c) => c.address.toLowerCase() === addrLower);
+    if (!exists) {
+      const newContact = makeContact(makeId(), name, address, walletAddress);
+      addContacts([newContact]);
+      touchContactMeta(walletAddress, newContact.id);
+      setContacts(loadContacts(walletAddress));
+    }
 
-    touchContactMeta(newContact.id);
     setContactName("");
   }
 
@@ -1146,6 +1581,9 @@ function HomeInner() {
       const note = (activeReceipt.note ?? "").trim();
       if (note) params.set("note", note.slice(0, 140));
 
+      if (activeReceipt.tokenSymbol !== DEFAULT_TOKEN.symbol)
+        params.set("token", activeReceipt.tokenSymbol);
+
       return `${o}/?${params.toString()}`;
     } catch {
       return "";
@@ -1157,9 +1595,11 @@ function HomeInner() {
   const previewFrom = useMemo(() => publicKey?.toBase58() ?? "", [publicKey]);
   const previewAmountPretty = useMemo(() => {
     const n = Number(amount);
-    if (Number.isFinite(n) && n > 0) return formatUsd(n);
+    if (Number.isFinite(n) && n > 0) return formatTokenAmount(n, token);
     return amount?.trim() ? amount.trim() : "—";
-  }, [amount]);
+  }, [amount, token]);
+
+  const noteFitsMemo = useMemo(() => isMemoWithinLimit(txNote.trim()), [txNote]);
 
   function openPreview() {
     setPreviewWarn(null);
@@ -1180,40 +1620,26 @@ function HomeInner() {
     }
 
     setPreviewAck(false);
-    setPreviewFeeText("—");
+    setTransferPreview(null);
+    setPreviewError(null);
+    setPreviewMemoOnChain(isMemoWithinLimit(txNote.trim()));
     setShowPreview(true);
   }
 
-  async function estimateNetworkFee(): Promise<string> {
-    try {
-      if (!publicKey) return "—";
-      const { blockhash } = await connection.getLatestBlockhash("finalized");
-      const tx = new Transaction({
-        feePayer: publicKey,
-        recentBlockhash: blockhash,
-      });
-
-      tx.add(
-        SystemProgram.transfer({
-          fromPubkey: publicKey,
-          toPubkey: publicKey,
-          lamports: 0,
-        })
-      );
-
-      const msg = tx.compileMessage();
-      const feeLamports = await connection.getFeeForMessage(msg, "confirmed");
-      const lamports =
-        typeof feeLamports?.value === "number" ? feeLamports.value : null;
-
-      if (lamports === null) return "—";
-
-      const sol = lamports / LAMPORTS_PER_SOL;
-      const pretty = sol === 0 ? "0" : sol < 0.0001 ? sol.toFixed(6) : sol.toFixed(4);
-      return `${pretty} SOL (est.)`;
-    } catch {
-      return "—";
-    }
+  // Simulate the transfer exactly as it will be sent (CU limit, priority fee, ATA rent)
+  async function loadTransferPreview(): Promise<TransferPreview> {
+    const note = txNote.trim();
+    return previewTransfer({
+      ...(await txFormat()),
+      connection: rpc,
+      sender: publicKey!,
+      recipient: new PublicKey(recipient.trim()),
+      amountUi: amount.trim(),
+      token,
+      memo: previewMemoOnChain && isMemoWithinLimit(note) ? note : "",
+      references: txReferences.map((r) => new PublicKey(r)),
+      priority: priorityLevel,
+    });
   }
 
   useEffect(() => {
@@ -1221,13 +1647,22 @@ function HomeInner() {
 
     async function run() {
       if (!showPreview) return;
-      if (!publicKey) return;
+      if (!publicKey || !isValidSolanaAddress(recipient.trim())) return;
 
       setPreviewFeeLoading(true);
-      const fee = await estimateNetworkFee();
-      if (!cancelled) {
-        setPreviewFeeText(fee);
-        setPreviewFeeLoading(false);
+      try {
+        const preview = await loadTransferPreview();
+        if (!cancelled) {
+          setTransferPreview(preview);
+          setPreviewError(null);
+        }
+      } catch (e) {
+        if (!cancelled) {
+          setTransferPreview(null);
+          setPreviewError(e instanceof Error ? e.message : "Could not simulate this transfer.");
+        }
+      } finally {
+        if (!cancelled) setPreviewFeeLoading(false);
       }
     }
 
@@ -1236,7 +1671,17 @@ function HomeInner() {
       cancelled = true;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [showPreview, publicKey]);
+  }, [showPreview, publicKey, priorityLevel, previewMemoOnChain]);
+
+  const previewBlocked =
+    previewFeeLoading ||
+    previewError !== null ||
+    (transferPreview?.warnings.some((w) => w.blocking) ?? true);
+
+  function fmtSol(lamports: number) {
+    const sol = lamports / LAMPORTS_PER_SOL;
+    return sol === 0 ? "0" : sol < 0.0001 ? sol.toFixed(6) : sol.toFixed(4);
+  }
 
   async function continueToPhantom() {
     if (!previewAck) return;
@@ -1268,10 +1713,9 @@ function HomeInner() {
           </div>
 
           <div className="flex items-center gap-3">
-            <span className="hidden sm:inline-flex items-center gap-2 rounded-full uz-chip">
-              <span className="inline-block h-2 w-2 rounded-full bg-emerald-400/90" />
-              Mainnet
-            </span>
+            <div className="hidden sm:flex">
+              {mounted ? <ClusterSelect disabled={isBusy} /> : null}
+            </div>
 
             {mounted ? (
               <WalletMultiButton className="uz-wallet-btn" />
@@ -1286,6 +1730,26 @@ function HomeInner() {
           </div>
         </header>
 
+        {storageIssue ? (
+          <div
+            role="alert"
+            className="mt-4 rounded-xl border border-amber-300/30 bg-amber-300/10 px-4 py-3 text-xs text-amber-100 flex items-center justify-between gap-3"
+          >
+            <span>
+              {storageIssue === "outdated"
+                ? "UTILIZAP was updated in another tab. Reload to keep saving receipts and contacts."
+                : "Browser storage is unavailable, so receipts and contacts from this session won't be saved. Close other UTILIZAP tabs and reload."}
+            </span>
+            <button
+              type="button"
+              onClick={() => window.location.reload()}
+              className="shrink-0 underline text-amber-100/80 hover:text-amber-100"
+            >
+              Reload
+            </button>
+          </div>
+        ) : null}
+
         {connected && publicKey ? (
           <section className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
             <div className="uz-panel rounded-2xl p-5 sm:p-6">
@@ -1300,6 +1764,14 @@ function HomeInner() {
                   <p className="font-mono text-lg text-white">
                     {shortAddr(publicKey.toBase58())}
                   </p>
+                  <button
+                    type="button"
+                    onClick={() => setShowWallets(true)}
+                    disabled={isBusy}
+                    className="text-[11px] text-white/60 underline underline-offset-2 hover:text-white disabled:opacity-40"
+                  >
+                    Switch wallet
+                  </button>
                 </div>
 
                 <div className="rounded-2xl uz-card overflow-hidden">
@@ -1310,9 +1782,9 @@ function HomeInner() {
                           Available Balance
                         </p>
                         <p className="mt-1 text-3xl sm:text-4xl font-extrabold tracking-tight text-white">
-                          {usdcCash}{" "}
+                          {balanceCash}{" "}
                           <span className="text-white/70 text-base sm:text-lg font-semibold">
-                            USDC
+                            {token.symbol}
                           </span>
                         </p>
                         <p className="mt-1 text-sm text-white/60">Ready to send</p>
@@ -1322,7 +1794,27 @@ function HomeInner() {
                     </div>
 
                     <div className="mt-2 text-[11px] text-white/60">
-                      USDC (mainnet)
+                      {token.name} ({clusterConfig.label.toLowerCase()})
+                    </div>
+
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {clusterTokens.map((t) => (
+                        <button
+                          key={t.symbol}
+                          type="button"
+                          onClick={() => setTokenSymbol(t.symbol)}
+                          disabled={isBusy}
+                          className={[
+                            "rounded-full px-3 py-1.5 text-xs border transition",
+                            tokenSymbol === t.symbol
+                              ? "bg-white/10 text-white border-white/15"
+                              : "bg-white/5 border-white/10 hover:bg-white/10 text-white",
+                          ].join(" ")}
+                          title={t.name}
+                        >
+                          {t.symbol}
+                        </button>
+                      ))}
                     </div>
                   </div>
 
@@ -1342,12 +1834,50 @@ function HomeInner() {
                       </div>
 
                       <span className="text-xs px-3 py-1 rounded-full uz-chip">
-                        Mainnet
+                        {clusterConfig.label}
+                      </span>
+                    </div>
+
+                    <div className="mt-2 text-[11px] text-white/60">
+                      RPC:{" "}
+                      <span className="font-mono text-white/80">{activeRpcHost}</span>
+                      {activeRpc?.lastFailureAt ? (
+                        <>
+                          <span className="mx-2 text-white/40">•</span>
+                          Last failed {fmtWhen(activeRpc.lastFailureAt)}
+                        </>
+                      ) : null}
+                    </div>
+
+                    <div className="mt-1 flex items-center justify-between gap-2 text-[11px] text-white/60">
+                      <span>
+                        Incoming payments:{" "}
+                        <span
+                          className={
+                            incomingStatus === "live" ? "text-emerald-300" : "text-amber-200"
+                          }
+                        >
+                          {incomingStatus === "live"
+                            ? "Live"
+                            : incomingStatus === "reconnecting"
+                            ? "Reconnecting…"
+                            : "Connecting…"}
+                        </span>
                       </span>
+                      <button
+                        type="button"
+                        onClick={toggleNotifications}
+                        className="underline underline-offset-2 hover:text-white"
+                        title="Browser notification when a payment arrives"
+                      >
+                        {notifyEnabled ? "Alerts on" : "Enable alerts"}
+                      </button>
                     </div>
                   </div>
                 </div>
 
+                <RpcSettings />
+
                 <ReceiveQr className="mt-1" />
 
                 <button
@@ -1361,8 +1891,18 @@ function HomeInner() {
 
             <div className="uz-panel rounded-2xl p-5 sm:p-6">
               <div className="flex items-center justify-between gap-4">
-                <h2 className="text-lg font-bold">Send USDC</h2>
-                <span className="text-xs text-white/70">Mainnet</span>
+                <h2 className="text-lg font-bold">Send {token.symbol}</h2>
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setShowBatchPayout(true)}
+                    disabled={!connected || isBusy}
+                    className="uz-btn-secondary"
+                  >
+                    Batch Payout
+                  </button>
+                  <span className="text-xs text-white/70">{clusterConfig.label}</span>
+                </div>
               </div>
 
               <div className="mt-4">
@@ -1376,9 +1916,24 @@ function HomeInner() {
                         Share a link that opens UTILIZAP pre-filled to pay you
                       </div>
                     </div>
-                    <span className="text-[11px] px-2 py-1 rounded-full uz-chip">
-                      Shareable
-                    </span>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setShowInvoices(true)}
+                        disabled={!connected}
+                        className="uz-btn-secondary"
+                      >
+                        Invoices
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setShowSplit(true)}
+                        disabled={!connected}
+                        className="uz-btn-secondary"
+                      >
+                        Split a Bill
+                      </button>
+                    </div>
                   </div>
 
                   <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-3">
@@ -1386,7 +1941,10 @@ function HomeInner() {
                       <label className="text-xs text-white/70">Amount (optional)</label>
                       <input
                         value={requestAmount}
-                        onChange={(e) => setRequestAmount(e.target.value)}
+                        onChange={(e) => {
+                          setRequestAmount(e.target.value);
+                          setRequestReference(createReference());
+                        }}
                         placeholder="e.g., 25"
                         className="uz-input w-full mt-2"
                         inputMode="decimal"
@@ -1398,7 +1956,10 @@ function HomeInner() {
                       <label className="text-xs text-white/70">Note (optional)</label>
                       <input
                         value={requestNote}
-                        onChange={(e) => setRequestNote(e.target.value)}
+                        onChange={(e) => {
+                          setRequestNote(e.target.value);
+                          setRequestReference(createReference());
+                        }}
                         placeholder='e.g., "Lunch"'
                         className="uz-input w-full mt-2"
                         disabled={!mounted}
@@ -1409,7 +1970,7 @@ function HomeInner() {
                     </div>
 
                     <div className="sm:col-span-3">
-                      <label className="text-xs text-white/70">Link</label>
+                      <label className="text-xs text-white/70">Solana Pay link</label>
                       <div className="mt-2 flex items-center gap-3">
                         <input
                           id="uz-request-link"
@@ -1430,13 +1991,28 @@ function HomeInner() {
                       </div>
 
                       <div className="mt-2 text-[11px] text-white/60">
-                        Opens:{" "}
+                        Works with UTILIZAP and any Solana Pay wallet:{" "}
                         <span className="text-white/80">
                           Recipient + Amount + Note
                         </span>{" "}
                         auto-filled
                       </div>
 
+                      <div className="mt-3 flex items-center gap-3">
+                        <button
+                          type="button"
+                          onClick={copyRequestWebLink}
+                          disabled={!requestWebLink}
+                          className="uz-btn-secondary"
+                          title="Copy browser link"
+                        >
+                          {webLinkCopied ? "Copied ✓" : "Copy Web Link"}
+                        </button>
+                        <span className="text-[11px] text-white/70">
+                          Opens UTILIZAP in the browser
+                        </span>
+                      </div>
+
                       <div className="mt-3 flex items-center gap-3">
                         <button
                           type="button"
@@ -1447,7 +2023,21 @@ function HomeInner() {
                           {showRequestQr ? "Hide QR" : "Show QR"}
                         </button>
                         <span className="text-[11px] text-white/70">
-                          Scan to open payment request
+                          Scan with UTILIZAP or a Solana Pay wallet
+                        </span>
+                      </div>
+
+                      <div className="mt-3 flex items-center gap-3">
+                        <button
+                          type="button"
+                          onClick={() => setShowPaymentWatch(true)}
+                          disabled={!requestLink}
+                          className="uz-btn-secondary"
+                        >
+                          Watch for Payment
+                        </button>
+                        <span className="text-[11px] text-white/70">
+                          Checkout screen that flips to Paid automatically
                         </span>
                       </div>
 
@@ -1492,7 +2082,12 @@ function HomeInner() {
 
                   <button
                     type="button"
-                    onClick={() => setRecipient("")}
+                    onClick={() => {
+                      setRecipient("");
+                      setTxReferences([]);
+                      setTxRequestLabel("");
+                      setTxRequestWarn(null);
+                    }}
                     disabled={isBusy || !recipient.trim()}
                     className="uz-btn-clear"
                     title="Clear recipient"
@@ -1514,6 +2109,90 @@ function HomeInner() {
                   )}
                 </div>
 
+                {txRequestLabel || txReferences.length > 0 ? (
+                  <div className="mb-3 text-[11px] text-white/70">
+                    Solana Pay request
+                    {txRequestLabel ? (
+                      <>
+                        {" "}from{" "}
+                        <span className="text-white font-semibold">{txRequestLabel}</span>
+                      </>
+                    ) : null}
+                    {txReferences.length > 0 ? (
+                      <>
+                        <span className="mx-2 text-white/40">•</span>
+                        Ref:{" "}
+                        <span className="font-mono text-white/80">
+                          {shortMid(txReferences[0], 6, 6)}
+                        </span>
+                      </>
+                    ) : null}
+                  </div>
+                ) : null}
+
+                {txRequestWarn ? (
+                  <div className="mb-3 rounded-xl border border-amber-300/30 bg-amber-300/10 px-4 py-3 text-xs text-amber-100">
+                    {txRequestWarn}
+                  </div>
+                ) : null}
+
+                {txSchedule ? (
+                  <div className="mb-3 flex items-center justify-between gap-3 text-[11px] text-white/70">
+                    <span>
+                      Scheduled payment:{" "}
+                      <span className="text-white font-semibold">
+                        {schedules.find((x) => x.id === txSchedule.id)?.label ?? "Payment"}
+                      </span>
+                      <span className="mx-2 text-white/40">•</span>
+                      due {formatDueDate(txSchedule.due)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setTxSchedule(null)}
+                      disabled={isBusy}
+                      className="text-white/50 hover:text-white"
+                      aria-label="Detach scheduled payment"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ) : null}
+
+                {mounted && scheduleDue.length > 0 && !txSchedule ? (
+                  <div className="mb-3 rounded-xl border border-amber-300/30 bg-amber-300/10 px-4 py-3 text-xs text-amber-100 space-y-2">
+                    {scheduleDue.slice(0, 3).map(({ schedule, occurrence }) => (
+                      <div
+                        key={`${schedule.id}:${occurrence.due}`}
+                        className="flex items-center justify-between gap-3"
+                      >
+                        <span className="min-w-0 truncate">
+                          <span className="font-semibold">{schedule.label}</span> •{" "}
+                          {schedule.amountUi} {schedule.tokenSymbol}{" "}
+                          {occurrence.status === "missed" ? "missed" : "due"}{" "}
+                          {formatDueDate(occurrence.due)}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => payScheduled(schedule, occurrence.due)}
+                          disabled={isBusy}
+                          className="uz-btn-secondary shrink-0"
+                        >
+                          Pay now
+                        </button>
+                      </div>
+                    ))}
+                    {scheduleDue.length > 3 ? (
+                      <button
+                        type="button"
+                        onClick={() => setShowSchedules(true)}
+                        className="underline text-amber-100/80"
+                      >
+                        +{scheduleDue.length - 3} more
+                      </button>
+                    ) : null}
+                  </div>
+                ) : null}
+
                 <div className="mb-4 rounded-2xl uz-subpanel p-4">
                   <div className="flex items-center justify-between gap-3">
                     <div>
@@ -1525,15 +2204,35 @@ function HomeInner() {
                       </div>
                     </div>
 
-                    <button
-                      type="button"
-                      onClick={() => setContactsOpen(true)}
-                      disabled={isBusy}
-                      className="uz-btn-secondary"
-                      title="Open contacts"
-                    >
-                      📇 Contacts
-                    </button>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setShowSchedules(true)}
+                        disabled={isBusy}
+                        className="uz-btn-secondary"
+                        title="Scheduled payments"
+                      >
+                        🗓 Scheduled
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setShowBackup(true)}
+                        disabled={isBusy || !publicKey}
+                        className="uz-btn-secondary"
+                        title="Encrypted backup of contacts and notes"
+                      >
+                        ☁ Backup
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setContactsOpen(true)}
+                        disabled={isBusy}
+                        className="uz-btn-secondary"
+                        title="Open contacts"
+                      >
+                        📇 Contacts
+                      </button>
+                    </div>
                   </div>
 
                   {selectedContact ? (
@@ -1622,7 +2321,7 @@ function HomeInner() {
                 <input
                   value={amount}
                   onChange={(e) => setAmount(e.target.value)}
-                  placeholder="Amount (USDC)"
+                  placeholder={`Amount (${token.symbol})`}
                   className="uz-input w-full mt-2"
                   inputMode="decimal"
                   disabled={isBusy}
@@ -1649,6 +2348,8 @@ function HomeInner() {
                 >
                   {txStage === "signing" || txStage === "confirming"
                     ? "Confirming…"
+                    : txStage === "rebroadcasting"
+                    ? "Rebroadcasting…"
                     : txStage === "confirmed"
                     ? "Complete ✓"
                     : isBusy
@@ -1657,8 +2358,25 @@ function HomeInner() {
                 </button>
 
                 {txError ? (
-                  <div className="mt-3 rounded-xl border border-red-400/25 bg-red-400/10 px-4 py-3 text-xs text-red-100">
+                  <div
+                    className={[
+                      "mt-3 rounded-xl border px-4 py-3 text-xs",
+                      txStage === "expired" || txStage === "unknown"
+                        ? "border-amber-400/25 bg-amber-400/10 text-amber-100"
+                        : "border-red-400/25 bg-red-400/10 text-red-100",
+                    ].join(" ")}
+                  >
                     {txError}
+                    {txStage === "expired" && retryReceiptId ? (
+                      <button
+                        type="button"
+                        onClick={() => onSendUsdc(retryReceiptId)}
+                        disabled={!canSend || isBusy}
+                        className="uz-btn-secondary mt-3 w-full disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        Re-sign with fresh blockhash
+                      </button>
+                    ) : null}
                   </div>
                 ) : null}
 
@@ -1670,8 +2388,16 @@ function HomeInner() {
                           Receipt History
                         </div>
                         <div className="mt-0.5 text-xs text-white/70">
-                          Last 10 (filtered) • Local + Helius imported
+                          Showing {recentReceipts.length} of {filteredReceipts.length}{" "}
+                          (filtered) • Local + {historyProvider.label} imported
                         </div>
+                        {historySync?.lastSyncedAt ? (
+                          <div className="mt-0.5 text-[11px] text-white/50">
+                            {historySync.importedCount} on-chain tx scanned • Synced{" "}
+                            {fmtWhen(historySync.lastSyncedAt)}
+                            {historySync.reachedEnd ? " • Full history" : ""}
+                          </div>
+                        ) : null}
                       </div>
 
                       <div className="flex items-center gap-2">
@@ -1694,6 +2420,15 @@ function HomeInner() {
                           {isHeliusSyncing ? "Syncing…" : "Refresh"}
                         </button>
 
+                        <button
+                          type="button"
+                          onClick={() => setShowReceiptExport(true)}
+                          className="uz-btn-secondary"
+                          title="Export or restore receipts"
+                        >
+                          Export
+                        </button>
+
                         <button
                           type="button"
                           onClick={clearReceiptsHistory}
@@ -1754,7 +2489,7 @@ function HomeInner() {
                   {recentReceipts.length > 0 ? (
                     <div className="p-3 space-y-3">
                       {recentReceipts.map((r) => {
-                        const amountPretty = receiptAmountPretty(r.amountUi);
+                        const amountPretty = receiptAmountPretty(r.amountUi, r.tokenSymbol);
                         const toShort = shortMid(r.to, 7, 7);
                         const fromShort = shortMid(r.from, 7, 7);
 
@@ -1769,7 +2504,7 @@ function HomeInner() {
                                       receiptBadgeClasses(r.status),
                                     ].join(" ")}
                                   >
-                                    {receiptStatusLabel(r.status)}
+                                    {receiptStatusText(r.status)}
                                   </span>
 
                                   <span
@@ -1784,7 +2519,7 @@ function HomeInner() {
                                   <div className="text-sm font-semibold text-white truncate uz-receipt__amount">
                                     {amountPretty}{" "}
                                     <span className="text-white/70 font-semibold">
-                                      USDC
+                                      {r.tokenSymbol}
                                     </span>
                                   </div>
                                 </div>
@@ -1879,13 +2614,31 @@ function HomeInner() {
                       No receipts match this search/filter yet.
                     </div>
                   )}
+
+                  {filteredReceipts.length > recentReceipts.length ||
+                  (publicKey && !historySync?.reachedEnd) ? (
+                    <div className="px-3 pb-3">
+                      <button
+                        type="button"
+                        onClick={loadOlderReceipts}
+                        disabled={isLoadingOlder}
+                        className="uz-btn-secondary w-full disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        {isLoadingOlder ? "Loading…" : "Load older"}
+                      </button>
+                    </div>
+                  ) : null}
                 </div>
               </div>
             </div>
           </section>
         ) : (
           <section className="mt-6 uz-panel rounded-2xl p-8 sm:p-10 text-center">
-            <div className="text-xs text-white/70">UTILIZAP • Mainnet</div>
+            <div className="text-xs text-white/70">UTILIZAP • {clusterConfig.label}</div>
+
+            <div className="mt-3 flex justify-center sm:hidden">
+              {mounted ? <ClusterSelect /> : null}
+            </div>
 
             <h1 className="mt-3 text-3xl sm:text-4xl font-extrabold tracking-tight">
               Venmo-style USDC payments,
@@ -1910,6 +2663,16 @@ function HomeInner() {
               )}
             </div>
 
+            {storageReady && loadKnownWallets().length > 0 ? (
+              <button
+                type="button"
+                onClick={() => setShowWallets(true)}
+                className="mt-4 text-xs text-white/70 underline underline-offset-2 hover:text-white"
+              >
+                {pendingConnect ? "Reconnecting…" : "Previously used wallets"}
+              </button>
+            ) : null}
+
             <div className="mt-4 text-xs text-white/70">
               Utility first. Build first. Launch second.
             </div>
@@ -1917,10 +2680,21 @@ function HomeInner() {
         )}
 
         <footer className="mt-8 text-center text-xs text-white/60">
-          UTILIZAP • Non-custodial payments • Mainnet environment
+          UTILIZAP • Non-custodial payments • {clusterConfig.label} environment
         </footer>
       </div>
 
+      {/* INCOMING PAYMENT TOAST */}
+      {paidToast ? (
+        <div
+          className="fixed bottom-5 left-1/2 z-50 -translate-x-1/2 rounded-xl border border-emerald-400/30 bg-emerald-500/15 px-4 py-3 text-sm font-semibold text-emerald-100 shadow-lg backdrop-blur"
+          role="status"
+          aria-live="polite"
+        >
+          {paidToast}
+        </div>
+      ) : null}
+
       {/* CONTACTS PICKER MODAL */}
       {contactsOpen && (
         <div className="fixed inset-0 z-50" role="dialog" aria-modal="true">
@@ -2041,6 +2815,116 @@ function HomeInner() {
         </div>
       )}
 
+      {/* CHECKOUT (WATCH FOR PAYMENT) */}
+      {showPaymentWatch && publicKey && (
+        <PaymentWatchModal
+          recipient={publicKey}
+          reference={requestReference}
+          amountUi={
+            /^\d+(\.\d+)?$/.test(requestAmount.trim()) && Number(requestAmount) > 0
+              ? requestAmount.trim()
+              : undefined
+          }
+          token={token}
+          note={requestNote.trim() || undefined}
+          qrDataUrl={requestQr || undefined}
+          onPaid={onRequestPaid}
+          onClose={closePaymentWatch}
+        />
+      )}
+
+      {/* BATCH PAYOUT */}
+      {showBatchPayout && publicKey && (
+        <BatchPayout
+          token={token}
+          contacts={contacts}
+          priority={priorityLevel}
+          onRowSettled={onBatchRowSettled}
+          onClose={() => setShowBatchPayout(false)}
+        />
+      )}
+
+      {/* SPLIT A BILL */}
+      {showSplit && publicKey && (
+        <SplitBill
+          token={token}
+          contacts={contacts}
+          receipts={receipts}
+          origin={origin}
+          onPaymentFound={(p, reference) => saveDetectedPayment(p, reference)}
+          onClose={() => setShowSplit(false)}
+        />
+      )}
+
+      {/* RECEIPT EXPORT */}
+      {showReceiptExport && (
+        <ReceiptExport
+          receipts={filteredReceipts}
+          cluster={cluster}
+          filterSummary={[
+            receiptTab === "all" ? "All directions" : receiptTab === "sent" ? "Sent" : "Received",
+            receiptFilter === "all" ? "any status" : receiptFilter,
+            receiptSearch.trim() ? `matching "${receiptSearch.trim()}"` : "",
+            clusterConfig.label,
+          ]
+            .filter(Boolean)
+            .join(" • ")}
+          onImport={importReceipts}
+          onClose={() => setShowReceiptExport(false)}
+        />
+      )}
+
+      {/* ENCRYPTED BACKUP */}
+      {showBackup && publicKey && (
+        <BackupSync
+          wallet={publicKey.toBase58()}
+          signMessage={signMessage}
+          onRestored={() => {
+            setContacts(loadContacts(walletAddress));
+            setReceipts(loadReceipts(cluster, walletAddress));
+          }}
+          onClose={() => setShowBackup(false)}
+        />
+      )}
+
+      {/* WALLETS */}
+      {showWallets && (
+        <WalletSwitcher
+          current={walletAddress}
+          cluster={cluster}
+          clusterLabel={clusterConfig.label}
+          onSwitch={switchWallet}
+          onContactsScopeChange={() => setContacts(loadContacts(walletAddress))}
+          onClose={() => setShowWallets(false)}
+        />
+      )}
+
+      {/* INVOICES */}
+      {showInvoices && publicKey && (
+        <Invoices
+          tokens={clusterTokens}
+          contacts={contacts}
+          receipts={receipts}
+          origin={origin}
+          onPaymentFound={(p, reference) => saveDetectedPayment(p, reference)}
+          onClose={() => setShowInvoices(false)}
+        />
+      )}
+
+      {/* SCHEDULED PAYMENTS */}
+      {showSchedules && (
+        <ScheduledPayments
+          tokens={clusterTokens}
+          contacts={contacts}
+          receipts={receipts}
+          schedules={schedules}
+          now={scheduleNow}
+          onChanged={() => setSchedules(loadSchedules())}
+          onPayNow={payScheduled}
+          onClose={() => setShowSchedules(false)}
+        />
+      )}
+
       {/* RECEIPT MODAL */}
       {showReceipt && activeReceipt && (
         <div className="fixed inset-0 z-50" role="dialog" aria-modal="true">
@@ -2067,13 +2951,7 @@ function HomeInner() {
                             modalAccent,
                           ].join(" ")}
                         >
-                          {activeReceipt.status === "confirmed"
-                            ? "Confirmed"
-                            : activeReceipt.status === "failed"
-                            ? "Failed"
-                            : activeReceipt.status === "confirming"
-                            ? "Confirming"
-                            : "Submitted"}
+                          {receiptStatusText(activeReceipt.status)}
                         </span>
                       </div>
                       <div className="mt-0.5 text-xs text-white/70">
@@ -2098,7 +2976,7 @@ function HomeInner() {
                       <div className="mt-2 text-4xl font-extrabold tracking-tight text-white uz-preview__amount">
                         {receiptAmountDisplay}
                         <span className="text-white/70 text-base font-semibold ml-2">
-                          USDC
+                          {activeReceipt.tokenSymbol}
                         </span>
                       </div>
                     </div>
@@ -2122,6 +3000,21 @@ function HomeInner() {
                         </div>
                       </div>
 
+                      {activeReceipt.schedule ? (
+                        <div className="px-4 py-3 border-b border-white/10">
+                          <div className="text-[11px] uppercase tracking-wider text-white/70">
+                            Scheduled Payment
+                          </div>
+                          <div className="mt-1 text-sm text-white">
+                            {schedules.find((x) => x.id === activeReceipt.schedule?.id)?.label ??
+                              "Deleted schedule"}{" "}
+                            <span className="text-white/60">
+                              • due {formatDueDate(activeReceipt.schedule.due)}
+                            </span>
+                          </div>
+                        </div>
+                      ) : null}
+
                       <div className="px-4 py-3">
                         <div className="text-[11px] uppercase tracking-wider text-white/70">
                           Tx Signature
@@ -2216,6 +3109,15 @@ function HomeInner() {
                     </div>
 
                     <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <button
+                        type="button"
+                        onClick={() => shareVerifiedReceipt(activeReceipt)}
+                        disabled={!activeReceipt.sig}
+                        className="uz-preview__secondary rounded-xl px-4 py-3 text-sm font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        {receiptShared ? "Link Copied ✓" : "Share Receipt"}
+                      </button>
+
                       <button
                         type="button"
                         onClick={async () => {
@@ -2229,21 +3131,44 @@ function HomeInner() {
                         disabled={!receiptShareLink}
                         className="uz-preview__secondary rounded-xl px-4 py-3 text-sm font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
                       >
-                        {receiptCopied ? "Copied ✓" : "Copy Receipt Link"}
+                        {receiptCopied ? "Copied ✓" : "Request Same Payment"}
                       </button>
+                    </div>
+
+                    <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <a
+                        href={receiptPageUrl(activeReceipt) || "#"}
+                        target="_blank"
+                        rel="noreferrer"
+                        className={[
+                          "uz-preview__secondary rounded-xl px-4 py-3 text-sm font-semibold text-center",
+                          activeReceipt.sig ? "" : "pointer-events-none opacity-40",
+                        ].join(" ")}
+                      >
+                        Printable Receipt
+                      </a>
 
                       <button
                         type="button"
-                        onClick={() => {
-                          setShowReceipt(false);
-                          resetForNewPayment();
-                        }}
-                        className="uz-preview__primary rounded-xl px-4 py-3 text-sm font-semibold"
+                        onClick={() => downloadReceiptPdf(receiptDetails(activeReceipt, contacts))}
+                        disabled={!activeReceipt.sig}
+                        className="uz-preview__secondary rounded-xl px-4 py-3 text-sm font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
                       >
-                        New Payment →
+                        Download PDF
                       </button>
                     </div>
 
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setShowReceipt(false);
+                        resetForNewPayment();
+                      }}
+                      className="mt-3 w-full uz-preview__primary rounded-xl px-4 py-3 text-sm font-semibold"
+                    >
+                      New Payment →
+                    </button>
+
                     <div className="mt-4 text-center text-[11px] text-white/60">
                       UTILIZAP • Receipt
                     </div>
@@ -2300,7 +3225,7 @@ function HomeInner() {
                       <div className="mt-2 text-4xl font-extrabold tracking-tight text-white uz-preview__amount">
                         {previewAmountPretty}
                         <span className="text-white/70 text-base font-semibold ml-2">
-                          USDC
+                          {token.symbol}
                         </span>
                       </div>
                     </div>
@@ -2311,6 +3236,28 @@ function HomeInner() {
                       </div>
                     ) : null}
 
+                    {previewError ? (
+                      <div className="mt-4 rounded-xl border border-red-400/25 bg-red-400/10 px-4 py-3 text-xs text-red-100">
+                        {previewError}
+                      </div>
+                    ) : null}
+
+                    {transferPreview && !previewFeeLoading
+                      ? transferPreview.warnings.map((w) => (
+                          <div
+                            key={w.message}
+                            className={[
+                              "mt-4 rounded-xl border px-4 py-3 text-xs break-words",
+                              w.blocking
+                                ? "border-red-400/25 bg-red-400/10 text-red-100"
+                                : "border-amber-300/30 bg-amber-300/10 text-amber-100",
+                            ].join(" ")}
+                          >
+                            {w.message}
+                          </div>
+                        ))
+                      : null}
+
                     <div className="mt-5 rounded-2xl overflow-hidden uz-preview__panel">
                       <div className="px-4 py-3 border-b border-white/10">
                         <div className="text-[11px] uppercase tracking-wider text-white/70">
@@ -2334,7 +3281,12 @@ function HomeInner() {
                         <div className="text-[11px] uppercase tracking-wider text-white/70">
                           Network
                         </div>
-                        <div className="mt-1 text-sm text-white">Solana Mainnet</div>
+                        <div className="mt-1 text-sm text-white">
+                          Solana {clusterConfig.label}
+                          <span className="ml-2 text-[11px] text-white/60">
+                            {txVersion === 0 ? "v0 transaction" : "Legacy transaction"}
+                          </span>
+                        </div>
                       </div>
 
                       <div className="px-4 py-3">
@@ -2344,13 +3296,64 @@ function HomeInner() {
                               Estimated Fee
                             </div>
                             <div className="mt-1 text-sm text-white">
-                              {previewFeeLoading ? "Calculating…" : previewFeeText}
+                              {previewFeeLoading
+                                ? "Simulating…"
+                                : transferPreview
+                                ? `${fmtSol(transferPreview.fee.totalLamports)} SOL`
+                                : "—"}
                             </div>
+                            {transferPreview && !previewFeeLoading ? (
+                              <div className="mt-0.5 text-[11px] text-white/60">
+                                {transferPreview.fee.computeUnitLimit.toLocaleString()} CU @{" "}
+                                {transferPreview.fee.microLamportsPerCu.toLocaleString()} µLamports
+                                {transferPreview.rentLamports > 0
+                                  ? ` • + ${fmtSol(transferPreview.rentLamports)} SOL account rent`
+                                  : ""}
+                              </div>
+                            ) : null}
                           </div>
 
                           <span className="uz-chip">Est.</span>
                         </div>
+
+                        <div className="mt-3 grid grid-cols-3 gap-2">
+                          {PRIORITY_LEVELS.map((l) => (
+                            <button
+                              key={l.id}
+                              type="button"
+                              onClick={() => setPriorityLevel(l.id)}
+                              className={[
+                                "rounded-lg px-3 py-2 text-xs border transition",
+                                priorityLevel === l.id
+                                  ? "bg-white/10 text-white border-white/15"
+                                  : "bg-white/5 border-white/10 hover:bg-white/10 text-white",
+                              ].join(" ")}
+                            >
+                              {l.label}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="mt-2 text-[11px] text-white/60">
+                          Priority fee — pick Fast when the network is congested.
+                        </div>
                       </div>
+
+                      {transferPreview && !previewFeeLoading ? (
+                        <div className="px-4 py-3 border-t border-white/10">
+                          <div className="text-[11px] uppercase tracking-wider text-white/70">
+                            After This Payment
+                          </div>
+                          <div className="mt-1 text-sm text-white">
+                            {transferPreview.tokenAfterUi} {token.symbol}
+                            <span className="mx-2 text-white/40">•</span>
+                            {fmtSol(transferPreview.solAfterLamports)} SOL
+                          </div>
+                          <div className="mt-0.5 text-[11px] text-white/60">
+                            Now {transferPreview.tokenBeforeUi} {token.symbol} •{" "}
+                            {fmtSol(transferPreview.solBeforeLamports)} SOL
+                          </div>
+                        </div>
+                      ) : null}
                     </div>
 
                     {txNote.trim() ? (
@@ -2361,6 +3364,26 @@ function HomeInner() {
                         <div className="mt-1 text-sm text-white/80">
                           {txNote.trim()}
                         </div>
+
+                        <label className="mt-3 flex items-start gap-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={previewMemoOnChain && noteFitsMemo}
+                            onChange={(e) => setPreviewMemoOnChain(e.target.checked)}
+                            disabled={!noteFitsMemo}
+                            className="mt-0.5"
+                          />
+                          <span className="text-xs text-white/80">
+                            Send note on-chain so the recipient sees it (public memo).
+                          </span>
+                        </label>
+
+                        {!noteFitsMemo ? (
+                          <div className="mt-2 text-[11px] text-amber-100">
+                            Note is over {MEMO_MAX_BYTES} bytes, so it will only be
+                            saved on this device.
+                          </div>
+                        ) : null}
                       </div>
                     ) : null}
 
@@ -2391,7 +3414,7 @@ function HomeInner() {
                       <button
                         type="button"
                         onClick={continueToPhantom}
-                        disabled={!previewAck || isBusy || !canSend}
+                        disabled={!previewAck || isBusy || !canSend || previewBlocked}
                         className="uz-preview__primary rounded-xl px-4 py-3 text-sm font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
                       >
                         Continue to Phantom →
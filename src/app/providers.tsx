@@ -1,6 +1,14 @@
 "use client";
 
-import { ReactNode, useMemo } from "react";
+import {
+  ReactNode,
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useSyncExternalStore,
+} from "react";
 import { ConnectionProvider, WalletProvider } from "@solana/wallet-adapter-react";
 import { WalletModalProvider } from "@solana/wallet-adapter-react-ui";
 import {
@@ -8,15 +16,100 @@ import {
   SolflareWalletAdapter,
   CoinbaseWalletAdapter,
 } from "@solana/wallet-adapter-wallets";
-import { WalletAdapterNetwork } from "@solana/wallet-adapter-base";
-import { clusterApiUrl } from "@solana/web3.js";
+
+import {
+  CLUSTERS,
+  ClusterConfig,
+  ClusterId,
+  ClusterSettings,
+  getClusterSettingsSnapshot,
+  parseClusterSettings,
+  saveClusterSettings,
+  subscribeClusterSettings,
+} from "./lib/cluster";
+import { RpcPool, RpcPoolState, createRpcPool, rpcEndpointsFor } from "./lib/rpc";
 
 import "@solana/wallet-adapter-react-ui/styles.css";
 
+type ClusterContextValue = {
+  cluster: ClusterId;
+  config: ClusterConfig;
+  endpoint: string;
+  customRpc: string;
+  setCluster: (cluster: ClusterId) => void;
+  setCustomRpc: (url: string) => void;
+  /** Failover pool for the active cluster, and its live health state */
+  rpc: RpcPool;
+  rpcState: RpcPoolState;
+  /** In-app endpoints for the active cluster (env + public RPC are appended) */
+  rpcUrls: string[];
+  setRpcUrls: (urls: string[]) => void;
+};
+
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+
+const ClusterContext = createContext<ClusterContextValue | null>(null);
+
+export function useCluster(): ClusterContextValue {
+  const ctx = useContext(ClusterContext);
+  if (!ctx) throw new Error("useCluster must be used inside <Providers>.");
+  return ctx;
+}
+
 export default function Providers({ children }: { children: ReactNode }) {
-  // ✅ MAINNET
-  const network = WalletAdapterNetwork.Mainnet;
-  const endpoint = useMemo(() => clusterApiUrl(network), [network]);
+  // ✅ Cluster from local settings (server render always starts on mainnet)
+  const raw = useSyncExternalStore(
+    subscribeClusterSettings,
+    getClusterSettingsSnapshot,
+    () => null
+  );
+  const settings = useMemo(() => parseClusterSettings(raw), [raw]);
+
+  const config = CLUSTERS[settings.cluster];
+  const network = config.walletNetwork;
+
+  // ✅ RPC failover pool; ConnectionProvider follows whichever endpoint is active
+  const rpcUrlsKey = rpcEndpointsFor(settings).join("\n");
+  const defaultEndpoint = config.defaultEndpoint;
+  const rpc = useMemo(() => {
+    try {
+      return createRpcPool(rpcUrlsKey.split("\n"));
+    } catch (e) {
+      // Never throw while rendering: fall back to the cluster's public RPC
+      console.warn("Invalid RPC settings, using the default endpoint:", e);
+      return createRpcPool([defaultEndpoint]);
+    }
+  }, [rpcUrlsKey, defaultEndpoint]);
+  const rpcState = useSyncExternalStore(rpc.subscribe, rpc.getState, rpc.getState);
+  const endpoint = rpcState.activeUrl;
+
+  useEffect(() => {
+    rpc.checkHealth();
+    const t = window.setInterval(() => rpc.checkHealth(), HEALTH_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(t);
+  }, [rpc]);
+
+  const update = useCallback(
+    (patch: Partial<ClusterSettings>) => saveClusterSettings({ ...settings, ...patch }),
+    [settings]
+  );
+
+  const clusterValue = useMemo<ClusterContextValue>(
+    () => ({
+      cluster: settings.cluster,
+      config,
+      endpoint,
+      customRpc: settings.customRpc,
+      setCluster: (cluster) => update({ cluster }),
+      setCustomRpc: (customRpc) => update({ customRpc: customRpc.trim() }),
+      rpc,
+      rpcState,
+      rpcUrls: settings.rpcUrls[settings.cluster] ?? [],
+      setRpcUrls: (urls) =>
+        update({ rpcUrls: { ...settings.rpcUrls, [settings.cluster]: urls } }),
+    }),
+    [settings, config, endpoint, update, rpc, rpcState]
+  );
 
   const wallets = useMemo(
     () => [
@@ -28,10 +121,12 @@ export default function Providers({ children }: { children: ReactNode }) {
   );
 
   return (
-    <ConnectionProvider endpoint={endpoint}>
-      <WalletProvider wallets={wallets} autoConnect={false}>
-        <WalletModalProvider>{children}</WalletModalProvider>
-      </WalletProvider>
-    </ConnectionProvider>
+    <ClusterContext.Provider value={clusterValue}>
+      <ConnectionProvider endpoint={endpoint}>
+        <WalletProvider wallets={wallets} autoConnect={false}>
+          <WalletModalProvider>{children}</WalletModalProvider>
+        </WalletProvider>
+      </ConnectionProvider>
+    </ClusterContext.Provider>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import {
+  ReactNode,
+  Suspense,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import QRCode from "qrcode";
+
+import { isStorageReady, subscribeAppStorage } from "../../lib/appStorage";
+import { CLUSTER_IDS, isClusterId } from "../../lib/cluster";
+import { loadContacts } from "../../lib/contacts";
+import { loadReceiptsBySig } from "../../lib/receipts";
+import { downloadReceiptPdf, receiptDetails } from "../../lib/receiptPdf";
+import { verifiedReceiptUrl } from "../../lib/txVerify";
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="px-4 py-3 border-b border-white/10 last:border-b-0 print:border-zinc-300">
+      <div className="text-[11px] uppercase tracking-wider text-white/70 print:text-zinc-500">
+        {label}
+      </div>
+      <div className="mt-1 text-sm text-white print:text-black break-all">{children}</div>
+    </div>
+  );
+}
+
+function ReceiptInner() {
+  const { sig } = useParams<{ sig: string }>();
+  const searchParams = useSearchParams();
+
+  // Receipts live in IndexedDB, so there is nothing to render until it has hydrated
+  const storageReady = useSyncExternalStore(subscribeAppStorage, isStorageReady, () => false);
+
+  const details = useMemo(() => {
+    if (!storageReady) return null;
+    const c = searchParams.get("cluster");
+    const id = searchParams.get("id");
+    const wallet = searchParams.get("wallet");
+    // Look in the linked cluster first, then the rest
+    const order = isClusterId(c) ? [c, ...CLUSTER_IDS.filter((x) => x !== c)] : CLUSTER_IDS;
+    const bySig = loadReceiptsBySig(sig);
+    for (const cluster of order) {
+      const matches = bySig.filter((r) => r.cluster === cluster);
+      const receipt =
+        matches.find((r) => r.id === id && r.wallet === wallet) ??
+        matches.find((r) => r.id === id) ??
+        matches[0];
+      if (receipt) {
+        return { ...receiptDetails(receipt, loadContacts()), cluster: receipt.cluster };
+      }
+    }
+    return null;
+  }, [storageReady, sig, searchParams]);
+
+  const explorerUrl = details?.explorerUrl ?? "";
+  const [qr, setQr] = useState<{ url: string; dataUrl: string } | null>(null);
+  useEffect(() => {
+    if (!explorerUrl) return;
+    let cancelled = false;
+    QRCode.toDataURL(explorerUrl, {
+      margin: 1,
+      width: 200,
+      color: { dark: "#000000", light: "#ffffff" },
+    }).then((dataUrl) => {
+      if (!cancelled) setQr({ url: explorerUrl, dataUrl });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [explorerUrl]);
+
+  if (!storageReady) {
+    return (
+      <main className="min-h-screen bg-black text-white flex items-center justify-center">
+        <div className="text-sm text-white/70">Loading…</div>
+      </main>
+    );
+  }
+
+  if (!details) {
+    return (
+      <main className="min-h-screen bg-black text-white flex items-center justify-center px-6">
+        <div className="text-center space-y-2">
+          <div className="text-lg font-bold">Receipt not found</div>
+          <div className="text-sm text-white/70">
+            Receipts are stored on the device that made or received the payment.
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const party = (p: typeof details.from) => (
+    <>
+      {p.name ? <div className="font-semibold">{p.name}</div> : null}
+      <div className="font-mono text-xs text-white/80 print:text-zinc-700">{p.address || "—"}</div>
+    </>
+  );
+
+  return (
+    <main className="min-h-screen text-white bg-black relative uz-app print:bg-white print:text-black">
+      <div className="pointer-events-none absolute inset-0 uz-bg print:hidden" />
+
+      <div className="relative mx-auto w-full max-w-2xl px-4 sm:px-6 py-8 space-y-4 print:p-0">
+        <div className="flex items-center justify-end gap-2 print:hidden">
+          <a href={verifiedReceiptUrl(sig, details.cluster)} className="uz-btn-secondary">
+            Verify On-chain
+          </a>
+          <button type="button" onClick={() => downloadReceiptPdf(details)} className="uz-btn-secondary">
+            Download PDF
+          </button>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="uz-preview__primary rounded-xl px-4 py-2 text-sm font-semibold"
+          >
+            Print
+          </button>
+        </div>
+
+        <div className="uz-panel uz-receipt-sheet rounded-2xl p-5 sm:p-6">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="text-[11px] uppercase tracking-wider text-white/70 print:text-zinc-500">
+                UTILIZAP Receipt
+              </div>
+              <h1 className="text-2xl font-extrabold tracking-tight">{details.title}</h1>
+              <div className="mt-3 text-4xl font-extrabold tracking-tight">
+                {details.amountText}
+                <span className="ml-2 text-base font-semibold text-white/70 print:text-zinc-600">
+                  {details.tokenSymbol}
+                </span>
+              </div>
+              <div className="mt-2 text-xs text-white/70 print:text-zinc-600">
+                {details.status} • {details.when} • {details.network}
+              </div>
+            </div>
+
+            {qr && qr.url === explorerUrl ? (
+              <div className="shrink-0 flex flex-col items-center gap-1">
+                <img
+                  src={qr.dataUrl}
+                  alt="Explorer QR"
+                  className="h-32 w-32 rounded-xl border border-white/10 bg-white p-2"
+                  draggable={false}
+                />
+                <div className="text-[10px] text-white/60 print:text-zinc-500">Scan to verify</div>
+              </div>
+            ) : null}
+          </div>
+
+          <div className="mt-5 rounded-2xl overflow-hidden uz-subpanel">
+            <Field label="From">{party(details.from)}</Field>
+            <Field label="To">{party(details.to)}</Field>
+            <Field label="Transaction Signature">
+              <span className="font-mono text-xs">{details.signature}</span>
+            </Field>
+            {details.note ? <Field label="Note">{details.note}</Field> : null}
+            {details.reference ? (
+              <Field label="Reference">
+                <span className="font-mono text-xs">{details.reference}</span>
+              </Field>
+            ) : null}
+            <Field label="Explorer">
+              <a href={details.explorerUrl} target="_blank" rel="noreferrer" className="text-xs underline">
+                {details.explorerUrl}
+              </a>
+            </Field>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+export default function ReceiptPage() {
+  return (
+    <Suspense
+      fallback={
+        <main className="min-h-screen bg-black text-white flex items-center justify-center">
+          <div className="text-sm text-white/70">Loading…</div>
+        </main>
+      }
+    >
+      <ReceiptInner />
+    </Suspense>
+  );
+}
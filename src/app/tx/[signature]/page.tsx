@@ -0,0 +1,222 @@
+"use client";
+
+import { ReactNode, Suspense, useEffect, useMemo, useState } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+
+import { useCluster } from "../../providers";
+import {
+  CLUSTERS,
+  getClusterSettingsSnapshot,
+  isClusterId,
+  parseClusterSettings,
+} from "../../lib/cluster";
+import { createRpcPool, rpcEndpointsFor } from "../../lib/rpc";
+import { VerifiedTx, fetchVerifiedTx, isTxSignature } from "../../lib/txVerify";
+import { formatTokenAmount } from "../../lib/tokens";
+
+function shortMid(s: string, a = 6, b = 6) {
+  if (!s) return "—";
+  return s.length <= a + b + 3 ? s : `${s.slice(0, a)}…${s.slice(-b)}`;
+}
+
+type Lookup =
+  | { key: string; state: "ok"; tx: VerifiedTx }
+  | { key: string; state: "missing" }
+  | { key: string; state: "error"; message: string };
+
+function TxInner() {
+  const { signature } = useParams<{ signature: string }>();
+  const searchParams = useSearchParams();
+  const active = useCluster();
+
+  const c = searchParams.get("cluster");
+  const cluster = isClusterId(c) ? c : "mainnet-beta";
+  const validSig = isTxSignature(signature);
+
+  // Links carry their own cluster; don't depend on the viewer's selected network
+  const rpc = useMemo(() => {
+    if (cluster === active.cluster) return active.rpc;
+    const settings = parseClusterSettings(getClusterSettingsSnapshot());
+    return createRpcPool(rpcEndpointsFor({ ...settings, cluster }));
+  }, [cluster, active.cluster, active.rpc]);
+
+  const endpoint = cluster === active.cluster ? active.endpoint : undefined;
+  const key = `${cluster}:${signature}`;
+  const [lookup, setLookup] = useState<Lookup | null>(null);
+
+  useEffect(() => {
+    if (!validSig) return;
+    let cancelled = false;
+    fetchVerifiedTx(rpc, signature, cluster, endpoint)
+      .then((tx) => {
+        if (cancelled) return;
+        setLookup(tx ? { key, state: "ok", tx } : { key, state: "missing" });
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setLookup({
+          key,
+          state: "error",
+          message: e instanceof Error ? e.message : "RPC request failed",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [rpc, signature, cluster, endpoint, key, validSig]);
+
+  const result = lookup?.key === key ? lookup : null;
+
+  const shell = (children: ReactNode) => (
+    <main className="min-h-screen text-white bg-black relative uz-app">
+      <div className="pointer-events-none absolute inset-0 uz-bg" />
+      <div className="relative mx-auto w-full max-w-2xl px-4 sm:px-6 py-8 space-y-4">{children}</div>
+    </main>
+  );
+
+  if (!validSig) {
+    return shell(
+      <div className="uz-panel rounded-2xl p-6 text-center space-y-2">
+        <div className="text-lg font-bold">Invalid transaction signature</div>
+        <div className="text-sm text-white/70 font-mono break-all">{signature}</div>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return shell(
+      <div className="uz-panel rounded-2xl p-6 text-center text-sm text-white/70">
+        Fetching transaction from {CLUSTERS[cluster].label}…
+      </div>
+    );
+  }
+
+  if (result.state !== "ok") {
+    return shell(
+      <div className="uz-panel rounded-2xl p-6 text-center space-y-2">
+        <div className="text-lg font-bold">
+          {result.state === "missing" ? "Transaction not found" : "Couldn't reach the network"}
+        </div>
+        <div className="text-sm text-white/70">
+          {result.state === "missing"
+            ? `${CLUSTERS[cluster].label} has no record of this signature yet.`
+            : result.message}
+        </div>
+        <div className="text-xs text-white/60 font-mono break-all">{signature}</div>
+      </div>
+    );
+  }
+
+  const { tx } = result;
+
+  return shell(
+    <>
+      <div className="uz-panel rounded-2xl p-5 sm:p-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <div className="text-[11px] uppercase tracking-wider text-white/70">
+              UTILIZAP • On-chain Receipt
+            </div>
+            <h1 className="text-2xl font-extrabold tracking-tight">
+              {tx.failed ? "Transaction Failed" : "Payment"}
+            </h1>
+            <div className="mt-1 text-xs text-white/70">
+              {tx.blockTime ? new Date(tx.blockTime * 1000).toLocaleString() : "Time unknown"} •{" "}
+              {CLUSTERS[cluster].label}
+            </div>
+          </div>
+          <span
+            className={[
+              "text-[11px] px-2 py-1 rounded-full border shrink-0",
+              tx.failed
+                ? "border-red-400/30 bg-red-400/10 text-red-200"
+                : "border-emerald-400/30 bg-emerald-400/10 text-emerald-200",
+            ].join(" ")}
+          >
+            {tx.failed ? "Failed" : `Verified ✓ ${tx.confirmation ?? "confirmed"}`}
+          </span>
+        </div>
+
+        {tx.transfers.length === 0 ? (
+          <div className="mt-5 rounded-2xl uz-subpanel p-4 text-sm text-white/70">
+            {tx.failed
+              ? "Nothing was transferred."
+              : "No stablecoin transfer in this transaction."}
+          </div>
+        ) : (
+          <div className="mt-5 space-y-3">
+            {tx.transfers.map((t, i) => (
+              <div key={i} className="rounded-2xl uz-subpanel p-4">
+                <div className="text-3xl font-extrabold tracking-tight">
+                  {formatTokenAmount(Number(t.amountUi), t.token)}
+                  <span className="ml-2 text-base font-semibold text-white/70">
+                    {t.token.symbol}
+                  </span>
+                </div>
+                <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs">
+                  <div>
+                    <div className="text-[11px] uppercase tracking-wider text-white/70">From</div>
+                    <div className="mt-1 font-mono break-all">{t.from || "—"}</div>
+                  </div>
+                  <div>
+                    <div className="text-[11px] uppercase tracking-wider text-white/70">To</div>
+                    <div className="mt-1 font-mono break-all">{t.to}</div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {tx.memo ? (
+          <div className="mt-4 rounded-2xl uz-subpanel p-4">
+            <div className="text-[11px] uppercase tracking-wider text-white/70">Memo</div>
+            <div className="mt-1 text-sm break-words">{tx.memo}</div>
+          </div>
+        ) : null}
+
+        <div className="mt-4 space-y-1 text-xs text-white/70">
+          <div className="flex justify-between gap-3">
+            <span>Signature</span>
+            <span className="font-mono text-white">{shortMid(tx.signature, 12, 12)}</span>
+          </div>
+          <div className="flex justify-between gap-3">
+            <span>Slot</span>
+            <span className="text-white">{tx.slot.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between gap-3">
+            <span>Fee payer</span>
+            <span className="font-mono text-white">{shortMid(tx.feePayer, 8, 8)}</span>
+          </div>
+        </div>
+      </div>
+
+      <a
+        href={tx.explorerUrl}
+        target="_blank"
+        rel="noreferrer"
+        className="uz-preview__primary block text-center rounded-xl px-4 py-3 text-sm font-semibold"
+      >
+        View on Solana Explorer →
+      </a>
+
+      <div className="text-center text-[11px] text-white/60">
+        Read directly from {CLUSTERS[cluster].label} via RPC. Nothing here comes from the sender.
+      </div>
+    </>
+  );
+}
+
+export default function TxPage() {
+  return (
+    <Suspense
+      fallback={
+        <main className="min-h-screen bg-black text-white flex items-center justify-center">
+          <div className="text-sm text-white/70">Loading…</div>
+        </main>
+      }
+    >
+      <TxInner />
+    </Suspense>
+  );
+}
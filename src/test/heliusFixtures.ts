@@ -0,0 +1,14 @@
+// src/test/heliusFixtures.ts
+// Helius enhanced-transaction responses (GET /v0/addresses/:address/transactions)
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+export type HeliusFixture = "swap" | "multi-transfer" | "self-transfer";
+
+/** Wallet every fixture is recorded from */
+export const FIXTURE_WALLET = "AEew4ph6kXRa29f9fwqrUkAnYrV6ywhphyJ7zYcev9iM";
+
+export function loadHeliusFixture(name: HeliusFixture): unknown[] {
+  const file = path.join(__dirname, "fixtures", "helius", `${name}.json`);
+  return JSON.parse(readFileSync(file, "utf8"));
+}
@@ -0,0 +1,64 @@
+// src/test/heliusMock.ts
+// Local stand-in for the Helius API; point HELIUS_API_BASE_URL at `url`.
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type HeliusMock = {
+  url: string;
+  /** Paths (with query) of every request received */
+  requests: string[];
+  /** Serves `txs` for `address`; other addresses get an empty page */
+  setTransactions: (address: string, txs: unknown[]) => void;
+  /** Next responses fail with this status until cleared with null */
+  failWith: (status: number | null) => void;
+  close: () => Promise<void>;
+};
+
+export async function startHeliusMock(): Promise<HeliusMock> {
+  const byAddress = new Map<string, unknown[]>();
+  const requests: string[] = [];
+  let failStatus: number | null = null;
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://mock");
+    requests.push(`${url.pathname}${url.search}`);
+
+    const match = url.pathname.match(/^\/v0\/addresses\/([^/]+)\/transactions$/);
+    if (!match) {
+      res.writeHead(404).end("Not found");
+      return;
+    }
+    if (!url.searchParams.get("api-key")) {
+      res.writeHead(401).end("Missing api-key");
+      return;
+    }
+    if (failStatus) {
+      res.writeHead(failStatus).end("Mock failure");
+      return;
+    }
+
+    const limit = Number(url.searchParams.get("limit") ?? 100);
+    const before = url.searchParams.get("before");
+    let txs = byAddress.get(match[1]) ?? [];
+    if (before) {
+      const i = txs.findIndex((t) => (t as { signature?: string }).signature === before);
+      txs = i === -1 ? [] : txs.slice(i + 1);
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(txs.slice(0, limit)));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    setTransactions: (address, txs) => byAddress.set(address, txs),
+    failWith: (status) => {
+      failStatus = status;
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}